@@ -3,9 +3,13 @@ import { AuthProvider } from './contexts/AuthContext';
 import { Header } from './components/layout/Header';
 import { Footer } from './components/layout/Footer';
 import { ProtectedRoute } from './components/common/ProtectedRoute';
+import { OfflineBanner } from './components/common/OfflineBanner';
+import { Toaster } from './components/common/Toaster';
 import { Home } from './pages/Home';
 import { Books } from './pages/Books';
 import { BookDetail } from './pages/BookDetail';
+import { SeriesDetail } from './pages/SeriesDetail';
+import { AuthorDetail } from './pages/AuthorDetail';
 import { Recommendations } from './pages/Recommendations';
 import { ReadingLists } from './pages/ReadingLists';
 import { ReadingListDetail } from './pages/ReadingListDetail';
@@ -23,11 +27,14 @@ function App() {
       <AuthProvider>
         <div className="flex flex-col min-h-screen">
           <Header />
+          <OfflineBanner />
           <main className="flex-1">
             <Routes>
               <Route path="/" element={<Home />} />
               <Route path="/books" element={<Books />} />
               <Route path="/books/:id" element={<BookDetail />} />
+              <Route path="/series/:id" element={<SeriesDetail />} />
+              <Route path="/authors/:id" element={<AuthorDetail />} />
               <Route path="/recommendations" element={<Recommendations />} />
               <Route
                 path="/reading-lists"
@@ -59,6 +66,7 @@ function App() {
             </Routes>
           </main>
           <Footer />
+          <Toaster />
         </div>
       </AuthProvider>
     </BrowserRouter>
@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/common/Button';
+import { Input } from '@/components/common/Input';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { Modal } from '@/components/common/Modal';
+import { useAuthors } from '@/hooks/useBooks';
+import { mergeAuthors, updateAuthor } from '@/services/api';
+import { Author, AuthorInput, Book } from '@/types';
+import { handleApiError } from '@/utils/errorHandling';
+import { showToast } from '@/utils/toasts';
+
+/**
+ * AuthorsPanel component props
+ */
+interface AuthorsPanelProps {
+  /** Catalog already loaded by the page, used to list the printed author names */
+  books: Book[];
+}
+
+/**
+ * An author name as printed on books, with the books printed under it
+ */
+interface PrintedName {
+  name: string;
+  books: Book[];
+  author?: Author;
+}
+
+function AuthorEditor({ author, onClose }: { author: Author; onClose: () => void }) {
+  const [input, setInput] = useState<AuthorInput>(author);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateAuthor(author.id, {
+        ...input,
+        aliases: input.aliases.map((alias) => alias.trim()).filter(Boolean),
+      });
+      showToast({ tone: 'success', message: 'Author updated' });
+      onClose();
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-h-[60vh] overflow-y-auto">
+      <Input
+        label="Name"
+        type="text"
+        value={input.name}
+        onChange={(e) => setInput({ ...input, name: e.target.value })}
+        required
+      />
+
+      <div className="mb-5">
+        <label htmlFor="author-bio" className="block text-sm font-semibold text-slate-700 mb-2">
+          Bio
+        </label>
+        <textarea
+          id="author-bio"
+          value={input.bio}
+          onChange={(e) => setInput({ ...input, bio: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 min-h-[100px] resize-none"
+        />
+      </div>
+
+      <Input
+        label="Photo URL"
+        type="text"
+        value={input.photo}
+        onChange={(e) => setInput({ ...input, photo: e.target.value })}
+      />
+
+      <Input
+        label="Aliases"
+        type="text"
+        value={input.aliases.join(', ')}
+        onChange={(e) =>
+          setInput({ ...input, aliases: e.target.value === '' ? [] : e.target.value.split(/, ?/) })
+        }
+        placeholder="Other names on the books, e.g. T. J. Reid"
+      />
+
+      <div className="flex gap-3 mt-6">
+        <Button
+          variant="primary"
+          onClick={handleSave}
+          disabled={isSaving || !input.name.trim()}
+          className="flex-1"
+        >
+          {isSaving ? 'Saving...' : 'Save Author'}
+        </Button>
+        <Button variant="secondary" onClick={onClose} className="flex-1">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Admin authors tab: merges author names printed on books into one author and
+ * edits author bios, photos and aliases
+ *
+ * @example
+ * <AuthorsPanel books={books} />
+ */
+export function AuthorsPanel({ books }: AuthorsPanelProps) {
+  const { data: authors = [], error, isLoading } = useAuthors();
+  const [selectedNames, setSelectedNames] = useState<string[]>([]);
+  const [mergedName, setMergedName] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const [editingAuthor, setEditingAuthor] = useState<Author | null>(null);
+
+  useEffect(() => {
+    if (error) handleApiError(error);
+  }, [error]);
+
+  const printedNames = useMemo(() => {
+    const byName = new Map<string, PrintedName>();
+    books.forEach((book) => {
+      const entry = byName.get(book.author) ?? {
+        name: book.author,
+        books: [],
+        author: authors.find((author) => author.id === book.authorId),
+      };
+      entry.books.push(book);
+      byName.set(book.author, entry);
+    });
+    return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [books, authors]);
+
+  const bookCountOf = (author: Author) =>
+    books.filter((book) => book.authorId === author.id).length;
+
+  const toggleName = (name: string) => {
+    const next = selectedNames.includes(name)
+      ? selectedNames.filter((item) => item !== name)
+      : [...selectedNames, name];
+    setSelectedNames(next);
+    // Suggest the name with the most books; admins can type another
+    if (!mergedName || !next.includes(mergedName)) {
+      const suggested = printedNames
+        .filter((entry) => next.includes(entry.name))
+        .sort((a, b) => b.books.length - a.books.length)[0];
+      setMergedName(suggested?.name ?? '');
+    }
+  };
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      const author = await mergeAuthors({ names: selectedNames, name: mergedName.trim() });
+      showToast({
+        tone: 'success',
+        message: `Merged ${selectedNames.length} names into ${author.name}`,
+      });
+      setSelectedNames([]);
+      setMergedName('');
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Merge Author Names</h2>
+        <p className="text-slate-600 mb-4">
+          Select the names that belong to one author. Their books will link to a single author page,
+          and the other names become aliases.
+        </p>
+        <ul className="divide-y divide-slate-200 mb-4">
+          {printedNames.map((entry) => (
+            <li key={entry.name} className="py-2">
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedNames.includes(entry.name)}
+                  onChange={() => toggleName(entry.name)}
+                  className="h-4 w-4 accent-violet-600"
+                />
+                <span className="font-medium text-slate-900">{entry.name}</span>
+                <span className="text-sm text-slate-500">
+                  {entry.books.length === 1 ? '1 book' : `${entry.books.length} books`}
+                  {entry.author && entry.author.name !== entry.name && ` · ${entry.author.name}`}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <Input
+              label="Merged author name"
+              type="text"
+              value={mergedName}
+              onChange={(e) => setMergedName(e.target.value)}
+              placeholder="Select names above"
+            />
+          </div>
+          <Button
+            variant="primary"
+            onClick={handleMerge}
+            disabled={isMerging || selectedNames.length < 2 || !mergedName.trim()}
+            className="sm:mb-5"
+          >
+            {isMerging ? 'Merging...' : 'Merge'}
+          </Button>
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-bold text-slate-900 mb-4">Authors</h2>
+        {authors.length === 0 ? (
+          <p className="text-slate-500 py-4">No authors yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {authors.map((author) => (
+              <li key={author.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <Link
+                    to={`/authors/${author.id}`}
+                    className="font-semibold text-slate-900 hover:text-violet-700"
+                  >
+                    {author.name}
+                  </Link>
+                  <p className="text-sm text-slate-500">
+                    {bookCountOf(author) === 1 ? '1 book' : `${bookCountOf(author)} books`}
+                    {author.aliases.length > 0 && ` · also ${author.aliases.join(', ')}`}
+                  </p>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => setEditingAuthor(author)}>
+                  Edit
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <Modal
+        isOpen={editingAuthor !== null}
+        onClose={() => setEditingAuthor(null)}
+        title="Edit Author"
+      >
+        {editingAuthor && (
+          <AuthorEditor
+            key={editingAuthor.id}
+            author={editingAuthor}
+            onClose={() => setEditingAuthor(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
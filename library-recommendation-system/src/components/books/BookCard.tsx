@@ -1,7 +1,13 @@
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Book } from '@/types';
-import { formatRating } from '@/utils/formatters';
+import {
+  formatBookFormat,
+  formatPageCount,
+  formatRating,
+  formatReviewCount,
+} from '@/utils/formatters';
 import { Button } from '@/components/common/Button';
+import { ReadingStatusControl } from './ReadingStatusControl';
 
 /**
  * BookCard component props
@@ -60,6 +66,12 @@ export function BookCard({ book }: BookCardProps) {
                 <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
               </svg>
               <span className="text-sm font-bold text-slate-900">{formatRating(book.rating)}</span>
+              <span
+                className="ml-1 text-xs text-slate-500"
+                title={formatReviewCount(book.reviewCount)}
+              >
+                ({book.reviewCount.toLocaleString('en-US')})
+              </span>
             </div>
           </div>
         </div>
@@ -69,9 +81,39 @@ export function BookCard({ book }: BookCardProps) {
         <h3 className="text-lg font-bold text-slate-900 mb-2 line-clamp-2 group-hover:text-violet-600 transition-colors">
           {book.title}
         </h3>
-        <p className="text-sm text-slate-600 mb-4 font-medium">{book.author}</p>
+        <p className="text-sm text-slate-600 mb-1 font-medium">
+          {book.authorId ? (
+            <Link
+              to={`/authors/${book.authorId}`}
+              onClick={(e) => e.stopPropagation()}
+              className="hover:text-violet-600 hover:underline"
+            >
+              {book.author}
+            </Link>
+          ) : (
+            book.author
+          )}
+        </p>
+        <p className="text-xs text-slate-500 mb-4 h-4">
+          {[
+            book.editions.length > 1
+              ? `${book.editions.length} editions`
+              : formatBookFormat(book.format),
+            formatPageCount(book.pageCount),
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+        {/* Choosing a status must not open the book */}
+        <div onClick={(e) => e.stopPropagation()}>
+          <ReadingStatusControl bookId={book.id} className="mb-4" />
+        </div>
         <div className="flex items-center justify-between">
-          <span className="badge-modern">{book.genre}</span>
+          {book.genres.length > 0 ? (
+            <span className="badge-modern">{book.genres[0]}</span>
+          ) : (
+            <span />
+          )}
           <div className="flex items-center text-slate-500">
             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { Button } from '@/components/common/Button';
+import { Input } from '@/components/common/Input';
+import { useSeriesList } from '@/hooks/useBooks';
+import { createSeries } from '@/services/api';
+import { BookFormat, BookInput, Edition } from '@/types';
+import { BOOK_FORMATS } from '@/utils/bookQuery';
+import { editionFields } from '@/utils/editions';
+import { handleApiError } from '@/utils/errorHandling';
+import { formatBookFormat } from '@/utils/formatters';
+
+/**
+ * BookFormFields component props
+ */
+interface BookFormFieldsProps {
+  book: BookInput;
+  onChange: (book: BookInput) => void;
+}
+
+/**
+ * Lists are edited as comma-separated text. Entries keep their whitespace
+ * while typing so the text round-trips; normalizeBookInput() cleans them up
+ * before saving.
+ */
+function listText(values: string[]): string {
+  return values.join(', ');
+}
+
+function parseListText(text: string): string[] {
+  return text === '' ? [] : text.split(/, ?/);
+}
+
+function FormatSelect({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: BookFormat | undefined;
+  onChange: (format: BookFormat | undefined) => void;
+}) {
+  return (
+    <div className="mb-5">
+      <label htmlFor={id} className="block text-sm font-semibold text-slate-700 mb-2">
+        Format
+      </label>
+      <select
+        id={id}
+        value={value ?? ''}
+        onChange={(e) => onChange((e.target.value as BookFormat) || undefined)}
+        className="input-modern"
+      >
+        <option value="">Unknown</option>
+        {BOOK_FORMATS.map((format) => (
+          <option key={format} value={format}>
+            {formatBookFormat(format)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Editions besides the default one, which the fields above describe. Adding
+ * the first makes the work's own fields its first edition; removing the last
+ * makes it a single-edition work again.
+ */
+function EditionsFields({ book, onChange }: BookFormFieldsProps) {
+  const others = book.editions.slice(1);
+
+  const setOthers = (editions: Edition[]) =>
+    onChange({
+      ...book,
+      editions:
+        editions.length === 0
+          ? []
+          : [book.editions[0] ?? { id: crypto.randomUUID(), ...editionFields(book) }, ...editions],
+    });
+  const update = (id: string, changes: Partial<Edition>) =>
+    setOthers(others.map((edition) => (edition.id === id ? { ...edition, ...changes } : edition)));
+  const add = () =>
+    setOthers([
+      ...others,
+      { ...editionFields(book), id: crypto.randomUUID(), isbn: '', format: undefined },
+    ]);
+
+  return (
+    <div className="mb-5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-semibold text-slate-700">Other editions</span>
+        <Button size="sm" variant="secondary" onClick={add}>
+          Add Edition
+        </Button>
+      </div>
+      {others.map((edition, index) => (
+        <fieldset key={edition.id} className="border border-slate-200 rounded-lg p-4 mb-3">
+          <legend className="px-1 text-sm text-slate-600">Edition {index + 2}</legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+            <FormatSelect
+              id={`edition-format-${edition.id}`}
+              value={edition.format}
+              onChange={(format) => update(edition.id, { format })}
+            />
+            <Input
+              label="ISBN"
+              type="text"
+              value={edition.isbn}
+              onChange={(e) => update(edition.id, { isbn: e.target.value })}
+            />
+            <Input
+              label="Publisher"
+              type="text"
+              value={edition.publisher}
+              onChange={(e) => update(edition.id, { publisher: e.target.value })}
+            />
+            <Input
+              label="Published Year"
+              type="number"
+              value={edition.publishedYear}
+              onChange={(e) => update(edition.id, { publishedYear: parseInt(e.target.value) })}
+            />
+            <Input
+              label="Pages"
+              type="number"
+              min={0}
+              value={edition.pageCount || ''}
+              onChange={(e) => update(edition.id, { pageCount: Number(e.target.value) })}
+            />
+            <Input
+              label="Language"
+              type="text"
+              value={edition.language}
+              onChange={(e) => update(edition.id, { language: e.target.value })}
+            />
+          </div>
+          <Input
+            label="Cover Image URL"
+            type="text"
+            value={edition.coverImage}
+            onChange={(e) => update(edition.id, { coverImage: e.target.value })}
+          />
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => setOthers(others.filter((item) => item.id !== edition.id))}
+          >
+            Remove Edition
+          </Button>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
+
+/** Select value that reveals the new series form */
+const NEW_SERIES = '__new__';
+
+/**
+ * Series picker with the book's position, and a form to create a series
+ * without leaving the book form
+ */
+function SeriesFields({
+  seriesId,
+  seriesPosition,
+  onChange,
+}: Pick<BookInput, 'seriesId' | 'seriesPosition'> & {
+  onChange: (changes: Pick<BookInput, 'seriesId' | 'seriesPosition'>) => void;
+}) {
+  const { data: seriesList = [] } = useSeriesList();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const series = await createSeries({ name: name.trim(), description: '' });
+      onChange({ seriesId: series.id, seriesPosition: seriesPosition ?? 1 });
+      setIsCreating(false);
+      setName('');
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-4">
+        <div className="mb-5 sm:col-span-2">
+          <label htmlFor="book-series" className="block text-sm font-semibold text-slate-700 mb-2">
+            Series
+          </label>
+          <select
+            id="book-series"
+            value={isCreating ? NEW_SERIES : (seriesId ?? '')}
+            onChange={(e) => {
+              setIsCreating(e.target.value === NEW_SERIES);
+              if (e.target.value !== NEW_SERIES) {
+                onChange({ seriesId: e.target.value || undefined, seriesPosition });
+              }
+            }}
+            className="input-modern"
+          >
+            <option value="">None</option>
+            {seriesList.map((series) => (
+              <option key={series.id} value={series.id}>
+                {series.name}
+              </option>
+            ))}
+            <option value={NEW_SERIES}>New series…</option>
+          </select>
+        </div>
+
+        <Input
+          label="Book #"
+          type="number"
+          min={0}
+          step="any"
+          value={seriesPosition ?? ''}
+          disabled={!seriesId}
+          onChange={(e) =>
+            onChange({
+              seriesId,
+              seriesPosition: e.target.value === '' ? undefined : Number(e.target.value),
+            })
+          }
+        />
+      </div>
+
+      {isCreating && (
+        <>
+          <Input
+            label="New series name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="-mt-2 mb-5">
+            <Button size="sm" onClick={handleCreate} disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Creating...' : 'Create Series'}
+            </Button>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+/**
+ * Fields of the admin add and edit book forms
+ *
+ * @example
+ * <BookFormFields book={newBook} onChange={setNewBook} />
+ */
+export function BookFormFields({ book, onChange }: BookFormFieldsProps) {
+  const set = (changes: Partial<BookInput>) => onChange({ ...book, ...changes });
+
+  return (
+    <>
+      <Input
+        label="Title"
+        type="text"
+        value={book.title}
+        onChange={(e) => set({ title: e.target.value })}
+        required
+      />
+
+      <Input
+        label="Author"
+        type="text"
+        value={book.author}
+        onChange={(e) => set({ author: e.target.value })}
+        required
+      />
+
+      <Input
+        label="Genres"
+        type="text"
+        value={listText(book.genres)}
+        onChange={(e) => set({ genres: parseListText(e.target.value) })}
+        placeholder="Main genre first, e.g. Science Fiction, Classic"
+        required
+      />
+
+      <Input
+        label="Tags"
+        type="text"
+        value={listText(book.tags)}
+        onChange={(e) => set({ tags: parseListText(e.target.value) })}
+        placeholder="e.g. book club pick, found family"
+      />
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+        <textarea
+          value={book.description}
+          onChange={(e) => set({ description: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 min-h-[100px] resize-none"
+        />
+      </div>
+
+      <Input
+        label="Cover Image URL"
+        type="text"
+        value={book.coverImage}
+        onChange={(e) => set({ coverImage: e.target.value })}
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+        <Input
+          label="Published Year"
+          type="number"
+          value={book.publishedYear}
+          onChange={(e) => set({ publishedYear: parseInt(e.target.value) })}
+        />
+
+        <Input
+          label="Pages"
+          type="number"
+          min={0}
+          value={book.pageCount || ''}
+          onChange={(e) => set({ pageCount: Number(e.target.value) })}
+        />
+
+        <Input
+          label="Language"
+          type="text"
+          value={book.language}
+          onChange={(e) => set({ language: e.target.value })}
+          placeholder="e.g. English"
+        />
+
+        <FormatSelect id="book-format" value={book.format} onChange={(format) => set({ format })} />
+      </div>
+
+      <Input
+        label="Publisher"
+        type="text"
+        value={book.publisher}
+        onChange={(e) => set({ publisher: e.target.value })}
+      />
+
+      <SeriesFields seriesId={book.seriesId} seriesPosition={book.seriesPosition} onChange={set} />
+
+      <Input
+        label="ISBN"
+        type="text"
+        value={book.isbn}
+        onChange={(e) => set({ isbn: e.target.value })}
+      />
+
+      <EditionsFields book={book} onChange={onChange} />
+    </>
+  );
+}
@@ -1,24 +1,120 @@
 import React, { useState } from 'react';
+import { BookFacets, BookFilters } from '@/types';
+import { formatBookFormat } from '@/utils/formatters';
 
 /**
  * BookSearch component props
  */
 interface BookSearchProps {
-  onSearch: (query: string) => void;
+  onSearch: (filters: BookFilters) => void;
+  /** Values offered by the Genre, Tag, Language and Format filters */
+  facets?: BookFacets;
+}
+
+/**
+ * Publication year ranges offered by the Year filter
+ */
+const YEAR_RANGES: Record<string, Pick<BookFilters, 'yearFrom' | 'yearTo'>> = {
+  '2020s': { yearFrom: 2020 },
+  '2010s': { yearFrom: 2010, yearTo: 2019 },
+  '2000s': { yearFrom: 2000, yearTo: 2009 },
+  '1990s': { yearFrom: 1990, yearTo: 1999 },
+  older: { yearTo: 1989 },
+};
+
+/**
+ * Page count ranges offered by the Length filter
+ */
+const LENGTH_RANGES: Record<string, Pick<BookFilters, 'minPages' | 'maxPages'>> = {
+  short: { maxPages: 249 },
+  medium: { minPages: 250, maxPages: 400 },
+  long: { minPages: 401 },
+};
+
+type SelectFilters = Record<
+  'genre' | 'tag' | 'language' | 'format' | 'minRating' | 'yearRange' | 'lengthRange',
+  string
+>;
+
+const NO_FILTERS: SelectFilters = {
+  genre: '',
+  tag: '',
+  language: '',
+  format: '',
+  minRating: '',
+  yearRange: '',
+  lengthRange: '',
+};
+
+function FilterSelect({
+  id,
+  label,
+  value,
+  onChange,
+  children,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-semibold text-slate-700 mb-2">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="input-modern"
+      >
+        {children}
+      </select>
+    </div>
+  );
 }
 
 /**
  * Modern BookSearch component with beautiful glass morphism
  *
+ * The text query is applied on submit; the filter dropdowns apply immediately.
+ * Genres, tags, languages and formats come from the catalog facets, so the
+ * options match the books that exist.
+ *
  * @example
- * <BookSearch onSearch={handleSearch} />
+ * <BookSearch onSearch={setFilters} facets={facets} />
  */
-export function BookSearch({ onSearch }: BookSearchProps) {
+export function BookSearch({ onSearch, facets }: BookSearchProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<SelectFilters>(NO_FILTERS);
+
+  const emit = (changes: Partial<SelectFilters> = {}) => {
+    const next = { ...filters, ...changes };
+    onSearch({
+      query: searchQuery.trim() || undefined,
+      genre: next.genre || undefined,
+      tag: next.tag || undefined,
+      language: next.language || undefined,
+      format: (next.format || undefined) as BookFilters['format'],
+      minRating: next.minRating ? Number(next.minRating) : undefined,
+      ...YEAR_RANGES[next.yearRange],
+      ...LENGTH_RANGES[next.lengthRange],
+    });
+  };
+
+  const select = (key: keyof SelectFilters) => ({
+    value: filters[key],
+    onChange: (value: string) => {
+      setFilters({ ...filters, [key]: value });
+      emit({ [key]: value });
+    },
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch(searchQuery);
+    emit();
   };
 
   return (
@@ -29,7 +125,7 @@ export function BookSearch({ onSearch }: BookSearchProps) {
             <div className="relative">
               <input
                 type="text"
-                placeholder="Search books by title, author, or genre..."
+                placeholder="Search books by title, author, genre or tag..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="input-modern pl-12"
@@ -70,41 +166,65 @@ export function BookSearch({ onSearch }: BookSearchProps) {
           </button>
         </div>
 
-        {/* TODO: Implement filter logic */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">Genre</label>
-            <select className="input-modern">
-              <option value="">All Genres</option>
-              <option value="fiction">Fiction</option>
-              <option value="sci-fi">Science Fiction</option>
-              <option value="mystery">Mystery</option>
-              <option value="romance">Romance</option>
-              <option value="non-fiction">Non-Fiction</option>
-            </select>
-          </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+          <FilterSelect id="filter-genre" label="Genre" {...select('genre')}>
+            <option value="">All Genres</option>
+            {facets?.genres.map((genre) => (
+              <option key={genre} value={genre}>
+                {genre}
+              </option>
+            ))}
+          </FilterSelect>
 
-          <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">Rating</label>
-            <select className="input-modern">
-              <option value="">All Ratings</option>
-              <option value="4.5">4.5+ Stars</option>
-              <option value="4.0">4.0+ Stars</option>
-              <option value="3.5">3.5+ Stars</option>
-            </select>
-          </div>
+          <FilterSelect id="filter-tag" label="Tag" {...select('tag')}>
+            <option value="">All Tags</option>
+            {facets?.tags.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </FilterSelect>
 
-          <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">Year</label>
-            <select className="input-modern">
-              <option value="">All Years</option>
-              <option value="2024">2024</option>
-              <option value="2023">2023</option>
-              <option value="2022">2022</option>
-              <option value="2021">2021</option>
-              <option value="2020">2020</option>
-            </select>
-          </div>
+          <FilterSelect id="filter-language" label="Language" {...select('language')}>
+            <option value="">All Languages</option>
+            {facets?.languages.map((language) => (
+              <option key={language} value={language}>
+                {language}
+              </option>
+            ))}
+          </FilterSelect>
+
+          <FilterSelect id="filter-format" label="Format" {...select('format')}>
+            <option value="">All Formats</option>
+            {facets?.formats.map((format) => (
+              <option key={format} value={format}>
+                {formatBookFormat(format)}
+              </option>
+            ))}
+          </FilterSelect>
+
+          <FilterSelect id="filter-rating" label="Rating" {...select('minRating')}>
+            <option value="">All Ratings</option>
+            <option value="4.5">4.5+ Stars</option>
+            <option value="4.0">4.0+ Stars</option>
+            <option value="3.5">3.5+ Stars</option>
+          </FilterSelect>
+
+          <FilterSelect id="filter-year" label="Year" {...select('yearRange')}>
+            <option value="">All Years</option>
+            <option value="2020s">2020s</option>
+            <option value="2010s">2010s</option>
+            <option value="2000s">2000s</option>
+            <option value="1990s">1990s</option>
+            <option value="older">Before 1990</option>
+          </FilterSelect>
+
+          <FilterSelect id="filter-length" label="Length" {...select('lengthRange')}>
+            <option value="">Any Length</option>
+            <option value="short">Under 250 pages</option>
+            <option value="medium">250-400 pages</option>
+            <option value="long">Over 400 pages</option>
+          </FilterSelect>
         </div>
       </form>
     </div>
@@ -0,0 +1,48 @@
+import { Book } from '@/types';
+import { listEditions } from '@/utils/editions';
+import { formatBookFormat } from '@/utils/formatters';
+
+/**
+ * EditionSwitcher component props
+ */
+interface EditionSwitcherProps {
+  book: Book;
+  /** Edition on show; the default edition when unknown */
+  editionId: string | null;
+  onSelect: (editionId: string) => void;
+}
+
+/**
+ * Row of buttons choosing which edition of a work the page describes;
+ * renders nothing for single-edition works
+ *
+ * @example
+ * <EditionSwitcher book={book} editionId={editionId} onSelect={showEdition} />
+ */
+export function EditionSwitcher({ book, editionId, onSelect }: EditionSwitcherProps) {
+  const editions = listEditions(book);
+  if (editions.length < 2) return null;
+
+  const selectedId = editions.some((edition) => edition.id === editionId)
+    ? editionId
+    : editions[0].id;
+
+  return (
+    <div role="group" aria-label="Editions" className="mb-6 flex flex-wrap gap-2">
+      {editions.map((edition) => (
+        <button
+          key={edition.id}
+          onClick={() => onSelect(edition.id)}
+          aria-pressed={edition.id === selectedId}
+          className={`px-3 py-1.5 rounded-lg border text-sm font-semibold transition-colors ${
+            edition.id === selectedId
+              ? 'border-violet-500 bg-violet-50 text-violet-700'
+              : 'border-slate-200 bg-white text-slate-600 hover:border-violet-300'
+          }`}
+        >
+          {formatBookFormat(edition.format) || 'Edition'} · {edition.publishedYear}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Button } from '@/components/common/Button';
+import { mergeBooks } from '@/services/api';
+import { Book } from '@/types';
+import { handleApiError } from '@/utils/errorHandling';
+import { showToast } from '@/utils/toasts';
+
+/**
+ * MergeDuplicateBook component props
+ */
+interface MergeDuplicateBookProps {
+  /** The work the duplicate becomes an edition of */
+  work: Book;
+  /** Catalog already loaded by the page, to pick the duplicate from */
+  books: Book[];
+  /** Called with the merged work once the duplicate is gone */
+  onMerged: (work: Book) => void;
+}
+
+/**
+ * Admin control that merges a duplicate book into a work as another edition,
+ * moving its reviews and reading-list entries over
+ *
+ * Books by the same printed author are listed first, since duplicates usually
+ * share one.
+ *
+ * @example
+ * <MergeDuplicateBook work={editingBook} books={books} onMerged={closeEditor} />
+ */
+export function MergeDuplicateBook({ work, books, onMerged }: MergeDuplicateBookProps) {
+  const [duplicateId, setDuplicateId] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+
+  const candidates = books
+    .filter((book) => book.id !== work.id)
+    .sort(
+      (a, b) =>
+        Number(b.author === work.author) - Number(a.author === work.author) ||
+        a.title.localeCompare(b.title)
+    );
+
+  const handleMerge = async () => {
+    const duplicate = candidates.find((book) => book.id === duplicateId);
+    if (
+      !duplicate ||
+      !window.confirm(
+        `Merge "${duplicate.title}" into "${work.title}"? Its reviews move to this book and it is deleted.`
+      )
+    ) {
+      return;
+    }
+    setIsMerging(true);
+    try {
+      const merged = await mergeBooks(work.id, [duplicate.id]);
+      showToast({ tone: 'success', message: `Merged "${duplicate.title}" as an edition` });
+      setDuplicateId('');
+      onMerged(merged);
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-200">
+      <label htmlFor="merge-duplicate" className="block text-sm font-semibold text-slate-700 mb-2">
+        Merge a duplicate as an edition
+      </label>
+      <div className="flex gap-3">
+        <select
+          id="merge-duplicate"
+          value={duplicateId}
+          onChange={(e) => setDuplicateId(e.target.value)}
+          className="input-modern flex-1"
+        >
+          <option value="">Choose a book…</option>
+          {candidates.map((book) => (
+            <option key={book.id} value={book.id}>
+              {book.title} ({book.author}, {book.publishedYear})
+            </option>
+          ))}
+        </select>
+        <Button variant="secondary" onClick={handleMerge} disabled={isMerging || !duplicateId}>
+          {isMerging ? 'Merging...' : 'Merge'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -9,16 +9,27 @@ import { Button } from '@/components/common/Button';
  */
 interface ReadingListBookCardProps {
   book: Book;
-  onRemove: (bookId: string) => void;
+  /** Omit for read-only lists (e.g. lists owned by someone else) */
+  onRemove?: (bookId: string) => void;
+  /** Omit for the first book or read-only lists */
+  onMoveEarlier?: (bookId: string) => void;
+  /** Omit for the last book or read-only lists */
+  onMoveLater?: (bookId: string) => void;
 }
 
 // Base64 encoded SVG placeholder (works offline, no external dependencies)
-const PLACEHOLDER_IMAGE = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgZmlsbD0iI2YxZjVmOSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTgiIGZpbGw9IiM5Y2EzYWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5ObyBDb3ZlciBJbWFnZTwvdGV4dD48L3N2Zz4=';
+const PLACEHOLDER_IMAGE =
+  'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgZmlsbD0iI2YxZjVmOSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTgiIGZpbGw9IiM5Y2EzYWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5ObyBDb3ZlciBJbWFnZTwvdGV4dD48L3N2Zz4=';
 
 /**
- * BookCard component for reading list detail page with remove functionality
+ * BookCard component for reading list detail page with remove and reorder functionality
  */
-export function ReadingListBookCard({ book, onRemove }: ReadingListBookCardProps) {
+export function ReadingListBookCard({
+  book,
+  onRemove,
+  onMoveEarlier,
+  onMoveLater,
+}: ReadingListBookCardProps) {
   const navigate = useNavigate();
   const [imageSrc, setImageSrc] = useState(book.coverImage);
   const [hasError, setHasError] = useState(false);
@@ -29,7 +40,7 @@ export function ReadingListBookCard({ book, onRemove }: ReadingListBookCardProps
 
   const handleRemove = (e: React.MouseEvent) => {
     e.stopPropagation();
-    onRemove(book.id);
+    onRemove?.(book.id);
   };
 
   const handleImageError = () => {
@@ -64,25 +75,27 @@ export function ReadingListBookCard({ book, onRemove }: ReadingListBookCardProps
         </div>
 
         {/* Remove Button */}
-        <button
-          onClick={handleRemove}
-          className="absolute top-4 right-4 w-8 h-8 bg-white/90 hover:bg-white rounded-full flex items-center justify-center shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-10"
-          aria-label="Remove from list"
-        >
-          <svg
-            className="w-5 h-5 text-red-600"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+        {onRemove && (
+          <button
+            onClick={handleRemove}
+            className="absolute top-4 right-4 w-8 h-8 bg-white/90 hover:bg-white rounded-full flex items-center justify-center shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-10"
+            aria-label="Remove from list"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M6 18L18 6M6 6l12 12"
-            />
-          </svg>
-        </button>
+            <svg
+              className="w-5 h-5 text-red-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        )}
 
         {/* Floating Badge */}
         <div className="absolute top-4 left-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
@@ -103,7 +116,7 @@ export function ReadingListBookCard({ book, onRemove }: ReadingListBookCardProps
         </h3>
         <p className="text-sm text-slate-600 mb-4 font-medium">{book.author}</p>
         <div className="flex items-center justify-between">
-          <span className="badge-modern">{book.genre}</span>
+          {book.genres.length > 0 && <span className="badge-modern">{book.genres[0]}</span>}
           <div className="flex items-center text-slate-500">
             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path
@@ -116,34 +129,51 @@ export function ReadingListBookCard({ book, onRemove }: ReadingListBookCardProps
             <span className="text-xs font-medium">{book.publishedYear}</span>
           </div>
         </div>
-        <div className="mt-4 pt-4 border-t border-slate-200">
-          <Button
-            variant="outline"
-            size="sm"
-            className="w-full"
-            onClick={handleRemove}
-          >
-            <svg
-              className="w-4 h-4 mr-2 inline"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
-            Remove from List
-          </Button>
-        </div>
+        {(onRemove || onMoveEarlier || onMoveLater) && (
+          <div className="mt-4 pt-4 border-t border-slate-200 flex gap-2">
+            {(onMoveEarlier || onMoveLater) && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onMoveEarlier?.(book.id)}
+                  disabled={!onMoveEarlier}
+                  aria-label="Move earlier in list"
+                >
+                  ←
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onMoveLater?.(book.id)}
+                  disabled={!onMoveLater}
+                  aria-label="Move later in list"
+                >
+                  →
+                </Button>
+              </>
+            )}
+            {onRemove && (
+              <Button variant="outline" size="sm" className="flex-1" onClick={handleRemove}>
+                <svg
+                  className="w-4 h-4 mr-2 inline"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+                Remove from List
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
 }
-
-
-
-
@@ -0,0 +1,77 @@
+import { Book } from '@/types';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+import { ReadingListConflict } from '@/hooks/useReadingListMutations';
+import { describeReadingListChange } from '@/utils/readingListChanges';
+
+/**
+ * ReadingListConflictDialog component props
+ */
+interface ReadingListConflictDialogProps {
+  conflict: ReadingListConflict | null;
+  /** Books already loaded on the page, used to show titles instead of ids */
+  books: Book[];
+  onResolve: (keep: 'theirs' | 'mine') => void;
+}
+
+function BookOrder({ title, bookIds, books }: { title: string; bookIds: string[]; books: Book[] }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <h3 className="text-sm font-bold text-slate-900 mb-2">{title}</h3>
+      {bookIds.length === 0 ? (
+        <p className="text-sm text-slate-500">No books</p>
+      ) : (
+        <ol className="list-decimal list-inside space-y-1 text-sm text-slate-700">
+          {bookIds.map((bookId) => (
+            <li key={bookId} className="truncate">
+              {books.find((book) => book.id === bookId)?.title ?? 'Book not loaded'}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Asks which version to keep when a reading list change clashed with a newer
+ * save from another tab or device
+ *
+ * @example
+ * <ReadingListConflictDialog conflict={conflict} books={books} onResolve={resolveConflict} />
+ */
+export function ReadingListConflictDialog({
+  conflict,
+  books,
+  onResolve,
+}: ReadingListConflictDialogProps) {
+  return (
+    <Modal
+      isOpen={conflict !== null}
+      onClose={() => onResolve('theirs')}
+      title="This list was changed somewhere else"
+    >
+      {conflict && (
+        <div>
+          <p className="text-slate-600 mb-6">
+            While you tried to {describeReadingListChange(conflict.change)}, &ldquo;
+            {conflict.latest.name}&rdquo; was saved from another tab or device. Your change could
+            not be combined with theirs.
+          </p>
+          <div className="flex gap-6 mb-6">
+            <BookOrder title="Their version" bookIds={conflict.latest.bookIds} books={books} />
+            <BookOrder title="Your version" bookIds={conflict.mine} books={books} />
+          </div>
+          <div className="flex gap-3">
+            <Button variant="primary" onClick={() => onResolve('theirs')} className="flex-1">
+              Keep their version
+            </Button>
+            <Button variant="secondary" onClick={() => onResolve('mine')} className="flex-1">
+              Use my version
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
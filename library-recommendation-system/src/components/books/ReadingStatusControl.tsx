@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useReadingStatuses } from '@/hooks/useReadingStatuses';
+import { clearReadingStatus, setReadingStatus } from '@/services/api';
+import { BookReadingStatus, ReadingStatus, ReadingStatusInput } from '@/types';
+import { READING_STATUSES } from '@/utils/bookQuery';
+import { showErrorToast } from '@/utils/errorHandling';
+import { formatReadingStatus } from '@/utils/formatters';
+import { nextReadingStatus, toLocalDay } from '@/utils/readingStatus';
+
+/**
+ * ReadingStatusControl component props
+ */
+interface ReadingStatusControlProps {
+  bookId: string;
+  /** Also edit the start and finish dates, for the book page */
+  showDates?: boolean;
+  className?: string;
+}
+
+function DateField({
+  label,
+  value,
+  min,
+  max,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  min?: string;
+  max?: string;
+  disabled: boolean;
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <label className="flex flex-col text-xs font-semibold text-slate-600">
+      {label}
+      <input
+        type="date"
+        value={value ?? ''}
+        min={min}
+        max={max}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="input-modern mt-1 px-3 py-1.5 text-sm"
+      />
+    </label>
+  );
+}
+
+function inputOf(entry: BookReadingStatus): ReadingStatusInput {
+  return { status: entry.status, startedOn: entry.startedOn, finishedOn: entry.finishedOn };
+}
+
+/**
+ * The signed-in reader's status for a book: want to read, reading, finished
+ * or abandoned, with the dates when `showDates` is set. Renders nothing
+ * without a session.
+ *
+ * @example
+ * <ReadingStatusControl bookId={book.id} showDates />
+ */
+export function ReadingStatusControl({
+  bookId,
+  showDates = false,
+  className = '',
+}: ReadingStatusControlProps) {
+  const { user } = useAuth();
+  const { data: statuses = [] } = useReadingStatuses(user?.id);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!user) return null;
+
+  const current = statuses.find((entry) => entry.bookId === bookId);
+
+  const save = async (input: ReadingStatusInput | null) => {
+    setIsSaving(true);
+    try {
+      if (input) {
+        await setReadingStatus(user.id, bookId, input);
+      } else {
+        await clearReadingStatus(user.id, bookId);
+      }
+    } catch (error) {
+      showErrorToast('update your reading status', error, () => save(input));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = (value: string) => {
+    const status = value as ReadingStatus | '';
+    save(status ? nextReadingStatus(current, status, toLocalDay(new Date())) : null);
+  };
+
+  return (
+    <div className={className}>
+      <select
+        aria-label="Reading status"
+        value={current?.status ?? ''}
+        disabled={isSaving}
+        onChange={(e) => handleStatusChange(e.target.value)}
+        className="input-modern px-3 py-2 text-sm font-medium"
+      >
+        <option value="">{current ? 'Clear status' : 'Set reading status…'}</option>
+        {READING_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {formatReadingStatus(status)}
+          </option>
+        ))}
+      </select>
+
+      {showDates && current && current.status !== 'want-to-read' && (
+        <div className="flex flex-wrap gap-3 mt-3">
+          <DateField
+            label="Started"
+            value={current.startedOn}
+            max={current.finishedOn}
+            disabled={isSaving}
+            onChange={(startedOn) => save({ ...inputOf(current), startedOn })}
+          />
+          {current.status !== 'reading' && (
+            <DateField
+              label={current.status === 'finished' ? 'Finished' : 'Stopped'}
+              value={current.finishedOn}
+              min={current.startedOn}
+              disabled={isSaving}
+              onChange={(finishedOn) => save({ ...inputOf(current), finishedOn })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
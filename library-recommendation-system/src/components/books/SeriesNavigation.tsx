@@ -0,0 +1,55 @@
+import { Link } from 'react-router-dom';
+import { useSeries, useSeriesBooks } from '@/hooks/useBooks';
+import { Book } from '@/types';
+
+/**
+ * SeriesNavigation component props
+ */
+interface SeriesNavigationProps {
+  book: Book;
+}
+
+/**
+ * "Book N of M" line with links to the series and to the previous and next
+ * books; renders nothing for standalone books
+ *
+ * @example
+ * <SeriesNavigation book={book} />
+ */
+export function SeriesNavigation({ book }: SeriesNavigationProps) {
+  const { data: series } = useSeries(book.seriesId);
+  const { data: books = [] } = useSeriesBooks(book.seriesId);
+
+  const index = books.findIndex((item) => item.id === book.id);
+  if (!series || index === -1) return null;
+
+  const previous = books[index - 1];
+  const next = books[index + 1];
+
+  return (
+    <nav
+      aria-label="Series"
+      className="mb-6 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-600"
+    >
+      <span>
+        Book {book.seriesPosition ?? index + 1} of {books.length} in{' '}
+        <Link
+          to={`/series/${series.id}`}
+          className="font-semibold text-violet-600 hover:text-violet-800"
+        >
+          {series.name}
+        </Link>
+      </span>
+      {previous && (
+        <Link to={`/books/${previous.id}`} className="hover:text-violet-700">
+          ← {previous.title}
+        </Link>
+      )}
+      {next && (
+        <Link to={`/books/${next.id}`} className="hover:text-violet-700">
+          {next.title} →
+        </Link>
+      )}
+    </nav>
+  );
+}
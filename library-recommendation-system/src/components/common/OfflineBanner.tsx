@@ -0,0 +1,42 @@
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { dismissRejectedMutations } from '@/services/offline';
+
+/**
+ * Strip under the header that reports offline mode and unsynced changes
+ *
+ * Renders nothing while online with an empty write queue.
+ */
+export function OfflineBanner() {
+  const { isOnline, pending, rejected } = useOfflineStatus();
+
+  if (isOnline && pending.length === 0 && rejected.length === 0) {
+    return null;
+  }
+
+  const pendingLabel = `${pending.length} ${pending.length === 1 ? 'change' : 'changes'} pending sync`;
+
+  return (
+    <div role="status" className="border-b border-amber-200 bg-amber-50 text-amber-900 text-sm">
+      <div className="container mx-auto px-4 py-2 flex flex-wrap items-center gap-x-4 gap-y-1">
+        {!isOnline && (
+          <span className="font-semibold">
+            You are offline. Showing saved data; changes will sync when you reconnect.
+          </span>
+        )}
+        {pending.length > 0 && <span>{isOnline ? `Syncing… ${pendingLabel}` : pendingLabel}</span>}
+        {rejected.length > 0 && (
+          <span className="flex items-center gap-2 text-red-700">
+            {rejected.length} offline {rejected.length === 1 ? 'change was' : 'changes were'}{' '}
+            rejected by the server and not saved.
+            <button
+              onClick={dismissRejectedMutations}
+              className="font-semibold underline hover:text-red-900"
+            >
+              Dismiss
+            </button>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * Marks a reading list or review whose changes have not synced yet
+ *
+ * @example
+ * {pendingIds.has(list.id) && <PendingSyncBadge />}
+ */
+export function PendingSyncBadge() {
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-semibold"
+      title="Saved on this device; will sync when you are back online"
+    >
+      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+        />
+      </svg>
+      Pending sync
+    </span>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { TOAST_DURATION_MS, Toast, dismissToast, getToasts, subscribeToasts } from '@/utils/toasts';
+
+function ToastItem({ toast }: { toast: Toast }) {
+  useEffect(() => {
+    const timer = setTimeout(
+      () => dismissToast(toast.id),
+      toast.action ? TOAST_DURATION_MS * 2 : TOAST_DURATION_MS
+    );
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const toneClasses =
+    toast.tone === 'error'
+      ? 'bg-rose-50 border-rose-200 text-rose-900'
+      : 'bg-emerald-50 border-emerald-200 text-emerald-900';
+
+  return (
+    <div
+      role={toast.tone === 'error' ? 'alert' : 'status'}
+      className={`animate-slide-in flex items-center gap-4 rounded-xl border px-4 py-3 shadow-lg ${toneClasses}`}
+    >
+      <span className="flex-1 text-sm font-medium">{toast.message}</span>
+      {toast.action && (
+        <button
+          onClick={() => {
+            dismissToast(toast.id);
+            toast.action!.onClick();
+          }}
+          className="text-sm font-bold underline hover:no-underline"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button
+        onClick={() => dismissToast(toast.id)}
+        className="text-current opacity-60 hover:opacity-100"
+        aria-label="Dismiss"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M6 18L18 6M6 6l12 12"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Stack of toasts in the bottom-right corner; render once near the app root
+ */
+export function Toaster() {
+  const toasts = useSyncExternalStore(subscribeToasts, getToasts);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex w-full max-w-sm flex-col gap-2 px-4 sm:px-0">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { Link } from 'react-router-dom';
+import { ModerationAction, ReviewComment, ReviewReport } from '@/types';
+import { formatDate } from '@/utils/formatters';
+import { ModerationControls } from './ModerationControls';
+import { ReviewContent } from './ReviewContent';
+
+/**
+ * CommentModerationItem component props
+ */
+interface CommentModerationItemProps {
+  comment: ReviewComment;
+  bookTitle: string;
+  /** Open reports against the comment */
+  reports: ReviewReport[];
+  /** Applies an action; rejects, after reporting the error, if it failed */
+  onModerate: (comment: ReviewComment, action: ModerationAction, reason: string) => Promise<void>;
+}
+
+/**
+ * One reported comment in the admin moderation tab, with its reports and the
+ * approve, hide and delete actions
+ *
+ * @example
+ * <CommentModerationItem comment={comment} bookTitle={title} reports={reports} onModerate={moderate} />
+ */
+export function CommentModerationItem({
+  comment,
+  bookTitle,
+  reports,
+  onModerate,
+}: CommentModerationItemProps) {
+  return (
+    <li className="py-4">
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-slate-500">
+        <span className="px-2 py-0.5 rounded-full bg-rose-100 text-rose-700 font-semibold">
+          {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+        </span>
+        {comment.status === 'hidden' && (
+          <span className="px-2 py-0.5 rounded-full bg-slate-200 text-slate-700 font-semibold">
+            Hidden
+          </span>
+        )}
+        <span>
+          {comment.parentId ? 'Reply' : 'Comment'} by {comment.userName || comment.userId} on a
+          review of
+        </span>
+        <Link
+          to={`/books/${comment.bookId}`}
+          className="font-semibold text-violet-600 hover:text-violet-800"
+        >
+          {bookTitle}
+        </Link>
+        <span>· {formatDate(comment.createdAt)}</span>
+      </div>
+      <ReviewContent text={comment.body} className="mb-2" />
+      <ul className="space-y-1 mb-2 text-sm text-slate-600">
+        {reports.map((report) => (
+          <li key={report.id}>
+            <span className="text-slate-400">Reported {formatDate(report.createdAt)}:</span>{' '}
+            {report.reason}
+          </li>
+        ))}
+      </ul>
+      {comment.moderation && (
+        <p className="mb-2 text-sm text-slate-500">
+          {comment.moderation.action === 'hide' ? 'Hidden' : 'Approved'}{' '}
+          {formatDate(comment.moderation.moderatedAt)}
+          {comment.moderation.reason && `: ${comment.moderation.reason}`}
+        </p>
+      )}
+      <ModerationControls
+        subject="comment"
+        isHidden={comment.status === 'hidden'}
+        onModerate={(action, reason) => onModerate(comment, action, reason)}
+      />
+    </li>
+  );
+}
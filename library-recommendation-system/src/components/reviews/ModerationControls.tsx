@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Button } from '@/components/common/Button';
+import { ModerationAction } from '@/types';
+
+/**
+ * ModerationControls component props
+ */
+interface ModerationControlsProps {
+  /** What is being moderated, for the delete confirmation */
+  subject: 'review' | 'comment';
+  /** Disables Hide when the item is already hidden */
+  isHidden: boolean;
+  /** Applies an action; rejects, after reporting the error, if it failed */
+  onModerate: (action: ModerationAction, reason: string) => Promise<void>;
+}
+
+/**
+ * Reason field with the approve, hide and delete buttons of the admin
+ * moderation tab
+ *
+ * @example
+ * <ModerationControls subject="review" isHidden={false} onModerate={moderate} />
+ */
+export function ModerationControls({ subject, isHidden, onModerate }: ModerationControlsProps) {
+  const [reason, setReason] = useState('');
+  const [pendingAction, setPendingAction] = useState<ModerationAction | null>(null);
+
+  const handleAction = async (action: ModerationAction) => {
+    if (action === 'delete' && !window.confirm(`Delete this ${subject} for good?`)) {
+      return;
+    }
+    setPendingAction(action);
+    try {
+      await onModerate(action, reason.trim());
+      setReason('');
+    } catch {
+      // Keeps the reason so the admin can retry; onModerate showed the error
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3">
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={500}
+        placeholder="Reason (required to hide or delete)"
+        aria-label="Moderation reason"
+        className="input-modern flex-1 min-w-[12rem] px-3 py-1.5 text-sm"
+      />
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => handleAction('approve')}
+        disabled={pendingAction !== null}
+      >
+        {pendingAction === 'approve' ? 'Approving...' : 'Approve'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handleAction('hide')}
+        disabled={pendingAction !== null || !reason.trim() || isHidden}
+      >
+        {pendingAction === 'hide' ? 'Hiding...' : 'Hide'}
+      </Button>
+      <Button
+        variant="danger"
+        size="sm"
+        onClick={() => handleAction('delete')}
+        disabled={pendingAction !== null || !reason.trim()}
+      >
+        {pendingAction === 'delete' ? 'Deleting...' : 'Delete'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Link } from 'react-router-dom';
+import { ModerationControls } from './ModerationControls';
+import { ReviewContent } from './ReviewContent';
+import { ModerationAction, Review, ReviewReport } from '@/types';
+import { formatDate, formatRating } from '@/utils/formatters';
+
+/**
+ * ModerationItem component props
+ */
+interface ModerationItemProps {
+  review: Review;
+  bookTitle: string;
+  /** Open reports against the review, if it came from the reported queue */
+  reports?: ReviewReport[];
+  /** Applies an action; rejects, after reporting the error, if it failed */
+  onModerate: (review: Review, action: ModerationAction, reason: string) => Promise<void>;
+}
+
+/**
+ * One review in the admin moderation tab, with its reports and the approve,
+ * hide and delete actions
+ *
+ * @example
+ * <ModerationItem review={review} bookTitle={title} reports={reports} onModerate={moderate} />
+ */
+export function ModerationItem({
+  review,
+  bookTitle,
+  reports = [],
+  onModerate,
+}: ModerationItemProps) {
+  return (
+    <li className="py-4">
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-slate-500">
+        {reports.length > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-rose-100 text-rose-700 font-semibold">
+            {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+          </span>
+        )}
+        {review.status === 'hidden' && (
+          <span className="px-2 py-0.5 rounded-full bg-slate-200 text-slate-700 font-semibold">
+            Hidden
+          </span>
+        )}
+        <Link
+          to={`/books/${review.bookId}`}
+          className="font-semibold text-violet-600 hover:text-violet-800"
+        >
+          {bookTitle}
+        </Link>
+        <span>
+          · {review.userName || review.userId} · {formatRating(review.rating)} stars ·{' '}
+          {formatDate(review.createdAt)}
+        </span>
+      </div>
+      <ReviewContent text={review.comment} className="mb-2" />
+      {reports.length > 0 && (
+        <ul className="space-y-1 mb-2 text-sm text-slate-600">
+          {reports.map((report) => (
+            <li key={report.id}>
+              <span className="text-slate-400">Reported {formatDate(report.createdAt)}:</span>{' '}
+              {report.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+      {review.moderation && (
+        <p className="mb-2 text-sm text-slate-500">
+          {review.moderation.action === 'hide' ? 'Hidden' : 'Approved'}{' '}
+          {formatDate(review.moderation.moderatedAt)}
+          {review.moderation.reason && `: ${review.moderation.reason}`}
+        </p>
+      )}
+      <ModerationControls
+        subject="review"
+        isHidden={review.status === 'hidden'}
+        onModerate={(action, reason) => onModerate(review, action, reason)}
+      />
+    </li>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/common/Button';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useRecentReviews, useReportedComments, useReportedReviews } from '@/hooks/useReviews';
+import { moderateReview, moderateReviewComment } from '@/services/api';
+import { Book, ModerationAction, Review, ReviewComment } from '@/types';
+import { handleApiError } from '@/utils/errorHandling';
+import { showToast } from '@/utils/toasts';
+import { CommentModerationItem } from './CommentModerationItem';
+import { ModerationItem } from './ModerationItem';
+
+/**
+ * ModerationPanel component props
+ */
+interface ModerationPanelProps {
+  /** Catalog already loaded by the page, used to show book titles */
+  books: Book[];
+}
+
+const ACTION_RESULTS: Record<ModerationAction, string> = {
+  approve: 'approved',
+  hide: 'hidden',
+  delete: 'deleted',
+};
+
+/**
+ * Admin moderation tab: reviews and comments readers reported, then the
+ * latest reviews
+ *
+ * @example
+ * <ModerationPanel books={books} />
+ */
+export function ModerationPanel({ books }: ModerationPanelProps) {
+  const reported = useReportedReviews();
+  const reportedComments = useReportedComments();
+  const recent = useRecentReviews();
+
+  useEffect(() => {
+    if (reported.error) handleApiError(reported.error);
+  }, [reported.error]);
+
+  useEffect(() => {
+    if (reportedComments.error) handleApiError(reportedComments.error);
+  }, [reportedComments.error]);
+
+  useEffect(() => {
+    if (recent.error) handleApiError(recent.error);
+  }, [recent.error]);
+
+  const titleOf = (bookId: string) =>
+    books.find((book) => book.id === bookId)?.title ?? 'Unknown book';
+
+  const handleModerate = async (review: Review, action: ModerationAction, reason: string) => {
+    try {
+      await moderateReview(review.bookId, review.id, action, reason);
+      showToast({ tone: 'success', message: `Review ${ACTION_RESULTS[action]}` });
+    } catch (error) {
+      handleApiError(error);
+      throw error;
+    }
+  };
+
+  const handleModerateComment = async (
+    comment: ReviewComment,
+    action: ModerationAction,
+    reason: string
+  ) => {
+    try {
+      await moderateReviewComment(comment.bookId, comment.reviewId, comment.id, action, reason);
+      showToast({ tone: 'success', message: `Comment ${ACTION_RESULTS[action]}` });
+    } catch (error) {
+      handleApiError(error);
+      throw error;
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h2 className="text-2xl font-bold text-slate-900 mb-4">Reported Reviews</h2>
+        {reported.isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : (reported.data ?? []).length === 0 ? (
+          <p className="text-slate-500 py-4">No reviews are waiting for a decision.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {reported.data!.map(({ review, reports }) => (
+              <ModerationItem
+                key={review.id}
+                review={review}
+                reports={reports}
+                bookTitle={titleOf(review.bookId)}
+                onModerate={handleModerate}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-bold text-slate-900 mb-4">Reported Comments</h2>
+        {reportedComments.isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : (reportedComments.data ?? []).length === 0 ? (
+          <p className="text-slate-500 py-4">No comments are waiting for a decision.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {reportedComments.data!.map(({ comment, reports }) => (
+              <CommentModerationItem
+                key={comment.id}
+                comment={comment}
+                reports={reports}
+                bookTitle={titleOf(comment.bookId)}
+                onModerate={handleModerateComment}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-bold text-slate-900 mb-4">Recent Reviews</h2>
+        {recent.isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : recent.reviews.length === 0 ? (
+          <p className="text-slate-500 py-4">No reviews yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {recent.reviews.map((review) => (
+              <ModerationItem
+                key={review.id}
+                review={review}
+                bookTitle={titleOf(review.bookId)}
+                onModerate={handleModerate}
+              />
+            ))}
+          </ul>
+        )}
+        {recent.hasMore && (
+          <div className="flex justify-center mt-4">
+            {recent.isLoadingMore ? (
+              <LoadingSpinner size="md" />
+            ) : (
+              <Button variant="outline" onClick={recent.loadMore}>
+                Load more reviews
+              </Button>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
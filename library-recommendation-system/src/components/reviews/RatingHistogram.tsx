@@ -0,0 +1,53 @@
+import { Book } from '@/types';
+import { formatRating, formatReviewCount } from '@/utils/formatters';
+
+/**
+ * RatingHistogram component props
+ */
+interface RatingHistogramProps {
+  book: Pick<Book, 'rating' | 'reviewCount' | 'ratingDistribution'>;
+}
+
+/**
+ * Average rating with one bar per star rating, 5 stars first
+ *
+ * @example
+ * <RatingHistogram book={book} />
+ */
+export function RatingHistogram({ book }: RatingHistogramProps) {
+  const stars = [5, 4, 3, 2, 1];
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-6 sm:items-center bg-white/50 rounded-xl p-6 border border-slate-200">
+      <div className="text-center sm:w-32 shrink-0">
+        <div className="text-4xl font-extrabold text-slate-900">{formatRating(book.rating)}</div>
+        <div className="text-sm text-slate-500">{formatReviewCount(book.reviewCount)}</div>
+      </div>
+      <ul className="flex-1 space-y-1.5" aria-label="Rating distribution">
+        {stars.map((star) => {
+          const count = book.ratingDistribution[star - 1];
+          const percent = book.reviewCount > 0 ? Math.round((count / book.reviewCount) * 100) : 0;
+          return (
+            <li key={star} className="flex items-center gap-3 text-sm">
+              <span className="w-12 text-slate-600">{star} star</span>
+              <div
+                className="flex-1 h-2.5 bg-slate-200 rounded-full overflow-hidden"
+                role="meter"
+                aria-label={`${star} star`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percent}
+              >
+                <div
+                  className="h-full bg-amber-500 rounded-full"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <span className="w-8 text-right text-slate-500">{count}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+
+/**
+ * ReportReviewDialog component props
+ */
+interface ReportReviewDialogProps<T extends { id: string }> {
+  /** Review or comment being reported, or null while the dialog is closed */
+  target: T | null;
+  /** What is being reported, for the dialog text */
+  subject?: 'review' | 'comment';
+  onClose: () => void;
+  /** Files the report; the parent closes the dialog once it succeeds */
+  onSubmit: (target: T, reason: string) => Promise<void>;
+}
+
+const MAX_REASON_LENGTH = 500;
+
+function ReportForm<T extends { id: string }>({
+  target,
+  subject,
+  onClose,
+  onSubmit,
+}: Required<Omit<ReportReviewDialogProps<T>, 'target'>> & { target: T }) {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(target, reason.trim());
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-slate-600 mb-4">
+        Reports go to the library admins, who may hide or remove the {subject}. Tell them what is
+        wrong with it.
+      </p>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={MAX_REASON_LENGTH}
+        placeholder="e.g. spoilers without warning, harassment, spam..."
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500 min-h-[100px] resize-none mb-6"
+        rows={4}
+      />
+      <div className="flex gap-3">
+        <Button
+          variant="primary"
+          onClick={handleSubmit}
+          className="flex-1"
+          disabled={isSubmitting || !reason.trim()}
+        >
+          {isSubmitting ? 'Reporting...' : `Report ${subject === 'review' ? 'Review' : 'Comment'}`}
+        </Button>
+        <Button variant="secondary" onClick={onClose} className="flex-1">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Asks a reader why they are reporting a review or a comment on one
+ *
+ * @example
+ * <ReportReviewDialog target={reportingReview} onClose={close} onSubmit={handleReport} />
+ */
+export function ReportReviewDialog<T extends { id: string }>({
+  target,
+  subject = 'review',
+  onClose,
+  onSubmit,
+}: ReportReviewDialogProps<T>) {
+  return (
+    <Modal
+      isOpen={target !== null}
+      onClose={onClose}
+      title={subject === 'review' ? 'Report Review' : 'Report Comment'}
+    >
+      {target && (
+        <ReportForm
+          key={target.id}
+          target={target}
+          subject={subject}
+          onClose={onClose}
+          onSubmit={onSubmit}
+        />
+      )}
+    </Modal>
+  );
+}
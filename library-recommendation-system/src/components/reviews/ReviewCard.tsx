@@ -0,0 +1,133 @@
+import { ReactNode } from 'react';
+import { Review } from '@/types';
+import { PendingSyncBadge } from '@/components/common/PendingSyncBadge';
+import { ReviewContent } from './ReviewContent';
+import { formatDate, formatRating } from '@/utils/formatters';
+
+/**
+ * ReviewCard component props
+ */
+interface ReviewCardProps {
+  review: Review;
+  /** True while the review was written offline and has not synced yet */
+  isPending?: boolean;
+  /** Omit to hide the Edit button (e.g. on other users' reviews) */
+  onEdit?: (review: Review) => void;
+  /** Omit to hide the Delete button */
+  onDelete?: (review: Review) => void;
+  /** True if the signed-in reader marked this review as helpful */
+  isMarkedHelpful?: boolean;
+  /** Omit to show the helpful count without a vote button (e.g. on one's own review) */
+  onToggleHelpful?: (review: Review) => void;
+  /** Omit to hide the Report button */
+  onReport?: (review: Review) => void;
+  /** Shown below the review, e.g. its comment thread */
+  children?: ReactNode;
+}
+
+/**
+ * A single review on the book detail page
+ *
+ * @example
+ * <ReviewCard review={review} onEdit={openEditor} onDelete={handleDeleteReview} />
+ */
+export function ReviewCard({
+  review,
+  isPending = false,
+  onEdit,
+  onDelete,
+  isMarkedHelpful = false,
+  onToggleHelpful,
+  onReport,
+  children,
+}: ReviewCardProps) {
+  const isEdited = review.updatedAt !== undefined && review.updatedAt !== review.createdAt;
+  const hasFooter = onToggleHelpful || review.helpfulCount > 0 || onEdit || onDelete || onReport;
+
+  return (
+    <div className="bg-white/50 backdrop-blur-sm rounded-xl p-6 border border-slate-200">
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-violet-500 to-indigo-500 rounded-full flex items-center justify-center text-white font-bold">
+            {(review.userName || review.userId).charAt(0).toUpperCase()}
+          </div>
+          <div>
+            <div className="font-semibold text-slate-900">
+              {review.userName || `User ${review.userId.slice(0, 8)}`}
+            </div>
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              {formatDate(review.createdAt)}
+              {isEdited && <span title={`Edited ${formatDate(review.updatedAt!)}`}>· edited</span>}
+              {isPending && <PendingSyncBadge />}
+              {review.status === 'hidden' && (
+                <span
+                  className="px-2 py-0.5 rounded-full bg-slate-200 text-xs font-semibold text-slate-700"
+                  title={review.moderation?.reason || 'Hidden by a moderator'}
+                >
+                  Hidden
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center bg-amber-50 px-3 py-1.5 rounded-lg border border-amber-200">
+          <svg className="w-4 h-4 text-amber-500 mr-1" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+          </svg>
+          <span className="text-sm font-bold text-amber-700">{formatRating(review.rating)}</span>
+        </div>
+      </div>
+      <ReviewContent text={review.comment} />
+      {hasFooter && (
+        <div className="flex flex-wrap items-center gap-4 mt-4 text-sm font-semibold">
+          {onToggleHelpful ? (
+            <button
+              onClick={() => onToggleHelpful(review)}
+              aria-pressed={isMarkedHelpful}
+              className={`px-3 py-1 rounded-lg border transition-colors ${
+                isMarkedHelpful
+                  ? 'bg-violet-100 border-violet-300 text-violet-700'
+                  : 'border-slate-200 text-slate-600 hover:border-violet-300 hover:text-violet-700'
+              }`}
+            >
+              Helpful ({review.helpfulCount})
+            </button>
+          ) : (
+            review.helpfulCount > 0 && (
+              <span className="font-normal text-slate-500">
+                {review.helpfulCount === 1
+                  ? '1 reader found this helpful'
+                  : `${review.helpfulCount} readers found this helpful`}
+              </span>
+            )
+          )}
+          {onEdit && (
+            <button
+              onClick={() => onEdit(review)}
+              className="text-violet-600 hover:text-violet-800 transition-colors"
+            >
+              Edit
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={() => onDelete(review)}
+              className="text-rose-600 hover:text-rose-800 transition-colors"
+            >
+              Delete
+            </button>
+          )}
+          {onReport && (
+            <button
+              onClick={() => onReport(review)}
+              className="ml-auto font-normal text-slate-400 hover:text-rose-600 transition-colors"
+            >
+              Report
+            </button>
+          )}
+        </div>
+      )}
+      {children}
+    </div>
+  );
+}
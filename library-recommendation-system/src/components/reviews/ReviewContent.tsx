@@ -0,0 +1,128 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '@/utils/markdown';
+
+/**
+ * ReviewContent component props
+ */
+interface ReviewContentProps {
+  /** Review text in the Markdown subset of `utils/markdown.ts` */
+  text: string;
+  className?: string;
+}
+
+/**
+ * Spoiler text, blurred until the reader clicks it
+ *
+ * Links inside a hidden spoiler do not navigate; the first click only reveals.
+ */
+function Spoiler({ children }: { children: ReactNode }) {
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  if (isRevealed) {
+    return <span className="rounded bg-slate-100 px-0.5">{children}</span>;
+  }
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-label="Spoiler, click to reveal"
+      title="Click to reveal spoiler"
+      onClickCapture={(event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        setIsRevealed(true);
+      }}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter' || event.key === ' ') {
+          event.preventDefault();
+          setIsRevealed(true);
+        }
+      }}
+      className="cursor-pointer select-none rounded bg-slate-200 px-0.5 blur-sm transition hover:blur-[3px] focus:outline-none focus:ring-2 focus:ring-violet-500"
+    >
+      <span aria-hidden="true">{children}</span>
+    </span>
+  );
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'spoiler':
+        return <Spoiler key={index}>{renderInline(node.children)}</Spoiler>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="nofollow noopener noreferrer ugc"
+            className="text-violet-600 underline hover:text-violet-800"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex}>{renderInline(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-6 space-y-1">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="list-disc pl-6 space-y-1">
+            {items}
+          </ul>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote
+            key={index}
+            className="border-l-4 border-violet-200 pl-4 italic text-slate-600 space-y-2"
+          >
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+    }
+  });
+}
+
+/**
+ * Renders review text with emphasis, lists, quotes, links and spoilers
+ *
+ * Everything is rendered as React elements, never as HTML, so markup typed
+ * into a review shows up as text. Links open in a new tab with
+ * `rel="nofollow"` and only http(s) and mailto URLs become links.
+ *
+ * @example
+ * <ReviewContent text={review.comment} />
+ */
+export function ReviewContent({ text, className = '' }: ReviewContentProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={`text-slate-700 leading-relaxed space-y-3 break-words ${className}`}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+}
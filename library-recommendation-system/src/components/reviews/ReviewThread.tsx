@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/common/Button';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useAuth } from '@/hooks/useAuth';
+import { useReviewComments } from '@/hooks/useReviews';
+import {
+  ApiError,
+  createReviewComment,
+  deleteReviewComment,
+  reportReviewComment,
+} from '@/services/api';
+import { Review, ReviewComment, User } from '@/types';
+import { showErrorToast } from '@/utils/errorHandling';
+import { formatDate } from '@/utils/formatters';
+import { showToast } from '@/utils/toasts';
+import { ReportReviewDialog } from './ReportReviewDialog';
+import { ReviewContent } from './ReviewContent';
+
+/**
+ * ReviewThread component props
+ */
+interface ReviewThreadProps {
+  review: Review;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+function CommentForm({
+  placeholder,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  /** Posts the comment; rejects, after reporting the error, if it failed */
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch {
+      // Keeps the text so the reader can retry; onSubmit showed the error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={MAX_COMMENT_LENGTH}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500 resize-none"
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !body.trim()}>
+          {isSubmitting ? 'Posting...' : 'Post'}
+        </Button>
+        {onCancel && (
+          <Button size="sm" variant="secondary" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommentItem({
+  comment,
+  user,
+  onReply,
+  onDelete,
+  onReport,
+}: {
+  comment: ReviewComment;
+  user: User | null;
+  /** Omit on replies, which cannot be replied to */
+  onReply?: () => void;
+  onDelete: (comment: ReviewComment) => void;
+  onReport: (comment: ReviewComment) => void;
+}) {
+  const isOwn = user?.id === comment.userId;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 mb-1">
+        <span className="font-semibold text-slate-800">
+          {comment.userName || `User ${comment.userId.slice(0, 8)}`}
+        </span>
+        <span>{formatDate(comment.createdAt)}</span>
+        {comment.status === 'hidden' && (
+          <span
+            className="px-2 py-0.5 rounded-full bg-slate-200 font-semibold text-slate-700"
+            title={comment.moderation?.reason || 'Hidden by a moderator'}
+          >
+            Hidden
+          </span>
+        )}
+      </div>
+      <ReviewContent text={comment.body} className="text-sm" />
+      {user && (
+        <div className="flex gap-3 mt-1 text-xs font-semibold">
+          {onReply && (
+            <button onClick={onReply} className="text-violet-600 hover:text-violet-800">
+              Reply
+            </button>
+          )}
+          {(isOwn || user.role === 'admin') && (
+            <button onClick={() => onDelete(comment)} className="text-rose-600 hover:text-rose-800">
+              Delete
+            </button>
+          )}
+          {!isOwn && (
+            <button
+              onClick={() => onReport(comment)}
+              className="font-normal text-slate-400 hover:text-rose-600"
+            >
+              Report
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible discussion under a review: top-level comments with one level
+ * of replies, loaded when the reader opens the thread
+ *
+ * @example
+ * <ReviewThread review={review} />
+ */
+export function ReviewThread({ review }: ReviewThreadProps) {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reportingComment, setReportingComment] = useState<ReviewComment | null>(null);
+  const {
+    data: comments = [],
+    error,
+    isLoading,
+    refetch,
+  } = useReviewComments(review.bookId, isOpen ? review.id : undefined);
+
+  const topLevel = comments.filter((comment) => !comment.parentId);
+  const repliesTo = (commentId: string) =>
+    comments.filter((comment) => comment.parentId === commentId);
+
+  const postComment = async (body: string, parentId?: string) => {
+    try {
+      await createReviewComment(review.bookId, review.id, { body, parentId });
+      setReplyingTo(null);
+    } catch (error) {
+      showErrorToast('post your comment', error);
+      throw error;
+    }
+  };
+
+  const handleDelete = async (comment: ReviewComment) => {
+    const hasReplies = repliesTo(comment.id).length > 0;
+    if (
+      !window.confirm(hasReplies ? 'Delete this comment and its replies?' : 'Delete this comment?')
+    ) {
+      return;
+    }
+    try {
+      await deleteReviewComment(review.bookId, review.id, comment.id);
+      showToast({ tone: 'success', message: 'Comment deleted' });
+    } catch (error) {
+      showErrorToast('delete the comment', error, () => handleDelete(comment));
+    }
+  };
+
+  const submitReport = async (comment: ReviewComment, reason: string) => {
+    try {
+      await reportReviewComment(comment.bookId, comment.reviewId, comment.id, reason);
+      showToast({ tone: 'success', message: 'Thanks for the report. An admin will review it.' });
+      setReportingComment(null);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'CONFLICT') {
+        showToast({ tone: 'error', message: 'You have already reported this comment.' });
+        setReportingComment(null);
+      } else {
+        showErrorToast('send the report', error);
+      }
+    }
+  };
+
+  const itemProps = { user, onDelete: handleDelete, onReport: setReportingComment };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="text-sm font-semibold text-slate-600 hover:text-violet-700 transition-colors"
+      >
+        {isOpen
+          ? 'Hide comments'
+          : review.commentCount === 0
+            ? 'Comment'
+            : `Comments (${review.commentCount})`}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-4">
+          {isLoading ? (
+            <LoadingSpinner size="sm" />
+          ) : error ? (
+            <p className="text-sm text-rose-600">
+              Could not load the comments.{' '}
+              <button onClick={() => refetch()} className="font-semibold underline">
+                Retry
+              </button>
+            </p>
+          ) : (
+            topLevel.map((comment) => (
+              <div key={comment.id} className="space-y-3">
+                <CommentItem
+                  comment={comment}
+                  onReply={() => setReplyingTo(comment.id)}
+                  {...itemProps}
+                />
+                {(repliesTo(comment.id).length > 0 || replyingTo === comment.id) && (
+                  <div className="ml-6 pl-4 border-l-2 border-slate-200 space-y-3">
+                    {repliesTo(comment.id).map((reply) => (
+                      <CommentItem key={reply.id} comment={reply} {...itemProps} />
+                    ))}
+                    {replyingTo === comment.id && (
+                      <CommentForm
+                        placeholder={`Reply to ${comment.userName || 'this comment'}`}
+                        onSubmit={(body) => postComment(body, comment.id)}
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {user ? (
+            <CommentForm placeholder="Add a comment" onSubmit={(body) => postComment(body)} />
+          ) : (
+            <p className="text-sm text-slate-500">
+              <Link to="/login" className="font-semibold text-violet-600 hover:text-violet-800">
+                Sign in
+              </Link>{' '}
+              to join the discussion.
+            </p>
+          )}
+        </div>
+      )}
+
+      <ReportReviewDialog
+        target={reportingComment}
+        subject="comment"
+        onClose={() => setReportingComment(null)}
+        onSubmit={submitReport}
+      />
+    </div>
+  );
+}
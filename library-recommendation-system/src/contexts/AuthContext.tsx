@@ -1,7 +1,14 @@
 /* eslint-disable react-refresh/only-export-components */
 import React, { createContext, useState, useEffect } from 'react';
-import { signIn, signUp, signOut, getCurrentUser, confirmSignUp, fetchUserAttributes } from 'aws-amplify/auth';
 import { User } from '@/types';
+import {
+  getSignedInUser,
+  signInUser,
+  signOutUser,
+  signUpUser,
+  confirmUserSignUp,
+} from '@/services/auth';
+import { clearOfflineData } from '@/services/offline';
 
 /**
  * Authentication context type definition
@@ -28,31 +35,14 @@ interface AuthProviderProps {
   children: React.ReactNode;
 }
 
-// Admin information
-const ADMIN_EMAILS = ['furkantahasaranda@gmail.com']; 
-
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Helper function to determine user role
-  const getUserRole = (email: string): 'user' | 'admin' => {
-    return ADMIN_EMAILS.includes(email.toLowerCase()) ? 'admin' : 'user';
-  };
-
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const user = await getCurrentUser();
-        const attributes = await fetchUserAttributes();
-        const userEmail = attributes.email || user.signInDetails?.loginId || '';
-        setUser({
-          id: user.userId,
-          email: userEmail,
-          name: attributes.name || user.username,
-          role: getUserRole(userEmail),
-          createdAt: new Date().toISOString(),
-        });
+        setUser(await getSignedInUser());
       } catch {
         setUser(null);
       } finally {
@@ -65,18 +55,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const login = async (email: string, password: string) => {
     setIsLoading(true);
     try {
-      const { isSignedIn } = await signIn({ username: email, password });
-      if (isSignedIn) {
-        const user = await getCurrentUser();
-        const attributes = await fetchUserAttributes();
-        const userEmail = attributes.email || email;
-        setUser({
-          id: user.userId,
-          email: userEmail,
-          name: attributes.name || user.username,
-          role: getUserRole(userEmail),
-          createdAt: new Date().toISOString(),
-        });
+      const signedInUser = await signInUser(email, password);
+      if (signedInUser) {
+        setUser(signedInUser);
       }
     } catch (error) {
       console.error('Login error:', error);
@@ -89,7 +70,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const logout = async () => {
     setIsLoading(true);
     try {
-      await signOut();
+      await signOutUser();
+      await clearOfflineData();
       setUser(null);
     } catch (error) {
       console.error('Logout error:', error);
@@ -102,16 +84,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const signup = async (email: string, password: string, name: string) => {
     setIsLoading(true);
     try {
-      await signUp({
-        username: email,
-        password,
-        options: {
-          userAttributes: {
-            email,
-            name,
-          },
-        },
-      });
+      await signUpUser(email, password, name);
     } catch (error) {
       console.error('Signup error:', error);
       throw error;
@@ -123,10 +96,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const confirmSignup = async (email: string, code: string) => {
     setIsLoading(true);
     try {
-      await confirmSignUp({
-        username: email,
-        confirmationCode: code,
-      });
+      await confirmUserSignUp(email, code);
     } catch (error) {
       console.error('Confirm signup error:', error);
       throw error;
@@ -0,0 +1,126 @@
+import {
+  getAllBooks,
+  getAuthor,
+  getAuthorBooks,
+  getAuthors,
+  getBook,
+  getBookFacets,
+  getBooks,
+  getSeries,
+  getSeriesBooks,
+  getSeriesList,
+} from '@/services/api';
+import { queryKeys } from '@/services/queryCache';
+import { BookQuery } from '@/types';
+import { usePagedQuery } from './usePagedQuery';
+import { useQuery } from './useQuery';
+
+/**
+ * Cached read of the entire catalog, for screens that need every book
+ *
+ * @example
+ * const { data: books = [], isLoading } = useBooks();
+ */
+export function useBooks() {
+  return useQuery(queryKeys.allBooks(), (signal) => getAllBooks({ signal }));
+}
+
+/**
+ * Cached single-book read; `data` is null when the book does not exist
+ *
+ * @example
+ * const { data: book, isLoading } = useBook(id);
+ */
+export function useBook(id: string | undefined) {
+  return useQuery(id ? queryKeys.book(id) : null, (signal) => getBook(id!, { signal }));
+}
+
+/**
+ * Genres, tags, languages and formats in the catalog, for the search filters
+ *
+ * @example
+ * const { data: facets } = useBookFacets();
+ */
+export function useBookFacets() {
+  return useQuery(queryKeys.bookFacets(), (signal) => getBookFacets({ signal }));
+}
+
+/**
+ * Cached list of every author, for the admin author tools
+ *
+ * @example
+ * const { data: authors = [] } = useAuthors();
+ */
+export function useAuthors() {
+  return useQuery(queryKeys.authors(), (signal) => getAuthors({ signal }));
+}
+
+/**
+ * Cached single-author read; `data` is null when the author does not exist
+ *
+ * @example
+ * const { data: author } = useAuthor(id);
+ */
+export function useAuthor(id: string | undefined) {
+  return useQuery(id ? queryKeys.author(id) : null, (signal) => getAuthor(id!, { signal }));
+}
+
+/**
+ * Books of an author, newest first
+ *
+ * @example
+ * const { data: books = [] } = useAuthorBooks(id);
+ */
+export function useAuthorBooks(authorId: string | undefined) {
+  return useQuery(authorId ? queryKeys.authorBooks(authorId) : null, (signal) =>
+    getAuthorBooks(authorId!, { signal })
+  );
+}
+
+/**
+ * Cached list of every series, for the admin series picker
+ *
+ * @example
+ * const { data: series = [] } = useSeriesList();
+ */
+export function useSeriesList() {
+  return useQuery(queryKeys.seriesList(), (signal) => getSeriesList({ signal }));
+}
+
+/**
+ * Cached single-series read; `data` is null when the series does not exist
+ *
+ * @example
+ * const { data: series } = useSeries(book.seriesId);
+ */
+export function useSeries(id: string | undefined) {
+  return useQuery(id ? queryKeys.series(id) : null, (signal) => getSeries(id!, { signal }));
+}
+
+/**
+ * Books of a series in reading order
+ *
+ * @example
+ * const { data: books = [] } = useSeriesBooks(book.seriesId);
+ */
+export function useSeriesBooks(seriesId: string | undefined) {
+  return useQuery(seriesId ? queryKeys.seriesBooks(seriesId) : null, (signal) =>
+    getSeriesBooks(seriesId!, { signal })
+  );
+}
+
+/**
+ * Server-paginated catalog for infinite scrolling
+ *
+ * The first page is read through the query cache; `loadMore()` fetches and
+ * appends the next page. Changing the query starts over from the first page.
+ *
+ * @example
+ * const { books, total, hasMore, loadMore } = useBookCatalog({ genre, sort, limit: 12 });
+ */
+export function useBookCatalog(query: BookQuery) {
+  const { items, ...catalog } = usePagedQuery(queryKeys.bookPage(query), (cursor, signal) =>
+    getBooks({ ...query, cursor }, { signal })
+  );
+  return { books: items, ...catalog };
+}
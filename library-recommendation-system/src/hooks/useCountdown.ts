@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Counts down to a point in time, re-rendering once per second
+ *
+ * @param targetTime - Epoch ms to count down to, or null when idle
+ * @returns Milliseconds remaining (0 once the target has passed)
+ *
+ * @example
+ * const remaining = useCountdown(retryAt);
+ */
+export function useCountdown(targetTime: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (targetTime === null) return;
+
+    const tick = () => setNow(Date.now());
+    const timer = setInterval(tick, 1000);
+    const initial = setTimeout(tick, 0);
+    return () => {
+      clearInterval(timer);
+      clearTimeout(initial);
+    };
+  }, [targetTime]);
+
+  return targetTime === null ? 0 : Math.max(0, targetTime - now);
+}
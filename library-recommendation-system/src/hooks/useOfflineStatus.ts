@@ -0,0 +1,28 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import {
+  getOfflineSyncState,
+  isOnline,
+  subscribeConnectivity,
+  subscribeOfflineSync,
+} from '@/services/offline';
+
+/**
+ * Connectivity and the state of the offline write queue
+ *
+ * `pendingIds` holds the ids of reading lists and reviews with writes that
+ * have not reached the server yet, for "pending sync" badges.
+ *
+ * @example
+ * const { isOnline, pendingIds } = useOfflineStatus();
+ * const isPending = pendingIds.has(list.id);
+ */
+export function useOfflineStatus() {
+  const online = useSyncExternalStore(subscribeConnectivity, isOnline, () => true);
+  const sync = useSyncExternalStore(subscribeOfflineSync, getOfflineSyncState);
+  const pendingIds = useMemo(
+    () => new Set(sync.pending.map((mutation) => mutation.entityId)),
+    [sync.pending]
+  );
+
+  return { isOnline: online, ...sync, pendingIds };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '@/services/api';
+import { Page } from '@/types';
+import { useQuery } from './useQuery';
+
+/**
+ * Fetches the page after `cursor`, or the first page when it is undefined
+ */
+export type PageFetcher<T> = (cursor: string | undefined, signal: AbortSignal) => Promise<Page<T>>;
+
+/**
+ * Cursor-paginated list for infinite scrolling and "load more" buttons
+ *
+ * The first page is read through the query cache under `key`; `loadMore()`
+ * fetches and appends the next page. Changing the key, or refetching the first
+ * page after an invalidation, starts over from the first page. Pass `null` as
+ * the key to skip fetching.
+ *
+ * @example
+ * const { items, hasMore, loadMore } = usePagedQuery(key, (cursor, signal) =>
+ *   getReviews(bookId, { ...query, cursor }, { signal })
+ * );
+ */
+export function usePagedQuery<T>(key: string | null, fetchPage: PageFetcher<T>) {
+  const firstPage = useQuery(key, (signal) => fetchPage(undefined, signal));
+  // Pages after the first, tagged with the first page they continue from so a
+  // refetched first page never shows stale or repeated items after it
+  const [more, setMore] = useState<{ first: Page<T> | undefined; pages: Page<T>[] }>({
+    first: undefined,
+    pages: [],
+  });
+  const [loadMoreError, setLoadMoreError] = useState<unknown>(undefined);
+  const [loadingMoreKey, setLoadingMoreKey] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  // The latest fetcher, as in useQuery
+  const fetchPageRef = useRef(fetchPage);
+  useEffect(() => {
+    fetchPageRef.current = fetchPage;
+  });
+
+  // Drop an in-flight "load more" when the key changes or the component unmounts
+  useEffect(() => () => controllerRef.current?.abort(), [key]);
+
+  const pages = firstPage.data
+    ? [firstPage.data, ...(more.first === firstPage.data ? more.pages : [])]
+    : [];
+  const nextCursor = pages.length > 0 ? pages[pages.length - 1].nextCursor : null;
+  const isLoadingMore = key !== null && loadingMoreKey === key;
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const first = firstPage.data;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoadingMoreKey(key);
+    setLoadMoreError(undefined);
+    try {
+      const page = await fetchPageRef.current(nextCursor, controller.signal);
+      setMore((previous) => ({
+        first,
+        pages: [...(previous.first === first ? previous.pages : []), page],
+      }));
+    } catch (error) {
+      if (!isAbortError(error)) setLoadMoreError(error);
+    } finally {
+      if (!controller.signal.aborted) setLoadingMoreKey(null);
+    }
+  }, [key, firstPage.data, nextCursor, isLoadingMore]);
+
+  return {
+    items: pages.flatMap((page) => page.items),
+    total: firstPage.data?.total ?? 0,
+    hasMore: nextCursor !== null,
+    error: firstPage.error ?? loadMoreError,
+    isLoading: firstPage.isLoading,
+    isLoadingMore,
+    loadMore,
+  };
+}
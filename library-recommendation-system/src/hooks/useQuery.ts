@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  QueryFetcher,
+  QueryOptions,
+  QueryState,
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+} from '@/services/queryCache';
+
+/**
+ * Result of useQuery
+ */
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  /** True until the first response (or error) for this key arrives */
+  isLoading: boolean;
+  /** True while any request for this key is in flight, including revalidation */
+  isFetching: boolean;
+  refetch: () => Promise<T>;
+}
+
+const IDLE_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+const noopUnsubscribe = () => {};
+
+/**
+ * Reads a value through the shared query cache
+ *
+ * Returns cached data immediately and revalidates it in the background when
+ * stale. Pass `null` as the key to skip fetching. The fetcher receives an
+ * AbortSignal that fires once no component uses the key any more.
+ *
+ * @example
+ * const { data: book, isLoading } = useQuery(queryKeys.book(id), (signal) =>
+ *   getBook(id, { signal })
+ * );
+ */
+export function useQuery<T>(
+  key: string | null,
+  fetcher: QueryFetcher<T>,
+  { ttl }: Omit<QueryOptions, 'force'> = {}
+): QueryResult<T> {
+  // The latest fetcher, so inline closures don't refetch on every render
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+  const fetchLatest = useCallback((signal: AbortSignal) => fetcherRef.current(signal), []);
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? subscribeQuery(key, listener) : noopUnsubscribe),
+    [key]
+  );
+  const getSnapshot = useCallback(
+    () => (key ? getQueryState<T>(key) : (IDLE_STATE as QueryState<T>)),
+    [key]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!key) return;
+    fetchQuery(key, fetchLatest, { ttl }).catch(() => {
+      // The error is exposed through `state.error`
+    });
+  }, [key, fetchLatest, ttl]);
+
+  const refetch = useCallback(
+    () => fetchQuery(key ?? '', fetchLatest, { ttl, force: true }),
+    [key, fetchLatest, ttl]
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: key !== null && state.data === undefined && state.error === undefined,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
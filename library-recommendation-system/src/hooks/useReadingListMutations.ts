@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ApiError,
+  addBookToList,
+  getReadingList,
+  removeBookFromList,
+  updateReadingList,
+} from '@/services/api';
+import { ReadingList } from '@/types';
+import { showErrorToast } from '@/utils/errorHandling';
+import {
+  ReadingListChange,
+  applyReadingListChange,
+  canMergeReadingListChange,
+  describeReadingListChange,
+} from '@/utils/readingListChanges';
+
+/** Re-fetch and replay attempts before a conflicting save gives up */
+const MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * A change that could not be merged with someone else's newer save
+ */
+export interface ReadingListConflict {
+  /** The list as saved by the other tab or device */
+  latest: ReadingList;
+  /** Book ids the user's change would have produced */
+  mine: string[];
+  change: ReadingListChange;
+}
+
+/**
+ * Changes to one list that the server has not confirmed yet
+ */
+interface ChangeQueue {
+  /** The list as last returned by the server */
+  confirmed: ReadingList;
+  /** Waiting changes; the first one is in flight */
+  changes: ReadingListChange[];
+  isSending: boolean;
+  onUpdate: (list: ReadingList) => void;
+  onConflict: (conflict: ReadingListConflict) => void;
+}
+
+function withChanges(queue: ChangeQueue): ReadingList {
+  return {
+    ...queue.confirmed,
+    bookIds: queue.changes.reduce(applyReadingListChange, queue.confirmed.bookIds),
+  };
+}
+
+function enqueue(queue: ChangeQueue, change: ReadingListChange): void {
+  queue.changes.push(change);
+  queue.onUpdate(withChanges(queue));
+  if (!queue.isSending) void send(queue);
+}
+
+/**
+ * Saves one change on top of the confirmed list
+ *
+ * Adds and removes are single-book calls that never conflict. Moves and
+ * replaces send the whole order conditionally, and are re-fetched and
+ * replayed whenever someone else saved first.
+ *
+ * @returns The conflict to show if the change cannot be merged, else null
+ */
+async function save(
+  queue: ChangeQueue,
+  change: ReadingListChange
+): Promise<ReadingListConflict | null> {
+  if (change.type === 'add') {
+    queue.confirmed = await addBookToList(queue.confirmed.id, change.bookId);
+    return null;
+  }
+  if (change.type === 'remove') {
+    for (const bookId of change.bookIds) {
+      queue.confirmed = await removeBookFromList(queue.confirmed.id, bookId);
+    }
+    return null;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const { confirmed } = queue;
+    const bookIds = applyReadingListChange(confirmed.bookIds, change);
+    if (bookIds === confirmed.bookIds) return null;
+
+    try {
+      queue.confirmed = await updateReadingList(
+        confirmed.id,
+        { bookIds },
+        { ifMatch: confirmed.updatedAt }
+      );
+      return null;
+    } catch (error) {
+      const isConflict = error instanceof ApiError && error.code === 'CONFLICT';
+      if (!isConflict || attempt >= MAX_CONFLICT_RETRIES) throw error;
+    }
+
+    const latest = await getReadingList(confirmed.id);
+    queue.confirmed = latest;
+    if (!canMergeReadingListChange(confirmed.bookIds, latest.bookIds, change)) {
+      return { latest, mine: bookIds, change };
+    }
+  }
+}
+
+async function send(queue: ChangeQueue): Promise<void> {
+  queue.isSending = true;
+  while (queue.changes.length > 0) {
+    const [change] = queue.changes;
+    let conflict: ReadingListConflict | null = null;
+    let failure: unknown = null;
+
+    try {
+      conflict = await save(queue, change);
+    } catch (error) {
+      failure = error;
+    }
+
+    queue.changes.shift();
+    queue.onUpdate(withChanges(queue));
+    if (conflict) {
+      queue.onConflict(conflict);
+    } else if (failure) {
+      showErrorToast(describeReadingListChange(change), failure, () => enqueue(queue, change));
+    }
+  }
+  queue.isSending = false;
+}
+
+/**
+ * Optimistic add, remove and reorder for reading lists
+ *
+ * `mutate` passes the changed list to `onUpdate` at once and saves it in the
+ * background. Changes to the same list are sent one at a time, each applied
+ * to the server's latest copy. If one fails, `onUpdate` receives the list
+ * without it and an error toast offers to retry.
+ *
+ * Saves are conditional on the list's `updatedAt`. When another tab or device
+ * saved first, the change is replayed on the re-fetched list; if it cannot be
+ * merged, `conflict` is set until `resolveConflict` is called.
+ *
+ * @example
+ * const { mutate } = useReadingListMutations(setReadingList);
+ * mutate(readingList, { type: 'remove', bookIds: [bookId] });
+ */
+export function useReadingListMutations(onUpdate: (list: ReadingList) => void) {
+  const queues = useRef(new Map<string, ChangeQueue>());
+  const onUpdateRef = useRef(onUpdate);
+  const [conflict, setConflict] = useState<ReadingListConflict | null>(null);
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  });
+
+  const mutate = useCallback((list: ReadingList, change: ReadingListChange) => {
+    let queue = queues.current.get(list.id);
+    if (!queue || (!queue.isSending && queue.changes.length === 0)) {
+      // Nothing in flight, so the caller's copy is the freshest
+      queue = {
+        confirmed: list,
+        changes: [],
+        isSending: false,
+        onUpdate: (updated) => onUpdateRef.current(updated),
+        onConflict: setConflict,
+      };
+      queues.current.set(list.id, queue);
+    }
+    enqueue(queue, change);
+  }, []);
+
+  /**
+   * Keeps the other side's version, or overwrites it with the user's
+   */
+  const resolveConflict = useCallback(
+    (keep: 'theirs' | 'mine') => {
+      if (conflict && keep === 'mine') {
+        mutate(conflict.latest, { type: 'replace', bookIds: conflict.mine });
+      }
+      setConflict(null);
+    },
+    [conflict, mutate]
+  );
+
+  return { mutate, conflict, resolveConflict };
+}
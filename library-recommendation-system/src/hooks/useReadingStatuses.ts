@@ -0,0 +1,16 @@
+import { getReadingStatuses } from '@/services/api';
+import { queryKeys } from '@/services/queryCache';
+import { useQuery } from './useQuery';
+
+/**
+ * The signed-in user's reading statuses, shared by every status control on
+ * the page through the query cache; skipped without a user
+ *
+ * @example
+ * const { data: statuses = [] } = useReadingStatuses(user?.id);
+ */
+export function useReadingStatuses(userId: string | undefined) {
+  return useQuery(userId ? queryKeys.readingStatuses(userId) : null, (signal) =>
+    getReadingStatuses(userId!, { signal })
+  );
+}
@@ -0,0 +1,104 @@
+import {
+  getHelpfulVotes,
+  getOwnReview,
+  getRecentReviews,
+  getReportedComments,
+  getReportedReviews,
+  getReviewComments,
+  getReviews,
+} from '@/services/api';
+import { queryKeys } from '@/services/queryCache';
+import { ReviewQuery } from '@/types';
+import { usePagedQuery } from './usePagedQuery';
+import { useQuery } from './useQuery';
+
+/**
+ * Server-paginated reviews of a book, refetched after a review is written
+ *
+ * Changing the sort or star filter starts over from the first page.
+ *
+ * @example
+ * const { reviews, total, hasMore, loadMore } = useReviews(bookId, { sort: 'highest' });
+ */
+export function useReviews(bookId: string | undefined, query: ReviewQuery = {}) {
+  const { items, ...reviews } = usePagedQuery(
+    bookId ? queryKeys.reviewPage(bookId, query) : null,
+    (cursor, signal) => getReviews(bookId!, { ...query, cursor }, { signal })
+  );
+  return { reviews: items, ...reviews };
+}
+
+/**
+ * The signed-in user's review of a book, wherever it falls in the listing;
+ * `data` is null when they have not reviewed it
+ *
+ * @example
+ * const { data: ownReview } = useOwnReview(bookId, user?.id);
+ */
+export function useOwnReview(bookId: string | undefined, userId: string | undefined) {
+  return useQuery(
+    bookId && userId ? queryKeys.reviewPage(bookId, { userId, limit: 1 }) : null,
+    (signal) => getOwnReview(bookId!, userId!, { signal })
+  );
+}
+
+/**
+ * Ids of the reviews of a book that the signed-in user marked as helpful
+ *
+ * @example
+ * const { data: votedIds = [] } = useHelpfulVotes(bookId, user?.id);
+ */
+export function useHelpfulVotes(bookId: string | undefined, userId: string | undefined) {
+  return useQuery(bookId && userId ? queryKeys.helpfulVotes(userId, bookId) : null, (signal) =>
+    getHelpfulVotes(userId!, bookId!, { signal })
+  );
+}
+
+/**
+ * Comment thread under a review; pass no review id to skip loading, e.g.
+ * while the thread is collapsed
+ *
+ * @example
+ * const { data: comments = [] } = useReviewComments(review.bookId, isOpen ? review.id : undefined);
+ */
+export function useReviewComments(bookId: string, reviewId: string | undefined) {
+  return useQuery(reviewId ? queryKeys.reviewComments(bookId, reviewId) : null, (signal) =>
+    getReviewComments(bookId, reviewId!, { signal })
+  );
+}
+
+/**
+ * Admin queue of reported reviews, most-reported first
+ *
+ * @example
+ * const { data: reported = [], isLoading } = useReportedReviews();
+ */
+export function useReportedReviews() {
+  return useQuery(queryKeys.reportedReviews(), (signal) => getReportedReviews({ signal }));
+}
+
+/**
+ * Admin queue of reported comments, most-reported first
+ *
+ * @example
+ * const { data: reported = [] } = useReportedComments();
+ */
+export function useReportedComments() {
+  return useQuery(queryKeys.reportedComments(), (signal) => getReportedComments({ signal }));
+}
+
+const RECENT_REVIEWS_PAGE_SIZE = 20;
+
+/**
+ * Latest reviews across all books for the admin moderation tab
+ *
+ * @example
+ * const { reviews, hasMore, loadMore } = useRecentReviews();
+ */
+export function useRecentReviews() {
+  const query = { limit: RECENT_REVIEWS_PAGE_SIZE };
+  const { items, ...reviews } = usePagedQuery(queryKeys.recentReviews(query), (cursor, signal) =>
+    getRecentReviews({ ...query, cursor }, { signal })
+  );
+  return { reviews: items, ...reviews };
+}
@@ -3,15 +3,23 @@ import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
 import { Amplify } from 'aws-amplify';
+import { isLocalBackend } from './services/backend';
+import { registerServiceWorker, startOfflineSync } from './services/offline';
 
-Amplify.configure({
-  Auth: {
-    Cognito: {
-      userPoolId: import.meta.env.VITE_COGNITO_USER_POOL_ID,
-      userPoolClientId: import.meta.env.VITE_COGNITO_CLIENT_ID,
+// The local backend keeps its own accounts, so Cognito is only needed for HTTP
+if (!isLocalBackend()) {
+  Amplify.configure({
+    Auth: {
+      Cognito: {
+        userPoolId: import.meta.env.VITE_COGNITO_USER_POOL_ID,
+        userPoolClientId: import.meta.env.VITE_COGNITO_CLIENT_ID,
+      },
     },
-  },
-});
+  });
+}
+
+startOfflineSync();
+registerServiceWorker();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,47 +1,57 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/common/Button';
-import { Input } from '@/components/common/Input';
 import { Modal } from '@/components/common/Modal';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { getBooks, createBook, deleteBook, updateBook } from '@/services/api';
-import { Book } from '@/types';
+import { BookFormFields } from '@/components/books/BookFormFields';
+import { MergeDuplicateBook } from '@/components/books/MergeDuplicateBook';
+import { AuthorsPanel } from '@/components/authors/AuthorsPanel';
+import { ModerationPanel } from '@/components/reviews/ModerationPanel';
+import { createBook, deleteBook, updateBook } from '@/services/api';
+import { useBooks } from '@/hooks/useBooks';
+import { Book, BookInput } from '@/types';
 import { handleApiError, showSuccess } from '@/utils/errorHandling';
+import { normalizeBookInput } from '@/utils/bookInput';
+import { formatRating, formatReviewCount } from '@/utils/formatters';
 
-/**
- * Admin page component for managing books and viewing metrics
- */
-export function Admin() {
-  const [books, setBooks] = useState<Book[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isModalOpen, setIsModalOpen] = useState(false);
-  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [editingBook, setEditingBook] = useState<Book | null>(null);
-  const [newBook, setNewBook] = useState({
+const ADMIN_TABS = [
+  { id: 'books', label: 'Books' },
+  { id: 'authors', label: 'Authors' },
+  { id: 'moderation', label: 'Moderation' },
+] as const;
+
+type AdminTab = (typeof ADMIN_TABS)[number]['id'];
+
+function emptyBook(): BookInput {
+  return {
     title: '',
     author: '',
-    genre: '',
+    genres: [],
+    tags: [],
     description: '',
     coverImage: '',
-    rating: 0,
     publishedYear: new Date().getFullYear(),
     isbn: '',
-  });
+    pageCount: 0,
+    language: '',
+    publisher: '',
+    editions: [],
+  };
+}
 
-  useEffect(() => {
-    loadBooks();
-  }, []);
+/**
+ * Admin page component for managing books and authors, moderating reviews and viewing metrics
+ */
+export function Admin() {
+  const { data: books = [], error, isLoading } = useBooks();
+  const [activeTab, setActiveTab] = useState<AdminTab>('books');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [editingBook, setEditingBook] = useState<Book | null>(null);
+  const [newBook, setNewBook] = useState<BookInput>(emptyBook);
 
-  const loadBooks = async () => {
-    setIsLoading(true);
-    try {
-      const data = await getBooks();
-      setBooks(data);
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (error) handleApiError(error);
+  }, [error]);
 
   const handleCreateBook = async () => {
     if (!newBook.title || !newBook.author) {
@@ -51,8 +61,7 @@ export function Admin() {
 
     try {
       // TODO: Replace with Lambda API call
-      const created = await createBook(newBook);
-      setBooks([...books, created]);
+      await createBook(normalizeBookInput(newBook));
       setIsModalOpen(false);
       resetForm();
       showSuccess('Book added successfully!');
@@ -66,12 +75,19 @@ export function Admin() {
     setNewBook({
       title: book.title,
       author: book.author,
-      genre: book.genre,
+      genres: book.genres,
+      tags: book.tags,
       description: book.description || '',
       coverImage: book.coverImage || '',
-      rating: book.rating,
       publishedYear: book.publishedYear,
       isbn: book.isbn || '',
+      pageCount: book.pageCount,
+      language: book.language,
+      publisher: book.publisher,
+      format: book.format,
+      seriesId: book.seriesId,
+      seriesPosition: book.seriesPosition,
+      editions: book.editions,
     });
     setIsEditModalOpen(true);
   };
@@ -83,8 +99,7 @@ export function Admin() {
     }
 
     try {
-      const updated = await updateBook(editingBook.id, newBook);
-      setBooks(books.map((book) => (book.id === editingBook.id ? updated : book)));
+      await updateBook(editingBook.id, normalizeBookInput(newBook));
       setIsEditModalOpen(false);
       resetForm();
       setEditingBook(null);
@@ -101,7 +116,6 @@ export function Admin() {
 
     try {
       await deleteBook(id);
-      setBooks(books.filter((book) => book.id !== id));
       showSuccess('Book deleted successfully!');
     } catch (error) {
       handleApiError(error);
@@ -109,16 +123,7 @@ export function Admin() {
   };
 
   const resetForm = () => {
-    setNewBook({
-      title: '',
-      author: '',
-      genre: '',
-      description: '',
-      coverImage: '',
-      rating: 0,
-      publishedYear: new Date().getFullYear(),
-      isbn: '',
-    });
+    setNewBook(emptyBook());
     setEditingBook(null);
   };
 
@@ -135,7 +140,9 @@ export function Admin() {
       <div className="container mx-auto">
         <div className="mb-8">
           <h1 className="text-4xl md:text-5xl font-bold text-slate-900 mb-2">Admin Dashboard</h1>
-          <p className="text-slate-600 text-lg">Manage books and view system metrics</p>
+          <p className="text-slate-600 text-lg">
+            Manage books and authors, moderate reviews and view system metrics
+          </p>
         </div>
 
         {/* Metrics Cards */}
@@ -156,8 +163,30 @@ export function Admin() {
           </div>
         </div>
 
+        {/* Tabs */}
+        <div className="flex gap-2 mb-6" role="tablist">
+          {ADMIN_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-5 py-2 rounded-xl font-semibold transition-colors ${
+                activeTab === tab.id
+                  ? 'bg-violet-600 text-white shadow'
+                  : 'bg-white/80 text-slate-600 hover:text-violet-700 border border-slate-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
         {/* Books Management */}
-        <div className="bg-white/90 backdrop-blur-sm rounded-xl shadow-lg border border-slate-200 p-6">
+        <div
+          hidden={activeTab !== 'books'}
+          className="bg-white/90 backdrop-blur-sm rounded-xl shadow-lg border border-slate-200 p-6"
+        >
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold text-slate-900">Manage Books</h2>
             <Button variant="primary" onClick={() => setIsModalOpen(true)}>
@@ -181,8 +210,13 @@ export function Admin() {
                   <tr key={book.id} className="border-b hover:bg-slate-50">
                     <td className="py-3 px-4">{book.title}</td>
                     <td className="py-3 px-4">{book.author}</td>
-                    <td className="py-3 px-4">{book.genre}</td>
-                    <td className="py-3 px-4">{book.rating}</td>
+                    <td className="py-3 px-4">{book.genres.join(', ')}</td>
+                    <td className="py-3 px-4">
+                      {formatRating(book.rating)}{' '}
+                      <span className="text-sm text-slate-500">
+                        ({formatReviewCount(book.reviewCount)})
+                      </span>
+                    </td>
                     <td className="py-3 px-4">
                       <div className="flex gap-2">
                         <Button 
@@ -208,72 +242,24 @@ export function Admin() {
           </div>
         </div>
 
+        {/* Authors */}
+        {activeTab === 'authors' && (
+          <div className="bg-white/90 backdrop-blur-sm rounded-xl shadow-lg border border-slate-200 p-6">
+            <AuthorsPanel books={books} />
+          </div>
+        )}
+
+        {/* Review Moderation */}
+        {activeTab === 'moderation' && (
+          <div className="bg-white/90 backdrop-blur-sm rounded-xl shadow-lg border border-slate-200 p-6">
+            <ModerationPanel books={books} />
+          </div>
+        )}
+
         {/* Add Book Modal */}
         <Modal isOpen={isModalOpen} onClose={() => { setIsModalOpen(false); resetForm(); }} title="Add New Book">
           <div className="max-h-[60vh] overflow-y-auto">
-            <Input
-              label="Title"
-              type="text"
-              value={newBook.title}
-              onChange={(e) => setNewBook({ ...newBook, title: e.target.value })}
-              required
-            />
-
-            <Input
-              label="Author"
-              type="text"
-              value={newBook.author}
-              onChange={(e) => setNewBook({ ...newBook, author: e.target.value })}
-              required
-            />
-
-            <Input
-              label="Genre"
-              type="text"
-              value={newBook.genre}
-              onChange={(e) => setNewBook({ ...newBook, genre: e.target.value })}
-              required
-            />
-
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
-              <textarea
-                value={newBook.description}
-                onChange={(e) => setNewBook({ ...newBook, description: e.target.value })}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 min-h-[100px] resize-none"
-              />
-            </div>
-
-            <Input
-              label="Cover Image URL"
-              type="text"
-              value={newBook.coverImage}
-              onChange={(e) => setNewBook({ ...newBook, coverImage: e.target.value })}
-            />
-
-            <Input
-              label="Rating"
-              type="number"
-              min="0"
-              max="5"
-              step="0.1"
-              value={newBook.rating}
-              onChange={(e) => setNewBook({ ...newBook, rating: parseFloat(e.target.value) })}
-            />
-
-            <Input
-              label="Published Year"
-              type="number"
-              value={newBook.publishedYear}
-              onChange={(e) => setNewBook({ ...newBook, publishedYear: parseInt(e.target.value) })}
-            />
-
-            <Input
-              label="ISBN"
-              type="text"
-              value={newBook.isbn}
-              onChange={(e) => setNewBook({ ...newBook, isbn: e.target.value })}
-            />
+            <BookFormFields book={newBook} onChange={setNewBook} />
 
             <div className="flex gap-3 mt-6">
               <Button variant="primary" onClick={handleCreateBook} className="flex-1">
@@ -289,69 +275,7 @@ export function Admin() {
         {/* Edit Book Modal */}
         <Modal isOpen={isEditModalOpen} onClose={() => { setIsEditModalOpen(false); resetForm(); }} title="Edit Book">
           <div className="max-h-[60vh] overflow-y-auto">
-            <Input
-              label="Title"
-              type="text"
-              value={newBook.title}
-              onChange={(e) => setNewBook({ ...newBook, title: e.target.value })}
-              required
-            />
-
-            <Input
-              label="Author"
-              type="text"
-              value={newBook.author}
-              onChange={(e) => setNewBook({ ...newBook, author: e.target.value })}
-              required
-            />
-
-            <Input
-              label="Genre"
-              type="text"
-              value={newBook.genre}
-              onChange={(e) => setNewBook({ ...newBook, genre: e.target.value })}
-              required
-            />
-
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
-              <textarea
-                value={newBook.description}
-                onChange={(e) => setNewBook({ ...newBook, description: e.target.value })}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 min-h-[100px] resize-none"
-              />
-            </div>
-
-            <Input
-              label="Cover Image URL"
-              type="text"
-              value={newBook.coverImage}
-              onChange={(e) => setNewBook({ ...newBook, coverImage: e.target.value })}
-            />
-
-            <Input
-              label="Rating"
-              type="number"
-              min="0"
-              max="5"
-              step="0.1"
-              value={newBook.rating}
-              onChange={(e) => setNewBook({ ...newBook, rating: parseFloat(e.target.value) })}
-            />
-
-            <Input
-              label="Published Year"
-              type="number"
-              value={newBook.publishedYear}
-              onChange={(e) => setNewBook({ ...newBook, publishedYear: parseInt(e.target.value) })}
-            />
-
-            <Input
-              label="ISBN"
-              type="text"
-              value={newBook.isbn}
-              onChange={(e) => setNewBook({ ...newBook, isbn: e.target.value })}
-            />
+            <BookFormFields book={newBook} onChange={setNewBook} />
 
             <div className="flex gap-3 mt-6">
               <Button variant="primary" onClick={handleUpdateBook} className="flex-1">
@@ -361,6 +285,10 @@ export function Admin() {
                 Cancel
               </Button>
             </div>
+
+            {editingBook && (
+              <MergeDuplicateBook work={editingBook} books={books} onMerged={handleEditBook} />
+            )}
           </div>
         </Modal>
       </div>
@@ -0,0 +1,85 @@
+import { useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { BookGrid } from '@/components/books/BookGrid';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { RatingHistogram } from '@/components/reviews/RatingHistogram';
+import { useAuthor, useAuthorBooks } from '@/hooks/useBooks';
+import { handleApiError } from '@/utils/errorHandling';
+import { combineRatings } from '@/utils/ratings';
+
+/**
+ * AuthorDetail page component with the author's bio, the ratings of all their
+ * books combined, and the books newest first
+ */
+export function AuthorDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { data: author, error: authorError, isLoading } = useAuthor(id);
+  const {
+    data: books = [],
+    error: booksError,
+    isLoading: isLoadingBooks,
+  } = useAuthorBooks(author ? id : undefined);
+  const ratings = useMemo(() => combineRatings(books), [books]);
+
+  useEffect(() => {
+    if (author === null) {
+      navigate('/404');
+    }
+  }, [author, navigate]);
+
+  useEffect(() => {
+    const error = authorError ?? booksError;
+    if (error) handleApiError(error);
+  }, [authorError, booksError]);
+
+  if (isLoading || isLoadingBooks) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!author) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen py-12 px-4">
+      <div className="container mx-auto">
+        <div className="glass-effect rounded-3xl shadow-2xl border border-white/20 p-8 md:p-12 mb-12">
+          <div className="flex flex-col md:flex-row gap-8">
+            {author.photo && (
+              <img
+                src={author.photo}
+                alt={author.name}
+                className="w-40 h-40 rounded-full object-cover shadow-xl shrink-0 mx-auto md:mx-0"
+              />
+            )}
+            <div className="flex-1">
+              <p className="text-sm font-semibold uppercase tracking-wide text-violet-600 mb-2">
+                Author
+              </p>
+              <h1 className="text-4xl md:text-5xl font-extrabold text-slate-900 mb-3">
+                {author.name}
+              </h1>
+              {author.aliases.length > 0 && (
+                <p className="text-slate-500 mb-4">Also published as {author.aliases.join(', ')}</p>
+              )}
+              {author.bio && (
+                <p className="text-slate-700 leading-relaxed text-lg mb-6">{author.bio}</p>
+              )}
+              <p className="text-sm text-slate-600 mb-3">
+                {books.length === 1 ? '1 book' : `${books.length} books`} in the catalog
+              </p>
+              {ratings.reviewCount > 0 && <RatingHistogram book={ratings} />}
+            </div>
+          </div>
+        </div>
+
+        <BookGrid books={books} />
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,50 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/common/Button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { Modal } from '@/components/common/Modal';
-import { getBook, getReadingLists, updateReadingList, getReviews, createReview } from '@/services/api';
-import { Book, ReadingList, Review } from '@/types';
-import { formatRating, formatDate } from '@/utils/formatters';
-import { handleApiError, showSuccess } from '@/utils/errorHandling';
+import { EditionSwitcher } from '@/components/books/EditionSwitcher';
+import { ReadingStatusControl } from '@/components/books/ReadingStatusControl';
+import { SeriesNavigation } from '@/components/books/SeriesNavigation';
+import { RatingHistogram } from '@/components/reviews/RatingHistogram';
+import { ReportReviewDialog } from '@/components/reviews/ReportReviewDialog';
+import { ReviewCard } from '@/components/reviews/ReviewCard';
+import { ReviewContent } from '@/components/reviews/ReviewContent';
+import { ReviewThread } from '@/components/reviews/ReviewThread';
+import {
+  ApiError,
+  getReadingLists,
+  addBookToLists,
+  getOwnReview,
+  createReview,
+  updateReview,
+  deleteReview,
+  reportReview,
+  setHelpfulVote,
+  isAbortError,
+} from '@/services/api';
+import { useBook } from '@/hooks/useBooks';
+import { useHelpfulVotes, useOwnReview, useReviews } from '@/hooks/useReviews';
+import { ReadingList, Review, ReviewSortField } from '@/types';
+import { withEdition } from '@/utils/editions';
+import {
+  formatBookFormat,
+  formatPageCount,
+  formatRating,
+  formatReviewCount,
+} from '@/utils/formatters';
+import { handleApiError, showErrorToast, showSuccess } from '@/utils/errorHandling';
 import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { showToast } from '@/utils/toasts';
+
+const REVIEW_SORT_OPTIONS: { value: ReviewSortField; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' },
+  { value: 'helpful', label: 'Most helpful' },
+];
 
 /**
  * BookDetail page component
@@ -15,105 +52,141 @@ import { useAuth } from '@/hooks/useAuth';
 export function BookDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  // Edition on show, kept in the URL so links to an edition work
+  const [searchParams, setSearchParams] = useSearchParams();
+  const editionId = searchParams.get('edition');
   const { user } = useAuth();
-  const [book, setBook] = useState<Book | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: book, error: bookError, isLoading } = useBook(id);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [readingLists, setReadingLists] = useState<ReadingList[]>([]);
   const [isLoadingLists, setIsLoadingLists] = useState(false);
-  const [isAddingToList, setIsAddingToList] = useState(false);
+  const [selectedListIds, setSelectedListIds] = useState<string[]>([]);
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
-  const [reviews, setReviews] = useState<Review[]>([]);
-  const [isLoadingReviews, setIsLoadingReviews] = useState(false);
+  const [reviewSort, setReviewSort] = useState<ReviewSortField>('newest');
+  // Only reviews with this many stars, or every review when undefined
+  const [starFilter, setStarFilter] = useState<number | undefined>(undefined);
+  const {
+    reviews,
+    total: reviewTotal,
+    hasMore: hasMoreReviews,
+    error: reviewsError,
+    isLoading: isLoadingReviews,
+    isLoadingMore: isLoadingMoreReviews,
+    loadMore: loadMoreReviews,
+  } = useReviews(id, { sort: reviewSort, rating: starFilter });
+  const { data: fetchedOwnReview } = useOwnReview(id, user?.id);
+  const { data: helpfulVoteIds = [] } = useHelpfulVotes(id, user?.id);
+  const [reportingReview, setReportingReview] = useState<Review | null>(null);
   const [reviewRating, setReviewRating] = useState(5);
   const [reviewComment, setReviewComment] = useState('');
   const [isSubmittingReview, setIsSubmittingReview] = useState(false);
+  // The user's own review while the modal edits it instead of writing a new one
+  const [editingReview, setEditingReview] = useState<Review | null>(null);
+  const { pendingIds } = useOfflineStatus();
 
   useEffect(() => {
-    if (id) {
-      loadBook(id);
-      loadReviews(id);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [id]);
+    if (!isModalOpen) return;
 
-  const loadBook = async (bookId: string) => {
-    setIsLoading(true);
-    try {
-      const data = await getBook(bookId);
-      if (!data) {
-        navigate('/404');
-        return;
-      }
-      setBook(data);
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    // Cancelled if the modal closes before the lists arrive
+    const controller = new AbortController();
+    getReadingLists({ signal: controller.signal })
+      .then(setReadingLists)
+      .catch((error: unknown) => {
+        if (!isAbortError(error)) handleApiError(error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingLists(false);
+      });
+    return () => controller.abort();
+  }, [isModalOpen]);
 
-  const loadReadingLists = async () => {
-    setIsLoadingLists(true);
-    try {
-      const lists = await getReadingLists();
-      setReadingLists(lists);
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsLoadingLists(false);
+  useEffect(() => {
+    if (book === null) {
+      navigate('/404');
     }
-  };
+  }, [book, navigate]);
+
+  useEffect(() => {
+    if (bookError) handleApiError(bookError);
+  }, [bookError]);
+
+  useEffect(() => {
+    if (reviewsError) handleApiError(reviewsError);
+  }, [reviewsError]);
 
   const handleAddToList = () => {
+    setIsLoadingLists(true);
+    setSelectedListIds([]);
     setIsModalOpen(true);
-    loadReadingLists();
   };
 
-  const handleSelectList = async (listId: string) => {
-    if (!book) return;
-
-    setIsAddingToList(true);
-    try {
-      const list = readingLists.find((l) => l.id === listId);
-      if (!list) {
-        throw new Error('Reading list not found');
-      }
+  const handleToggleList = (listId: string) => {
+    setSelectedListIds((ids) =>
+      ids.includes(listId) ? ids.filter((id) => id !== listId) : [...ids, listId]
+    );
+  };
 
-      // Check if book is already in the list
-      if (list.bookIds.includes(book.id)) {
-        showSuccess('Book is already in this reading list!');
-        setIsModalOpen(false);
-        return;
-      }
+  /**
+   * Shows the book on the lists at once and saves in one background call,
+   * rolling back with a Retry toast if the save fails
+   */
+  const addToLists = (bookId: string, listIds: string[]) => {
+    const onSelectedLists = (update: (bookIds: string[]) => string[]) =>
+      setReadingLists((lists) =>
+        lists.map((list) =>
+          listIds.includes(list.id) ? { ...list, bookIds: update(list.bookIds) } : list
+        )
+      );
 
-      // Add book to the list
-      const updatedBookIds = [...list.bookIds, book.id];
-      await updateReadingList(listId, {
-        name: list.name,
-        description: list.description,
-        bookIds: updatedBookIds,
+    onSelectedLists((bookIds) => (bookIds.includes(bookId) ? bookIds : [...bookIds, bookId]));
+    addBookToLists(bookId, listIds)
+      .then((updated) =>
+        setReadingLists((lists) =>
+          lists.map((list) => updated.find((item) => item.id === list.id) ?? list)
+        )
+      )
+      .catch((error: unknown) => {
+        // Only lists without the book can be selected, so removing it restores them
+        onSelectedLists((bookIds) => bookIds.filter((id) => id !== bookId));
+        showErrorToast(
+          listIds.length === 1 ? 'add the book to the list' : 'add the book to the lists',
+          error,
+          () => addToLists(bookId, listIds)
+        );
       });
+  };
 
-      showSuccess(`Added "${book.title}" to "${list.name}"!`);
-      setIsModalOpen(false);
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsAddingToList(false);
-    }
+  const handleAddToSelectedLists = () => {
+    if (!book || selectedListIds.length === 0) return;
+
+    addToLists(book.id, selectedListIds);
+    const names = readingLists
+      .filter((list) => selectedListIds.includes(list.id))
+      .map((list) => `"${list.name}"`);
+    showToast({
+      tone: 'success',
+      message: `Added "${book.title}" to ${names.length === 1 ? names[0] : `${names.length} lists`}`,
+    });
+    setIsModalOpen(false);
   };
 
-  const loadReviews = async (bookId: string) => {
-    setIsLoadingReviews(true);
-    try {
-      const data = await getReviews(bookId);
-      setReviews(data);
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsLoadingReviews(false);
-    }
+  // Users review a book once; later they edit that review. A review written
+  // offline is only in the listing until it syncs.
+  const ownReview =
+    fetchedOwnReview ?? (user ? reviews.find((review) => review.userId === user.id) : undefined);
+
+  const openReviewEditor = (review: Review) => {
+    setEditingReview(review);
+    setReviewRating(review.rating);
+    setReviewComment(review.comment);
+    setIsReviewModalOpen(true);
+  };
+
+  const closeReviewModal = () => {
+    setIsReviewModalOpen(false);
+    setEditingReview(null);
+    setReviewRating(5);
+    setReviewComment('');
   };
 
   const handleWriteReview = () => {
@@ -121,9 +194,33 @@ export function BookDetail() {
       navigate('/login');
       return;
     }
+    if (ownReview) {
+      openReviewEditor(ownReview);
+      return;
+    }
     setIsReviewModalOpen(true);
   };
 
+  /**
+   * Handles the server refusing a second review (e.g. one written in another
+   * tab) by offering to put the drafted text into the existing review
+   */
+  const offerToEditExistingReview = async (
+    bookId: string,
+    userId: string,
+    draft: { rating: number; comment: string }
+  ) => {
+    const existing = await getOwnReview(bookId, userId);
+    if (
+      existing &&
+      window.confirm('You have already reviewed this book. Update that review with this text?')
+    ) {
+      await updateReview(bookId, existing.id, draft);
+      showSuccess('Review updated!');
+      closeReviewModal();
+    }
+  };
+
   const handleSubmitReview = async () => {
     if (!book || !user || !reviewComment.trim()) {
       alert('Please enter a review comment');
@@ -132,25 +229,88 @@ export function BookDetail() {
 
     setIsSubmittingReview(true);
     try {
-      const newReview = await createReview({
-        bookId: book.id,
-        userId: user.id,
-        userName: user.name,
-        rating: reviewRating,
-        comment: reviewComment.trim(),
-      });
-      setReviews([newReview, ...reviews]);
-      setIsReviewModalOpen(false);
-      setReviewRating(5);
-      setReviewComment('');
-      showSuccess('Review submitted successfully!');
+      if (editingReview) {
+        await updateReview(book.id, editingReview.id, {
+          rating: reviewRating,
+          comment: reviewComment.trim(),
+        });
+      } else {
+        await createReview(
+          {
+            bookId: book.id,
+            userId: user.id,
+            userName: user.name,
+            rating: reviewRating,
+            comment: reviewComment.trim(),
+          },
+          { idempotencyKey: crypto.randomUUID() }
+        );
+      }
+      showSuccess(editingReview ? 'Review updated!' : 'Review submitted successfully!');
+      closeReviewModal();
     } catch (error) {
-      handleApiError(error);
+      if (!editingReview && error instanceof ApiError && error.code === 'CONFLICT') {
+        await offerToEditExistingReview(book.id, user.id, {
+          rating: reviewRating,
+          comment: reviewComment.trim(),
+        }).catch(handleApiError);
+      } else {
+        handleApiError(error);
+      }
     } finally {
       setIsSubmittingReview(false);
     }
   };
 
+  const handleDeleteReview = async (review: Review) => {
+    if (!book || !window.confirm('Are you sure you want to delete this review?')) {
+      return;
+    }
+
+    try {
+      await deleteReview(book.id, review.id);
+      showSuccess('Review deleted');
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
+  const handleToggleHelpful = async (review: Review) => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    try {
+      await setHelpfulVote(review.bookId, review.id, !helpfulVoteIds.includes(review.id));
+    } catch (error) {
+      showErrorToast('record your vote', error, () => handleToggleHelpful(review));
+    }
+  };
+
+  const handleReportReview = (review: Review) => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    setReportingReview(review);
+  };
+
+  const submitReport = async (review: Review, reason: string) => {
+    try {
+      await reportReview(review.bookId, review.id, reason);
+      showToast({ tone: 'success', message: 'Thanks for the report. An admin will review it.' });
+      setReportingReview(null);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'CONFLICT') {
+        showToast({ tone: 'error', message: 'You have already reported this review.' });
+        setReportingReview(null);
+      } else {
+        handleApiError(error);
+      }
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -163,6 +323,21 @@ export function BookDetail() {
     return null;
   }
 
+  const showEdition = (id: string) =>
+    setSearchParams(id === book.editions[0]?.id ? {} : { edition: id }, { replace: true });
+
+  // Reviews and ratings belong to the work; the rest describes the edition
+  const edition = withEdition(book, editionId);
+  const bookDetails = (
+    [
+      ['Publisher', edition.publisher],
+      ['Length', formatPageCount(edition.pageCount)],
+      ['Language', edition.language],
+      ['Format', formatBookFormat(edition.format)],
+      ['ISBN', edition.isbn],
+    ] as const
+  ).filter(([, value]) => value);
+
   return (
     <div className="min-h-screen py-12 px-4">
       <div className="container mx-auto max-w-6xl">
@@ -191,13 +366,14 @@ export function BookDetail() {
             <div className="md:col-span-1">
               <div className="relative group">
                 <img
-                  src={book.coverImage}
+                  src={edition.coverImage}
                   alt={book.title}
                   className="w-full rounded-2xl shadow-2xl group-hover:shadow-glow transition-all duration-300"
                   onError={(e) => {
                     const target = e.currentTarget;
                     if (!target.src.includes('data:image/svg+xml')) {
-                      target.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgZmlsbD0iI2YxZjVmOSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTgiIGZpbGw9IiM5Y2EzYWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5ObyBDb3ZlciBJbWFnZTwvdGV4dD48L3N2Zz4=';
+                      target.src =
+                        'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMzAwIiBoZWlnaHQ9IjQwMCIgZmlsbD0iI2YxZjVmOSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTgiIGZpbGw9IiM5Y2EzYWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5ObyBDb3ZlciBJbWFnZTwvdGV4dD48L3N2Zz4=';
                     }
                   }}
                 />
@@ -209,7 +385,23 @@ export function BookDetail() {
               <h1 className="text-4xl md:text-5xl font-extrabold text-slate-900 mb-3 leading-tight">
                 {book.title}
               </h1>
-              <p className="text-xl text-slate-600 mb-6 font-medium">by {book.author}</p>
+              <p className="text-xl text-slate-600 mb-6 font-medium">
+                by{' '}
+                {book.authorId ? (
+                  <Link
+                    to={`/authors/${book.authorId}`}
+                    className="text-violet-600 hover:text-violet-800 hover:underline"
+                  >
+                    {book.author}
+                  </Link>
+                ) : (
+                  book.author
+                )}
+              </p>
+
+              <SeriesNavigation book={book} />
+
+              <EditionSwitcher book={book} editionId={editionId} onSelect={showEdition} />
 
               <div className="flex flex-wrap items-center gap-4 mb-8">
                 <div className="flex items-center bg-gradient-to-r from-amber-50 to-orange-50 px-4 py-2 rounded-xl border border-amber-200 shadow-sm">
@@ -223,9 +415,16 @@ export function BookDetail() {
                   <span className="text-lg font-bold text-amber-700">
                     {formatRating(book.rating)}
                   </span>
+                  <span className="ml-2 text-sm text-amber-700/80">
+                    ({formatReviewCount(book.reviewCount)})
+                  </span>
                 </div>
 
-                <span className="badge-gradient px-4 py-2 text-sm">{book.genre}</span>
+                {book.genres.map((genre) => (
+                  <span key={genre} className="badge-gradient px-4 py-2 text-sm">
+                    {genre}
+                  </span>
+                ))}
 
                 <div className="flex items-center text-slate-600 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200">
                   <svg
@@ -241,7 +440,7 @@ export function BookDetail() {
                       d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
                     />
                   </svg>
-                  <span className="font-semibold">{book.publishedYear}</span>
+                  <span className="font-semibold">{edition.publishedYear}</span>
                 </div>
               </div>
 
@@ -254,11 +453,30 @@ export function BookDetail() {
               </div>
 
               <div className="mb-8 glass-effect p-4 rounded-xl border border-white/20">
-                <p className="text-sm text-slate-600">
-                  <span className="font-semibold">ISBN:</span> {book.isbn}
-                </p>
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm text-slate-600">
+                  {bookDetails.map(([label, value]) => (
+                    <div key={label}>
+                      <dt className="inline font-semibold">{label}:</dt>{' '}
+                      <dd className="inline">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+                {book.tags.length > 0 && (
+                  <ul className="flex flex-wrap gap-2 mt-4" aria-label="Tags">
+                    {book.tags.map((tag) => (
+                      <li
+                        key={tag}
+                        className="px-3 py-1 rounded-full bg-slate-100 text-xs font-medium text-slate-600"
+                      >
+                        #{tag}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
 
+              <ReadingStatusControl bookId={book.id} showDates className="mb-6" />
+
               <div className="flex flex-wrap gap-4">
                 <Button variant="primary" size="lg" onClick={handleAddToList}>
                   <svg
@@ -290,7 +508,7 @@ export function BookDetail() {
                       d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
                     />
                   </svg>
-                  Write a Review
+                  {ownReview ? 'Edit Your Review' : 'Write a Review'}
                 </Button>
               </div>
             </div>
@@ -301,9 +519,9 @@ export function BookDetail() {
         <div className="mt-8 glass-effect rounded-3xl shadow-xl border border-white/20 p-8 md:p-12">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-3xl font-bold text-slate-900 flex items-center">
-            <span className="w-1 h-8 bg-gradient-to-b from-violet-600 to-indigo-600 rounded-full mr-3"></span>
-            Reviews
-          </h2>
+              <span className="w-1 h-8 bg-gradient-to-b from-violet-600 to-indigo-600 rounded-full mr-3"></span>
+              Reviews
+            </h2>
             <Button variant="primary" onClick={handleWriteReview}>
               <svg
                 className="w-5 h-5 mr-2 inline"
@@ -318,71 +536,128 @@ export function BookDetail() {
                   d="M12 6v6m0 0v6m0-6h6m-6 0H6"
                 />
               </svg>
-              Write Review
+              {ownReview ? 'Edit Review' : 'Write Review'}
             </Button>
           </div>
 
+          {book.reviewCount > 0 && (
+            <div className="mb-8">
+              <RatingHistogram book={book} />
+            </div>
+          )}
+
+          {book.reviewCount > 0 && (
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                Sort by
+                <select
+                  value={reviewSort}
+                  onChange={(e) => setReviewSort(e.target.value as ReviewSortField)}
+                  className="input-modern px-4 py-2 text-sm"
+                >
+                  {REVIEW_SORT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                Show
+                <select
+                  value={starFilter ?? ''}
+                  onChange={(e) =>
+                    setStarFilter(e.target.value ? Number(e.target.value) : undefined)
+                  }
+                  className="input-modern px-4 py-2 text-sm"
+                >
+                  <option value="">All ratings</option>
+                  {[5, 4, 3, 2, 1].map((stars) => (
+                    <option key={stars} value={stars}>
+                      {stars} {stars === 1 ? 'star' : 'stars'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {!isLoadingReviews && (
+                <span className="text-sm text-slate-500 ml-auto">
+                  Showing {reviews.length} of {reviewTotal}
+                </span>
+              )}
+            </div>
+          )}
+
           {isLoadingReviews ? (
             <div className="flex justify-center py-12">
               <LoadingSpinner size="md" />
             </div>
           ) : reviews.length === 0 ? (
-          <div className="text-center py-12">
-            <div className="w-16 h-16 bg-gradient-to-br from-violet-100 to-indigo-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
-              <svg
-                className="w-8 h-8 text-violet-600"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z"
-                />
-              </svg>
-            </div>
-              <p className="text-slate-600 text-lg mb-4">No reviews yet</p>
-              <p className="text-slate-500 text-sm">Be the first to share your thoughts!</p>
+            <div className="text-center py-12">
+              <div className="w-16 h-16 bg-gradient-to-br from-violet-100 to-indigo-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+                <svg
+                  className="w-8 h-8 text-violet-600"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z"
+                  />
+                </svg>
+              </div>
+              {starFilter === undefined ? (
+                <>
+                  <p className="text-slate-600 text-lg mb-4">No reviews yet</p>
+                  <p className="text-slate-500 text-sm">Be the first to share your thoughts!</p>
+                </>
+              ) : (
+                <p className="text-slate-600 text-lg">No {starFilter}-star reviews yet</p>
+              )}
             </div>
           ) : (
             <div className="space-y-6">
-              {reviews.map((review) => (
-                <div
-                  key={review.id}
-                  className="bg-white/50 backdrop-blur-sm rounded-xl p-6 border border-slate-200"
-                >
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 bg-gradient-to-br from-violet-500 to-indigo-500 rounded-full flex items-center justify-center text-white font-bold">
-                        {(review.userName || review.userId).charAt(0).toUpperCase()}
-                      </div>
-                      <div>
-                        <div className="font-semibold text-slate-900">{review.userName || `User ${review.userId.slice(0, 8)}`}</div>
-                        <div className="text-sm text-slate-500">{formatDate(review.createdAt)}</div>
-                      </div>
-                    </div>
-                    <div className="flex items-center bg-amber-50 px-3 py-1.5 rounded-lg border border-amber-200">
-                      <svg className="w-4 h-4 text-amber-500 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                        <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                      </svg>
-                      <span className="text-sm font-bold text-amber-700">{formatRating(review.rating)}</span>
-                    </div>
-                  </div>
-                  <p className="text-slate-700 leading-relaxed">{review.comment}</p>
+              {reviews.map((review) => {
+                const isOwn = review.userId === user?.id;
+                const isPending = pendingIds.has(review.id);
+                return (
+                  <ReviewCard
+                    key={review.id}
+                    review={review}
+                    isPending={isPending}
+                    onEdit={isOwn && !isPending ? openReviewEditor : undefined}
+                    onDelete={
+                      (isOwn || user?.role === 'admin') && !isPending
+                        ? handleDeleteReview
+                        : undefined
+                    }
+                    isMarkedHelpful={helpfulVoteIds.includes(review.id)}
+                    onToggleHelpful={!isOwn && !isPending ? handleToggleHelpful : undefined}
+                    onReport={!isOwn && !isPending ? handleReportReview : undefined}
+                  >
+                    {!isPending && <ReviewThread review={review} />}
+                  </ReviewCard>
+                );
+              })}
+              {hasMoreReviews && (
+                <div className="flex justify-center pt-2">
+                  {isLoadingMoreReviews ? (
+                    <LoadingSpinner size="md" />
+                  ) : (
+                    <Button variant="outline" onClick={loadMoreReviews}>
+                      Load more reviews
+                    </Button>
+                  )}
                 </div>
-              ))}
-          </div>
+              )}
+            </div>
           )}
         </div>
       </div>
 
-      <Modal
-        isOpen={isModalOpen}
-        onClose={() => setIsModalOpen(false)}
-        title="Add to Reading List"
-      >
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title="Add to Reading List">
         <div>
           {isLoadingLists ? (
             <div className="flex justify-center py-8">
@@ -402,28 +677,61 @@ export function BookDetail() {
               </Button>
             </div>
           ) : (
-            <div className="space-y-2 max-h-96 overflow-y-auto">
-              {readingLists.map((list) => (
-                <button
-                  key={list.id}
-                  onClick={() => handleSelectList(list.id)}
-                  disabled={isAddingToList || list.bookIds.includes(book!.id)}
-                  className={`w-full text-left p-4 rounded-lg border transition-all ${
-                    list.bookIds.includes(book!.id)
-                      ? 'bg-slate-100 border-slate-300 cursor-not-allowed opacity-60'
-                      : 'bg-white border-slate-200 hover:border-violet-300 hover:bg-violet-50 cursor-pointer'
-                  } ${isAddingToList ? 'opacity-50 cursor-wait' : ''}`}
+            <div>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {readingLists.map((list) => {
+                  const alreadyAdded = list.bookIds.includes(book!.id);
+                  return (
+                    <label
+                      key={list.id}
+                      className={`flex items-start gap-3 p-4 rounded-lg border transition-all ${
+                        alreadyAdded
+                          ? 'bg-slate-100 border-slate-300 cursor-not-allowed opacity-60'
+                          : selectedListIds.includes(list.id)
+                            ? 'bg-violet-50 border-violet-300 cursor-pointer'
+                            : 'bg-white border-slate-200 hover:border-violet-300 hover:bg-violet-50 cursor-pointer'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="mt-1 w-4 h-4 accent-violet-600"
+                        checked={alreadyAdded || selectedListIds.includes(list.id)}
+                        disabled={alreadyAdded}
+                        onChange={() => handleToggleList(list.id)}
+                      />
+                      <div>
+                        <div className="font-semibold text-slate-900">{list.name}</div>
+                        {list.description && (
+                          <div className="text-sm text-slate-600 mt-1">{list.description}</div>
+                        )}
+                        <div className="text-xs text-slate-500 mt-2">
+                          {list.bookIds.length} {list.bookIds.length === 1 ? 'book' : 'books'}
+                          {alreadyAdded && ' • Already added'}
+                        </div>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+              <div className="flex gap-3 mt-6">
+                <Button
+                  variant="primary"
+                  onClick={handleAddToSelectedLists}
+                  disabled={selectedListIds.length === 0}
+                  className="flex-1"
                 >
-                  <div className="font-semibold text-slate-900">{list.name}</div>
-                  {list.description && (
-                    <div className="text-sm text-slate-600 mt-1">{list.description}</div>
-                  )}
-                  <div className="text-xs text-slate-500 mt-2">
-                    {list.bookIds.length} {list.bookIds.length === 1 ? 'book' : 'books'}
-                    {list.bookIds.includes(book!.id) && ' • Already added'}
-                  </div>
-                </button>
-              ))}
+                  {selectedListIds.length > 1
+                    ? `Add to ${selectedListIds.length} Lists`
+                    : 'Add to List'}
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => setIsModalOpen(false)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+              </div>
             </div>
           )}
         </div>
@@ -431,12 +739,8 @@ export function BookDetail() {
 
       <Modal
         isOpen={isReviewModalOpen}
-        onClose={() => {
-          setIsReviewModalOpen(false);
-          setReviewRating(5);
-          setReviewComment('');
-        }}
-        title="Write a Review"
+        onClose={closeReviewModal}
+        title={editingReview ? 'Edit Your Review' : 'Write a Review'}
       >
         <div>
           <div className="mb-4">
@@ -471,6 +775,18 @@ export function BookDetail() {
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500 min-h-[120px] resize-none"
               rows={5}
             />
+            <p className="text-xs text-slate-500 mt-1">
+              Supports **bold**, *italics*, lists, &gt; quotes, [links](https://…) and ||spoilers||.
+            </p>
+            {reviewComment.trim() && (
+              <div className="mt-4">
+                <div className="text-sm font-medium text-slate-700 mb-2">Preview</div>
+                <ReviewContent
+                  text={reviewComment}
+                  className="max-h-48 overflow-y-auto rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm"
+                />
+              </div>
+            )}
           </div>
 
           <div className="flex gap-3">
@@ -480,22 +796,24 @@ export function BookDetail() {
               className="flex-1"
               disabled={isSubmittingReview || !reviewComment.trim()}
             >
-              {isSubmittingReview ? 'Submitting...' : 'Submit Review'}
+              {isSubmittingReview
+                ? 'Submitting...'
+                : editingReview
+                  ? 'Save Changes'
+                  : 'Submit Review'}
             </Button>
-            <Button
-              variant="secondary"
-              onClick={() => {
-                setIsReviewModalOpen(false);
-                setReviewRating(5);
-                setReviewComment('');
-              }}
-              className="flex-1"
-            >
+            <Button variant="secondary" onClick={closeReviewModal} className="flex-1">
               Cancel
             </Button>
           </div>
         </div>
       </Modal>
+
+      <ReportReviewDialog
+        target={reportingReview}
+        onClose={() => setReportingReview(null)}
+        onSubmit={submitReport}
+      />
     </div>
   );
 }
@@ -1,66 +1,50 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { BookSearch } from '@/components/books/BookSearch';
 import { BookGrid } from '@/components/books/BookGrid';
+import { Button } from '@/components/common/Button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { getBooks } from '@/services/api';
-import { Book } from '@/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useBookCatalog, useBookFacets } from '@/hooks/useBooks';
+import { BookFilters, BookSortField, ReadingStatus } from '@/types';
+import { READING_STATUSES } from '@/utils/bookQuery';
 import { handleApiError } from '@/utils/errorHandling';
+import { formatReadingStatus } from '@/utils/formatters';
+
+const PAGE_SIZE = 12;
 
 /**
- * Books page component with search and filtering
+ * Books page component with server-side search, filtering and infinite scroll
  */
 export function Books() {
-  const [books, setBooks] = useState<Book[]>([]);
-  const [filteredBooks, setFilteredBooks] = useState<Book[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [sortBy, setSortBy] = useState('title');
+  const [filters, setFilters] = useState<BookFilters>({});
+  const [sortBy, setSortBy] = useState<BookSortField>('title');
+  const { user } = useAuth();
+  // Only the signed-in reader's shelves can be filtered on
+  const [shelf, setShelf] = useState<ReadingStatus | ''>('');
+  const { books, total, hasMore, error, isLoading, isLoadingMore, loadMore } = useBookCatalog({
+    ...filters,
+    ...(user && shelf && { readingStatus: shelf, userId: user.id }),
+    sort: sortBy,
+    limit: PAGE_SIZE,
+  });
+  const { data: facets } = useBookFacets();
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    loadBooks();
-  }, []);
-
-  const loadBooks = async () => {
-    setIsLoading(true);
-    try {
-      const data = await getBooks();
-      setBooks(data);
-      setFilteredBooks(data);
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const handleSearch = (query: string) => {
-    if (!query.trim()) {
-      setFilteredBooks(books);
-      return;
-    }
-
-    const lowercaseQuery = query.toLowerCase();
-    const filtered = books.filter(
-      (book) =>
-        book.title.toLowerCase().includes(lowercaseQuery) ||
-        book.author.toLowerCase().includes(lowercaseQuery) ||
-        book.genre.toLowerCase().includes(lowercaseQuery)
-    );
-    setFilteredBooks(filtered);
-  };
+    if (error) handleApiError(error);
+  }, [error]);
 
-  // TODO: Implement sort functionality
-  const handleSort = (value: string) => {
-    setSortBy(value);
-    // Add sorting logic here
-  };
+  // Load the next page when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
 
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <LoadingSpinner size="lg" />
-      </div>
-    );
-  }
+    const observer = new IntersectionObserver((observed) => {
+      if (observed.some((entry) => entry.isIntersecting)) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
 
   return (
     <div className="min-h-screen py-12 px-4">
@@ -71,31 +55,53 @@ export function Books() {
             <span className="gradient-text">Book Catalog</span>
           </h1>
           <p className="text-slate-600 text-xl">
-            Browse our collection of{' '}
-            <span className="font-bold text-violet-600">{books.length}</span> amazing books
+            Browse our collection of <span className="font-bold text-violet-600">{total}</span>{' '}
+            amazing books
           </p>
         </div>
 
         {/* Search */}
         <div className="mb-8">
-          <BookSearch onSearch={handleSearch} />
+          <BookSearch onSearch={setFilters} facets={facets} />
         </div>
 
         {/* Filters & Sort */}
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8 gap-4">
           <div className="glass-effect px-4 py-2 rounded-xl border border-white/20">
             <p className="text-slate-700 font-semibold">
-              Showing <span className="text-violet-600">{filteredBooks.length}</span>{' '}
-              {filteredBooks.length === 1 ? 'book' : 'books'}
+              Showing <span className="text-violet-600">{books.length}</span> of{' '}
+              <span className="text-violet-600">{total}</span> {total === 1 ? 'book' : 'books'}
             </p>
           </div>
 
-          {/* TODO: Implement sort logic */}
-          <div className="flex items-center gap-3">
-            <label className="text-sm text-slate-700 font-semibold">Sort by:</label>
+          <div className="flex flex-wrap items-center gap-3">
+            {user && (
+              <>
+                <label htmlFor="reading-status" className="text-sm text-slate-700 font-semibold">
+                  Shelf:
+                </label>
+                <select
+                  id="reading-status"
+                  value={shelf}
+                  onChange={(e) => setShelf(e.target.value as ReadingStatus | '')}
+                  className="input-modern px-4 py-2.5 text-sm font-medium"
+                >
+                  <option value="">All books</option>
+                  {READING_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {formatReadingStatus(status)}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+            <label htmlFor="sort-by" className="text-sm text-slate-700 font-semibold">
+              Sort by:
+            </label>
             <select
+              id="sort-by"
               value={sortBy}
-              onChange={(e) => handleSort(e.target.value)}
+              onChange={(e) => setSortBy(e.target.value as BookSortField)}
               className="input-modern px-4 py-2.5 text-sm font-medium"
             >
               <option value="title">Title</option>
@@ -107,14 +113,24 @@ export function Books() {
         </div>
 
         {/* Book Grid */}
-        <BookGrid books={filteredBooks} />
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <BookGrid books={books} />
+        )}
 
-        {/* TODO: Implement pagination */}
-        {filteredBooks.length > 12 && (
-          <div className="mt-12 flex justify-center">
-            <div className="glass-effect px-6 py-3 rounded-xl border border-white/20">
-              <span className="text-slate-600 font-medium">Pagination coming soon...</span>
-            </div>
+        {/* Infinite scroll: the sentinel triggers loading, the button is a fallback */}
+        {hasMore && (
+          <div ref={sentinelRef} className="mt-12 flex justify-center">
+            {isLoadingMore ? (
+              <LoadingSpinner size="md" />
+            ) : (
+              <Button variant="outline" onClick={loadMore}>
+                Load more books
+              </Button>
+            )}
           </div>
         )}
       </div>
@@ -1,10 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/common/Button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { PendingSyncBadge } from '@/components/common/PendingSyncBadge';
 import { ReadingListBookCard } from '@/components/books/ReadingListBookCard';
-import { getReadingLists, getBooks, updateReadingList, deleteReadingList } from '@/services/api';
-import { Book, ReadingList } from '@/types';
+import { ReadingListConflictDialog } from '@/components/books/ReadingListConflictDialog';
+import {
+  ApiError,
+  getBooksByIds,
+  getReadingList,
+  deleteReadingList,
+  isAbortError,
+} from '@/services/api';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { useReadingListMutations } from '@/hooks/useReadingListMutations';
+import { BookBatch, ReadingList } from '@/types';
 import { formatDate } from '@/utils/formatters';
 import { handleApiError, showSuccess } from '@/utils/errorHandling';
 
@@ -14,53 +25,60 @@ import { handleApiError, showSuccess } from '@/utils/errorHandling';
 export function ReadingListDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { pendingIds } = useOfflineStatus();
   const [readingList, setReadingList] = useState<ReadingList | null>(null);
-  const [books, setBooks] = useState<Book[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  // Why the list cannot be shown: it does not exist or belongs to someone else
+  const [unavailable, setUnavailable] = useState<'not-found' | 'forbidden' | null>(null);
+  // Id of the last list request that finished, so a new id shows the spinner again
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const isLoading = loadedId !== id;
+  const [batch, setBatch] = useState<BookBatch>({ books: [], missingIds: [] });
 
-  useEffect(() => {
-    if (id) {
-      loadReadingList(id);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [id]);
+  // Ignore late updates for a list the user has navigated away from
+  const { mutate, conflict, resolveConflict } = useReadingListMutations((list) =>
+    setReadingList((current) => (current?.id === list.id ? list : current))
+  );
 
-  const loadReadingList = async (listId: string) => {
-    setIsLoading(true);
-    try {
-      // Get all reading lists and find the one we want
-      const lists = await getReadingLists();
-      const list = lists.find((l) => l.id === listId);
-      
-      if (!list) {
-        navigate('/404');
-        return;
-      }
-
-      setReadingList(list);
-
-      // Load books for this list
-      if (list.bookIds.length > 0) {
-        await loadBooks(list.bookIds);
-      }
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Follow removals and reordering without refetching the books
+  const books = useMemo(() => {
+    const booksById = new Map(batch.books.map((book) => [book.id, book]));
+    return (readingList?.bookIds ?? []).flatMap((bookId) => booksById.get(bookId) ?? []);
+  }, [batch, readingList]);
+  const missingIds = useMemo(
+    () => batch.missingIds.filter((bookId) => readingList?.bookIds.includes(bookId)),
+    [batch, readingList]
+  );
 
-  const loadBooks = async (bookIds: string[]) => {
-    try {
-      // Get all books first
-      const allBooks = await getBooks();
-      // Filter to only include books in this list
-      const listBooks = allBooks.filter((book) => bookIds.includes(book.id));
-      setBooks(listBooks);
-    } catch (error) {
-      handleApiError(error);
-    }
-  };
+  useEffect(() => {
+    if (!id) return;
+
+    // Cancel the previous list's request when the id changes or the page unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+    getReadingList(id, { signal })
+      .then(async (list) => {
+        // Only the books on this list, in one round trip
+        setBatch(await getBooksByIds(list.bookIds, { signal }));
+        setReadingList(list);
+        setUnavailable(null);
+      })
+      .catch((error: unknown) => {
+        if (isAbortError(error)) return;
+        setReadingList(null);
+        if (error instanceof ApiError && error.status === 404) {
+          setUnavailable('not-found');
+        } else if (error instanceof ApiError && error.status === 403) {
+          setUnavailable('forbidden');
+        } else {
+          handleApiError(error);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadedId(id);
+      });
+    return () => controller.abort();
+  }, [id]);
 
   const handleDeleteList = async () => {
     if (!readingList || !window.confirm(`Are you sure you want to delete "${readingList.name}"?`)) {
@@ -76,24 +94,28 @@ export function ReadingListDetail() {
     }
   };
 
-  const handleRemoveBook = async (bookId: string) => {
+  const handleRemoveBook = (bookId: string) => {
     if (!readingList) return;
+    mutate(readingList, { type: 'remove', bookIds: [bookId] });
+  };
 
-    try {
-      const updatedBookIds = readingList.bookIds.filter((id) => id !== bookId);
-      await updateReadingList(readingList.id, {
-        name: readingList.name,
-        description: readingList.description,
-        bookIds: updatedBookIds,
-      });
-      
-      // Update local state
-      setReadingList({ ...readingList, bookIds: updatedBookIds });
-      setBooks(books.filter((book) => book.id !== bookId));
-      showSuccess('Book removed from list!');
-    } catch (error) {
-      handleApiError(error);
-    }
+  const handleRemoveMissing = () => {
+    if (!readingList) return;
+    mutate(readingList, { type: 'remove', bookIds: missingIds });
+  };
+
+  /**
+   * Swaps a book with its visible neighbour; ids of missing books keep their slots
+   */
+  const handleMoveBook = (bookId: string, offset: -1 | 1) => {
+    if (!readingList) return;
+    const neighbour = books[books.findIndex((book) => book.id === bookId) + offset];
+    if (!neighbour) return;
+    mutate(readingList, {
+      type: 'move',
+      bookId,
+      toIndex: readingList.bookIds.indexOf(neighbour.id),
+    });
   };
 
   if (isLoading) {
@@ -104,10 +126,33 @@ export function ReadingListDetail() {
     );
   }
 
+  if (unavailable) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="glass-effect rounded-3xl shadow-xl border border-white/20 p-12 text-center max-w-lg">
+          <h1 className="text-3xl font-bold text-slate-900 mb-4">
+            {unavailable === 'not-found' ? 'Reading list not found' : 'This list is not yours'}
+          </h1>
+          <p className="text-slate-600 mb-8">
+            {unavailable === 'not-found'
+              ? 'This reading list does not exist or has been deleted.'
+              : 'This reading list belongs to another reader, so you cannot open it.'}
+          </p>
+          <Button variant="primary" onClick={() => navigate('/reading-lists')}>
+            Back to My Lists
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   if (!readingList) {
     return null;
   }
 
+  // Lists are only editable by their owner
+  const isOwner = user?.id === readingList.userId;
+
   return (
     <div className="min-h-screen py-12 px-4">
       <div className="container mx-auto max-w-6xl">
@@ -137,6 +182,11 @@ export function ReadingListDetail() {
               <h1 className="text-4xl md:text-5xl font-extrabold text-slate-900 mb-4">
                 {readingList.name}
               </h1>
+              {pendingIds.has(readingList.id) && (
+                <div className="mb-4">
+                  <PendingSyncBadge />
+                </div>
+              )}
               {readingList.description && (
                 <p className="text-xl text-slate-600 mb-4">{readingList.description}</p>
               )}
@@ -195,29 +245,43 @@ export function ReadingListDetail() {
                 )}
               </div>
             </div>
-            <Button
-              variant="outline"
-              onClick={handleDeleteList}
-              className="ml-4"
-            >
-              <svg
-                className="w-5 h-5 mr-2 inline"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                />
-              </svg>
-              Delete List
-            </Button>
+            {isOwner && (
+              <Button variant="outline" onClick={handleDeleteList} className="ml-4">
+                <svg
+                  className="w-5 h-5 mr-2 inline"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+                Delete List
+              </Button>
+            )}
           </div>
         </div>
 
+        {isOwner && missingIds.length > 0 && (
+          <div
+            role="status"
+            className="mb-8 flex flex-col sm:flex-row sm:items-center justify-between gap-4 rounded-2xl border border-amber-200 bg-amber-50 px-6 py-4 text-amber-800"
+          >
+            <p className="font-medium">
+              {missingIds.length === 1
+                ? '1 book in this list is no longer in the catalog.'
+                : `${missingIds.length} books in this list are no longer in the catalog.`}
+            </p>
+            <Button variant="outline" size="sm" onClick={handleRemoveMissing}>
+              Remove from list
+            </Button>
+          </div>
+        )}
+
         {books.length === 0 ? (
           <div className="glass-effect rounded-3xl shadow-xl border border-white/20 p-12 text-center">
             <svg
@@ -234,22 +298,37 @@ export function ReadingListDetail() {
               />
             </svg>
             <h3 className="text-xl font-bold text-slate-900 mb-2">No books in this list yet</h3>
-            <p className="text-slate-600 mb-6">
-              Start adding books to build your reading list!
-            </p>
+            <p className="text-slate-600 mb-6">Start adding books to build your reading list!</p>
             <Button variant="primary" onClick={() => navigate('/books')}>
               Browse Books
             </Button>
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {books.map((book) => (
-              <ReadingListBookCard key={book.id} book={book} onRemove={handleRemoveBook} />
+            {books.map((book, index) => (
+              <ReadingListBookCard
+                key={book.id}
+                book={book}
+                onRemove={isOwner ? handleRemoveBook : undefined}
+                onMoveEarlier={
+                  isOwner && index > 0 ? (bookId) => handleMoveBook(bookId, -1) : undefined
+                }
+                onMoveLater={
+                  isOwner && index < books.length - 1
+                    ? (bookId) => handleMoveBook(bookId, 1)
+                    : undefined
+                }
+              />
             ))}
           </div>
         )}
+
+        <ReadingListConflictDialog
+          conflict={conflict}
+          books={batch.books}
+          onResolve={resolveConflict}
+        />
       </div>
     </div>
   );
 }
-
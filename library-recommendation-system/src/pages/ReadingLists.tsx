@@ -4,7 +4,10 @@ import { Button } from '@/components/common/Button';
 import { Modal } from '@/components/common/Modal';
 import { Input } from '@/components/common/Input';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { getReadingLists, createReadingList } from '@/services/api';
+import { PendingSyncBadge } from '@/components/common/PendingSyncBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { getReadingLists, createReadingList, isAbortError } from '@/services/api';
 import { ReadingList } from '@/types';
 import { formatDate } from '@/utils/formatters';
 import { handleApiError, showSuccess } from '@/utils/errorHandling';
@@ -14,30 +17,34 @@ import { handleApiError, showSuccess } from '@/utils/errorHandling';
  */
 export function ReadingLists() {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [lists, setLists] = useState<ReadingList[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [newListName, setNewListName] = useState('');
   const [newListDescription, setNewListDescription] = useState('');
+  const { isOnline, pendingIds, lastSyncedAt } = useOfflineStatus();
 
+  // Refetched after offline changes sync, so temporary ids are replaced
   useEffect(() => {
-    loadLists();
-  }, []);
-
-  const loadLists = async () => {
-    setIsLoading(true);
-    try {
-      // TODO: Replace with DynamoDB query
-      const data = await getReadingLists();
-      setLists(data);
-    } catch (error) {
-      handleApiError(error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    // Cancelled if the user leaves the page before the lists arrive
+    const controller = new AbortController();
+    getReadingLists({ signal: controller.signal })
+      .then(setLists)
+      .catch((error: unknown) => {
+        if (!isAbortError(error)) handleApiError(error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [lastSyncedAt]);
 
   const handleCreateList = async () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
     if (!newListName.trim()) {
       alert('Please enter a list name');
       return;
@@ -45,17 +52,24 @@ export function ReadingLists() {
 
     try {
       // TODO: Replace with DynamoDB put operation
-      const newList = await createReadingList({
-        userId: '1', // TODO: Get from auth context
-        name: newListName,
-        description: newListDescription,
-        bookIds: [],
-      });
+      const newList = await createReadingList(
+        {
+          userId: user.id,
+          name: newListName,
+          description: newListDescription,
+          bookIds: [],
+        },
+        { idempotencyKey: crypto.randomUUID() }
+      );
       setLists([...lists, newList]);
       setIsModalOpen(false);
       setNewListName('');
       setNewListDescription('');
-      showSuccess('Reading list created successfully!');
+      showSuccess(
+        isOnline
+          ? 'Reading list created successfully!'
+          : 'Reading list saved. It will sync when you are back online.'
+      );
     } catch (error) {
       handleApiError(error);
     }
@@ -113,7 +127,10 @@ export function ReadingLists() {
                 onClick={() => navigate(`/reading-lists/${list.id}`)}
                 className="bg-white/90 backdrop-blur-sm rounded-xl shadow-sm border border-slate-200 p-6 hover:shadow-xl hover:border-blue-300 transition-all duration-300 cursor-pointer"
               >
-                <h3 className="text-xl font-bold text-slate-900 mb-2">{list.name}</h3>
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <h3 className="text-xl font-bold text-slate-900">{list.name}</h3>
+                  {pendingIds.has(list.id) && <PendingSyncBadge />}
+                </div>
                 <p className="text-slate-600 mb-4 line-clamp-2">{list.description}</p>
                 <div className="flex items-center justify-between text-sm text-slate-500">
                   <span>{list.bookIds.length} books</span>
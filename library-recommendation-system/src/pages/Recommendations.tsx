@@ -1,9 +1,11 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/common/Button';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { BookGrid } from '@/components/books/BookGrid';
-import { getRecommendations, getBook } from '@/services/api';
+import { ApiError, getRecommendations, getBooksByIds, isAbortError } from '@/services/api';
+import { useCountdown } from '@/hooks/useCountdown';
 import { Book, Recommendation } from '@/types';
+import { formatDuration } from '@/utils/formatters';
 import { handleApiError } from '@/utils/errorHandling';
 
 /**
@@ -14,6 +16,14 @@ export function Recommendations() {
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [recommendedBooks, setRecommendedBooks] = useState<Book[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [quotaMessage, setQuotaMessage] = useState<string | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const retryRemaining = useCountdown(retryAt);
+  const isQuotaExhausted = quotaMessage !== null && (retryAt === null || retryRemaining > 0);
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Cancel a pending recommendation request when leaving the page
+  useEffect(() => () => requestRef.current?.abort(), []);
 
   const exampleQueries = [
     'I love mystery novels with strong female protagonists',
@@ -28,18 +38,39 @@ export function Recommendations() {
       return;
     }
 
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    const { signal } = controller;
+
     setIsLoading(true);
+    setQuotaMessage(null);
+    setRetryAt(null);
     try {
-      const recs = await getRecommendations(query);
+      const recs = await getRecommendations(query, { signal });
       setRecommendations(recs);
 
-      // Fetch full book details for each recommendation
-      const books = await Promise.all(recs.map((rec) => getBook(rec.bookId)));
-      setRecommendedBooks(books.filter((book): book is Book => book !== null));
+      // Fetch full book details for every recommendation in one request
+      const { books } = await getBooksByIds(
+        recs.map((rec) => rec.bookId),
+        { signal }
+      );
+      setRecommendedBooks(books);
     } catch (error) {
-      handleApiError(error);
+      if (isAbortError(error)) {
+        return;
+      }
+      if (error instanceof ApiError && error.status === 429) {
+        // Bedrock quota exhausted: show a countdown instead of an alert
+        setQuotaMessage(error.serverMessage ?? 'The AI recommendation quota has been reached.');
+        setRetryAt(error.retryAfterMs !== undefined ? Date.now() + error.retryAfterMs : null);
+      } else {
+        handleApiError(error);
+      }
     } finally {
-      setIsLoading(false);
+      if (requestRef.current === controller) {
+        setIsLoading(false);
+      }
     }
   };
 
@@ -98,12 +129,41 @@ export function Recommendations() {
             </div>
           </div>
 
+          {isQuotaExhausted && (
+            <div
+              role="status"
+              className="mt-6 flex items-start gap-3 bg-amber-50 border border-amber-200 rounded-xl p-4"
+            >
+              <svg
+                className="w-5 h-5 text-amber-500 mt-0.5 flex-shrink-0"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+              <div>
+                <p className="font-semibold text-amber-800">{quotaMessage}</p>
+                <p className="text-sm text-amber-700 mt-1">
+                  {retryAt !== null
+                    ? `You can ask again in ${formatDuration(retryRemaining)}.`
+                    : 'Please try again later.'}
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="mt-8">
             <Button
               variant="primary"
               size="lg"
               onClick={handleGetRecommendations}
-              disabled={isLoading}
+              disabled={isLoading || (isQuotaExhausted && retryAt !== null)}
               className="w-full"
             >
               <svg
@@ -138,8 +198,9 @@ export function Recommendations() {
 
             {/* Display recommendations with reasons */}
             <div className="space-y-6 mb-12">
-              {recommendations.map((rec, index) => {
-                const book = recommendedBooks[index];
+              {recommendations.map((rec) => {
+                // Recommendations for books missing from the catalog are skipped
+                const book = recommendedBooks.find((b) => b.id === rec.bookId);
                 if (!book) return null;
 
                 return (
@@ -155,7 +216,8 @@ export function Recommendations() {
                         onError={(e) => {
                           const target = e.currentTarget;
                           if (!target.src.includes('data:image/svg+xml')) {
-                            target.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTEyIiBoZWlnaHQ9IjE2MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTEyIiBoZWlnaHQ9IjE2MCIgZmlsbD0iI2YxZjVmOSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTIiIGZpbGw9IiM5Y2EzYWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5ObyBDb3ZlcjwvdGV4dD48L3N2Zz4=';
+                            target.src =
+                              'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTEyIiBoZWlnaHQ9IjE2MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTEyIiBoZWlnaHQ9IjE2MCIgZmlsbD0iI2YxZjVmOSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwsIHNhbnMtc2VyaWYiIGZvbnQtc2l6ZT0iMTIiIGZpbGw9IiM5Y2EzYWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5ObyBDb3ZlcjwvdGV4dD48L3N2Zz4=';
                           }
                         }}
                       />
@@ -169,7 +231,9 @@ export function Recommendations() {
                               Confidence: {Math.round(rec.confidence * 100)}%
                             </span>
                           </div>
-                          <span className="badge-gradient px-3 py-1.5 text-sm">{book.genre}</span>
+                          <span className="badge-gradient px-3 py-1.5 text-sm">
+                            {book.genres[0]}
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,81 @@
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { BookCard } from '@/components/books/BookCard';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useSeries, useSeriesBooks } from '@/hooks/useBooks';
+import { handleApiError } from '@/utils/errorHandling';
+
+/**
+ * SeriesDetail page component listing the books of a series in reading order
+ */
+export function SeriesDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { data: series, error: seriesError, isLoading } = useSeries(id);
+  const {
+    data: books = [],
+    error: booksError,
+    isLoading: isLoadingBooks,
+  } = useSeriesBooks(series ? id : undefined);
+
+  useEffect(() => {
+    if (series === null) {
+      navigate('/404');
+    }
+  }, [series, navigate]);
+
+  useEffect(() => {
+    const error = seriesError ?? booksError;
+    if (error) handleApiError(error);
+  }, [seriesError, booksError]);
+
+  if (isLoading || isLoadingBooks) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!series) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen py-12 px-4">
+      <div className="container mx-auto">
+        <div className="mb-12 text-center">
+          <p className="text-sm font-semibold uppercase tracking-wide text-violet-600 mb-2">
+            Series
+          </p>
+          <h1 className="text-5xl md:text-6xl font-extrabold mb-4">
+            <span className="gradient-text">{series.name}</span>
+          </h1>
+          {series.description && (
+            <p className="text-slate-600 text-xl max-w-3xl mx-auto mb-2">{series.description}</p>
+          )}
+          <p className="text-slate-500">
+            {books.length === 1 ? '1 book' : `${books.length} books`} in reading order
+          </p>
+        </div>
+
+        {books.length === 0 ? (
+          <p className="text-center text-slate-600 text-lg">
+            No books in this series are in the catalog yet.
+          </p>
+        ) : (
+          <ol className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {books.map((book, index) => (
+              <li key={book.id}>
+                <p className="mb-2 text-sm font-bold text-slate-700">
+                  Book {book.seriesPosition ?? index + 1}
+                </p>
+                <BookCard book={book} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,65 @@
-import { Book, ReadingList, Review, Recommendation } from '@/types';
-import { fetchAuthSession } from 'aws-amplify/auth';
+import {
+  ApiCallOptions,
+  Author,
+  AuthorInput,
+  AuthorMergeInput,
+  Book,
+  BookBatch,
+  BookFacets,
+  BookInput,
+  ModerationAction,
+  BookQuery,
+  BookReadingStatus,
+  ConditionalWriteOptions,
+  Page,
+  PendingMutation,
+  ReadingList,
+  ReadingStatusInput,
+  ReportedComment,
+  ReportedReview,
+  Review,
+  ReviewComment,
+  ReviewCommentInput,
+  ReviewInput,
+  ReviewReport,
+  ReviewQuery,
+  Recommendation,
+  Series,
+  SeriesInput,
+} from '@/types';
+import { collectBookFacets, filterBooks, toBookSearchParams } from '@/utils/bookQuery';
+import { applyReadingListChange } from '@/utils/readingListChanges';
+import { DEFAULT_REVIEW_QUERY, filterReviews } from '@/utils/reviewQuery';
+import { ApiError, isNetworkError, request } from './apiClient';
+import {
+  decodeAuthor,
+  decodeBook,
+  decodeBookFacets,
+  decodeList,
+  decodePage,
+  decodeReadingList,
+  decodeReadingStatus,
+  decodeRecommendation,
+  decodeReportedComment,
+  decodeReportedReview,
+  decodeResponse,
+  decodeReview,
+  decodeReviewComment,
+  decodeReviewReport,
+  decodeSeries,
+} from './decoders';
+import {
+  enqueueMutation,
+  getOfflineSyncState,
+  isOnline,
+  loadResponse,
+  replayMutations,
+  saveResponse,
+  updateCachedResponse,
+} from './offline';
+import { invalidateQueries, queryKeys, setQueryData } from './queryCache';
+
+export { ApiError, isAbortError, isNetworkError } from './apiClient';
 
 /**
  * ============================================================================
@@ -38,474 +98,1138 @@ import { fetchAuthSession } from 'aws-amplify/auth';
  * [ ] Week 4: Delete src/services/mockData.ts
  *
  * ============================================================================
+ *
+ * Every function below goes through request() in `apiClient.ts`, which
+ * unwraps Lambda proxy responses and throws an ApiError on failure, and
+ * validates the body with the decoders in `decoders.ts`. Book mutations
+ * invalidate the shared query cache (see `queryCache.ts`). Reading-list and
+ * review writes made offline are queued and replayed later (see `offline/`).
  */
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+type QueuedWrite = Omit<PendingMutation, 'id' | 'queuedAt'>;
 
-async function getAuthHeaders(): Promise<Record<string, string>> {
-  try {
-    const session = await fetchAuthSession();
-    const token = session.tokens?.idToken?.toString();
-    return {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    };
-  } catch {
-    return {
-      'Content-Type': 'application/json',
-    };
+/**
+ * Sends a write, or queues it for replay if the API cannot be reached
+ *
+ * While older writes are still queued, new ones join the queue too so they
+ * reach the server in order. `whileQueued` builds the result the UI shows
+ * until the write syncs.
+ */
+async function sendOrQueue<T>(
+  mutations: QueuedWrite | QueuedWrite[],
+  send: () => Promise<T>,
+  whileQueued: () => Promise<T>
+): Promise<T> {
+  const queueIsEmpty = getOfflineSyncState().pending.length === 0;
+  if (isOnline() && queueIsEmpty) {
+    try {
+      return await send();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  for (const mutation of Array.isArray(mutations) ? mutations : [mutations]) {
+    await enqueueMutation(mutation);
   }
+  // The queue only needs a nudge if it was stalled behind this write's predecessors
+  if (isOnline() && !queueIsEmpty) {
+    void replayMutations();
+  }
+  return whileQueued();
+}
+
+function hasId(record: unknown, id: string): boolean {
+  return record !== null && typeof record === 'object' && (record as { id?: unknown }).id === id;
+}
+
+function cachedBookIds(cached: Record<string, unknown>): string[] {
+  const bookIds = cached.bookIds ?? cached.books;
+  return Array.isArray(bookIds) ? bookIds : [];
 }
 
 /**
- * Get all books from the catalog
- *
- * TODO: Replace with real API call in Week 2, Day 3-4
+ * Applies a queued write to the offline copies of a reading list, so reads
+ * made before it syncs show the change
+ */
+async function patchCachedReadingList(
+  id: string,
+  patch: (cached: Record<string, unknown>) => Record<string, unknown>
+): Promise<ReadingList> {
+  const path = `/reading-lists/${id}`;
+  const cachedLists = await loadResponse<unknown[]>('/reading-lists');
+  const cached =
+    (await loadResponse<unknown>(path)) ?? cachedLists?.find((item) => hasId(item, id));
+  const now = new Date().toISOString();
+  const updated = decodeResponse(
+    decodeReadingList,
+    {
+      ...patch({ userId: '', name: '', createdAt: now, ...(cached as object) }),
+      id,
+      updatedAt: now,
+    },
+    { method: 'PUT', path }
+  );
+  await saveResponse(path, updated);
+  await updateCachedResponse<unknown[]>('/reading-lists', (lists) =>
+    lists?.map((item) => (hasId(item, id) ? updated : item))
+  );
+  return updated;
+}
+
+/**
+ * Get one page of the catalog, filtered and sorted by the server
+ * Connected to AWS Lambda via API Gateway GET /books
  *
- * Implementation steps:
- * 1. Deploy Lambda function: library-get-books (see IMPLEMENTATION_GUIDE.md)
- * 2. Create API Gateway endpoint: GET /books
- * 3. Uncomment API_BASE_URL at top of file
- * 4. Replace mock code below with:
+ * Pass the returned `nextCursor` back as `query.cursor` for the next page. The
+ * cursor wraps DynamoDB's LastEvaluatedKey, and since DynamoDB applies filters
+ * after reading a page, a page can be shorter than `limit` without being the
+ * last one.
  *
- * const response = await fetch(`${API_BASE_URL}/books`);
- * if (!response.ok) throw new Error('Failed to fetch books');
- * return response.json();
+ * Older Lambdas return the whole catalog as a bare array; it is then filtered
+ * here and returned as a single page. Such Lambdas know nothing of reading
+ * statuses, so a `readingStatus` filter is then applied with the reader's
+ * statuses from getReadingStatuses(). A `readingStatus` filter without the
+ * reader's `userId` fails with a VALIDATION_FAILED ApiError before any request.
  *
- * Expected response: Array of Book objects from DynamoDB
+ * @example
+ * const { items, total, nextCursor } = await getBooks({ genre: 'Mystery', limit: 12 });
  */
-export async function getBooks(): Promise<Book[]> {
-  const response = await fetch(`${API_BASE_URL}/books`);
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch books: ${response.status} ${response.statusText}`);
+export async function getBooks(
+  query: BookQuery = {},
+  options: ApiCallOptions = {}
+): Promise<Page<Book>> {
+  const params = toBookSearchParams(query);
+  const path = params ? `/books?${params}` : '/books';
+  if (query.readingStatus && !query.userId) {
+    throw new ApiError({
+      status: 0,
+      code: 'VALIDATION_FAILED',
+      method: 'GET',
+      path,
+      detail: 'A reading status filter needs the userId of the reader',
+    });
   }
-  
-  const data = await response.json();
-  
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    const parsedBody = JSON.parse(data.body);
-    if (Array.isArray(parsedBody)) {
-      return parsedBody;
+  // Filtering on a reading status needs the reader's session
+  const data = await request<unknown>('GET', path, {
+    auth: query.readingStatus !== undefined,
+    ...options,
+  });
+  const context = { method: 'GET' as const, path };
+
+  if (Array.isArray(data)) {
+    let items = filterBooks(decodeList(decodeBook, data, context), query);
+    if (query.readingStatus && query.userId) {
+      const statuses = await getReadingStatuses(query.userId, options);
+      const onShelf = new Set(
+        statuses
+          .filter((entry) => entry.status === query.readingStatus)
+          .map((entry) => entry.bookId)
+      );
+      items = items.filter((book) => onShelf.has(book.id));
     }
+    return { items, total: items.length, nextCursor: null };
   }
-  
-  if (Array.isArray(data)) {
-    return data;
+
+  return decodePage(decodeBook, data, context);
+}
+
+/**
+ * Get every book in the catalog by following all page cursors
+ *
+ * Only for screens that genuinely need the full catalog, such as the admin
+ * table; browsing should page through getBooks() instead.
+ */
+export async function getAllBooks(options: ApiCallOptions = {}): Promise<Book[]> {
+  return getEveryBook({}, options);
+}
+
+/**
+ * Follows the page cursors of a catalog query to the end
+ */
+async function getEveryBook(query: BookQuery, options: ApiCallOptions): Promise<Book[]> {
+  const books: Book[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getBooks({ ...query, limit: 100, cursor }, options);
+    books.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return books;
+}
+
+/**
+ * Get the genres, tags, languages and formats used in the catalog, for the
+ * search filters
+ *
+ * APIs deployed before GET /books/facets existed answer 404; the facets are
+ * then collected from the whole catalog.
+ */
+export async function getBookFacets(options: ApiCallOptions = {}): Promise<BookFacets> {
+  const path = queryKeys.bookFacets();
+  try {
+    const data = await request<unknown>('GET', path, options);
+    return decodeResponse(decodeBookFacets, data, { method: 'GET', path });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return collectBookFacets(await getAllBooks(options));
+    }
+    throw error;
   }
-  
-  return [];
 }
 
 /**
- * Get a single book by ID
+ * Get every author, sorted by name
+ * Connected to AWS Lambda via API Gateway GET /authors
+ */
+export async function getAuthors(options: ApiCallOptions = {}): Promise<Author[]> {
+  const path = queryKeys.authors();
+  const data = await request<unknown>('GET', path, options);
+  return decodeList(decodeAuthor, data, { method: 'GET', path }, 'items');
+}
+
+/**
+ * Get a single author
+ * Connected to AWS Lambda via API Gateway GET /authors/{id}
  *
- * TODO: Replace with real API call in Week 2, Day 3-4
+ * @returns The author, or null if it does not exist
+ */
+export async function getAuthor(id: string, options: ApiCallOptions = {}): Promise<Author | null> {
+  const path = queryKeys.author(id);
+  try {
+    const data = await request<unknown>('GET', path, options);
+    return decodeResponse(decodeAuthor, data, { method: 'GET', path });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the books of an author, newest first
+ * Connected to AWS Lambda via API Gateway GET /books?authorId=
+ */
+export async function getAuthorBooks(
+  authorId: string,
+  options: ApiCallOptions = {}
+): Promise<Book[]> {
+  return getEveryBook({ authorId, sort: 'year' }, options);
+}
+
+/**
+ * Update an author's name, bio, photo and aliases (admin only)
  *
- * Implementation steps:
- * 1. Deploy Lambda function: library-get-book (see IMPLEMENTATION_GUIDE.md)
- * 2. Create API Gateway endpoint: GET /books/{id}
- * 3. Replace mock code below with:
+ * The previous name is kept as an alias. Fails with 409 if another author goes
+ * by one of the names; merge the two with mergeAuthors() instead.
+ */
+export async function updateAuthor(
+  id: string,
+  author: AuthorInput,
+  options: ApiCallOptions = {}
+): Promise<Author> {
+  const path = queryKeys.author(id);
+  const data = await request<unknown>('PUT', path, { body: author, auth: true, ...options });
+  const updated = decodeResponse(decodeAuthor, data, { method: 'PUT', path });
+  setQueryData(path, updated);
+  invalidateQueries(queryKeys.authors());
+  return updated;
+}
+
+/**
+ * Merge the author names printed on books into one author (admin only)
+ * Connected to AWS Lambda via API Gateway POST /authors/merge
  *
- * const response = await fetch(`${API_BASE_URL}/books/${id}`);
- * if (response.status === 404) return null;
- * if (!response.ok) throw new Error('Failed to fetch book');
- * return response.json();
+ * Authors going by any of the names are merged into one that goes by `name`,
+ * with the other names as aliases, and every book printed under one of the
+ * names links to it.
  *
- * Expected response: Single Book object or null if not found
+ * @example
+ * await mergeAuthors({ names: ['T. J. Reid'], name: 'Taylor Jenkins Reid' });
  */
+export async function mergeAuthors(
+  input: AuthorMergeInput,
+  options: ApiCallOptions = {}
+): Promise<Author> {
+  const path = '/authors/merge';
+  const data = await request<unknown>('POST', path, { body: input, auth: true, ...options });
+  const merged = decodeResponse(decodeAuthor, data, { method: 'POST', path });
+  invalidateQueries(queryKeys.authors());
+  invalidateQueries(queryKeys.books());
+  return merged;
+}
 
 /**
- * Get a single book by ID
- * Connected to AWS Lambda via API Gateway GET /books/{id}
+ * Get every series, sorted by name
+ * Connected to AWS Lambda via API Gateway GET /series
  */
-export async function getBook(id: string): Promise<Book | null> {
-  const response = await fetch(`${API_BASE_URL}/books/${id}`);
-  
-  if (response.status === 404) return null;
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch book: ${response.status} ${response.statusText}`);
-  }
-  
-  const data = await response.json();
-  
-  // Lambda Proxy Integration (Lambda'nın body içinde string döndürmesi durumu)
-  if (data.body && typeof data.body === 'string') {
-    return JSON.parse(data.body);
+export async function getSeriesList(options: ApiCallOptions = {}): Promise<Series[]> {
+  const path = queryKeys.seriesList();
+  const data = await request<unknown>('GET', path, options);
+  return decodeList(decodeSeries, data, { method: 'GET', path }, 'items');
+}
+
+/**
+ * Get a single series
+ * Connected to AWS Lambda via API Gateway GET /series/{id}
+ *
+ * @returns The series, or null if it does not exist
+ */
+export async function getSeries(id: string, options: ApiCallOptions = {}): Promise<Series | null> {
+  const path = queryKeys.series(id);
+  try {
+    const data = await request<unknown>('GET', path, options);
+    return decodeResponse(decodeSeries, data, { method: 'GET', path });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
   }
-  
-  return data;
 }
 
 /**
- * Create a new book (admin only)
+ * Get the books of a series in reading order
+ * Connected to AWS Lambda via API Gateway GET /books?seriesId=
+ *
+ * Books without a position come last.
  */
-export async function createBook(book: Omit<Book, 'id'>): Promise<Book> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/books`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(book),
-  });
+export async function getSeriesBooks(
+  seriesId: string,
+  options: ApiCallOptions = {}
+): Promise<Book[]> {
+  return getEveryBook({ seriesId, sort: 'series' }, options);
+}
+
+/**
+ * Create a series (admin only)
+ */
+export async function createSeries(
+  series: SeriesInput,
+  options: ApiCallOptions = {}
+): Promise<Series> {
+  const path = queryKeys.seriesList();
+  const data = await request<unknown>('POST', path, { body: series, auth: true, ...options });
+  const created = decodeResponse(decodeSeries, data, { method: 'POST', path });
+  invalidateQueries(queryKeys.seriesList());
+  return created;
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to create book: ${response.status} ${response.statusText}`);
+/**
+ * Get a single book by ID
+ * Connected to AWS Lambda via API Gateway GET /books/{id}
+ *
+ * @returns The book, or null if it does not exist
+ */
+export async function getBook(id: string, options: ApiCallOptions = {}): Promise<Book | null> {
+  try {
+    const data = await request<unknown>('GET', `/books/${id}`, options);
+    return decodeResponse(decodeBook, data, { method: 'GET', path: `/books/${id}` });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
   }
+}
 
-  const data = await response.json();
+/** Most ids DynamoDB BatchGetItem accepts in one call */
+const BATCH_GET_LIMIT = 100;
 
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    return JSON.parse(data.body);
+/**
+ * Offline copies of the given books, saved by earlier batch or single-book
+ * reads. Rethrows `error` unless every book was cached, since a book missing
+ * from the cache would otherwise be reported as deleted.
+ */
+async function loadCachedBooks(ids: string[], error: unknown): Promise<Book[]> {
+  const cached = await Promise.all(ids.map((id) => loadResponse<unknown>(queryKeys.book(id))));
+  if (cached.some((data) => data === undefined)) {
+    throw error;
   }
-
-  return data;
+  return decodeList(decodeBook, cached, { method: 'POST', path: '/books/batch' });
 }
 
 /**
- * Update an existing book (admin only)
+ * Get several books by id in as few round trips as possible
+ * Connected to AWS Lambda via API Gateway POST /books/batch
+ *
+ * Books come back in the order of `ids` (duplicates removed). Ids that no
+ * longer exist are listed in `missingIds` instead of failing the call. Found
+ * books are also stored in the query cache for their detail pages, and saved
+ * for offline use: while the API cannot be reached, the books are served from
+ * those copies.
+ *
+ * @example
+ * const { books, missingIds } = await getBooksByIds(list.bookIds);
  */
-export async function updateBook(id: string, book: Partial<Book>): Promise<Book> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/books/${id}`, {
-    method: 'PUT',
-    headers,
-    body: JSON.stringify(book),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to update book: ${response.status} ${response.statusText}`);
+export async function getBooksByIds(
+  ids: string[],
+  options: ApiCallOptions = {}
+): Promise<BookBatch> {
+  const uniqueIds = [...new Set(ids)];
+  const chunks: string[][] = [];
+  for (let i = 0; i < uniqueIds.length; i += BATCH_GET_LIMIT) {
+    chunks.push(uniqueIds.slice(i, i + BATCH_GET_LIMIT));
   }
 
-  const data = await response.json();
+  const responses = await Promise.all(
+    chunks.map(async (chunk) => {
+      try {
+        const data = await request<unknown>('POST', '/books/batch', {
+          body: { ids: chunk },
+          idempotent: true,
+          signal: options.signal,
+        });
+        const books = decodeList(
+          decodeBook,
+          data,
+          { method: 'POST', path: '/books/batch' },
+          'items'
+        );
+        // POST responses are not cached by request(), so keep each book as its GET would be
+        books.forEach((book) => void saveResponse(queryKeys.book(book.id), book));
+        return books;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        return loadCachedBooks(chunk, error);
+      }
+    })
+  );
 
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    return JSON.parse(data.body);
-  }
+  const found = new Map(responses.flat().map((book) => [book.id, book]));
+  found.forEach((book, id) => setQueryData(queryKeys.book(id), book));
+  return {
+    books: uniqueIds.flatMap((id) => found.get(id) ?? []),
+    missingIds: uniqueIds.filter((id) => !found.has(id)),
+  };
+}
 
-  return data;
+/**
+ * Create a new book (admin only)
+ */
+export async function createBook(book: BookInput, options: ApiCallOptions = {}): Promise<Book> {
+  const data = await request<unknown>('POST', '/books', { body: book, auth: true, ...options });
+  const created = decodeResponse(decodeBook, data, { method: 'POST', path: '/books' });
+  invalidateQueries(queryKeys.books());
+  invalidateQueries(queryKeys.authors());
+  return created;
 }
 
 /**
- * Delete a book (admin only)
+ * Replace the details of an existing book (admin only); optional fields left
+ * out are cleared, and the rating aggregates are kept
  */
-export async function deleteBook(id?: string): Promise<void> {
-  if (!id) {
-    throw new Error('Book ID is required for deletion');
-  }
+export async function updateBook(
+  id: string,
+  book: BookInput,
+  options: ApiCallOptions = {}
+): Promise<Book> {
+  const data = await request<unknown>('PUT', `/books/${id}`, {
+    body: book,
+    auth: true,
+    ...options,
+  });
+  const updated = decodeResponse(decodeBook, data, { method: 'PUT', path: `/books/${id}` });
+  setQueryData(queryKeys.book(id), updated);
+  invalidateQueries(queryKeys.books());
+  invalidateQueries(queryKeys.authors());
+  return updated;
+}
 
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/books/${id}`, {
-    method: 'DELETE',
-    headers,
+/**
+ * Merge duplicate books into a work as its editions (admin only)
+ *
+ * Reviews, comments and reading-list entries of the duplicates move to the
+ * work, and the duplicates are deleted. A reader who reviewed both keeps their
+ * review of the work. Returns the work with its editions.
+ */
+export async function mergeBooks(
+  workId: string,
+  bookIds: string[],
+  options: ApiCallOptions = {}
+): Promise<Book> {
+  const path = `/books/${workId}/merge`;
+  const data = await request<unknown>('POST', path, {
+    body: { bookIds },
+    auth: true,
+    ...options,
   });
+  const work = decodeResponse(decodeBook, data, { method: 'POST', path });
+  invalidateQueries(queryKeys.books());
+  invalidateQueries(queryKeys.authors());
+  invalidateQueries(queryKeys.adminReviews());
+  return work;
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to delete book: ${response.status} ${response.statusText}`);
-  }
+/**
+ * Delete a book (admin only)
+ */
+export async function deleteBook(id: string, options: ApiCallOptions = {}): Promise<void> {
+  await request<void>('DELETE', `/books/${id}`, { auth: true, ...options });
+  invalidateQueries(queryKeys.books());
+  invalidateQueries(queryKeys.authors());
 }
 
 /**
  * Get AI-powered book recommendations using Amazon Bedrock
+ *
+ * Not retried automatically: each call spends Bedrock quota. When the quota is
+ * exhausted the ApiError has status 429 and `retryAfterMs` from the server.
  */
-export async function getRecommendations(query: string): Promise<Recommendation[]> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/recommendations`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({ query }),
+export async function getRecommendations(
+  query: string,
+  options: ApiCallOptions = {}
+): Promise<Recommendation[]> {
+  const data = await request<unknown>('POST', '/recommendations', {
+    body: { query },
+    auth: true,
+    signal: options.signal,
   });
-  
-  if (!response.ok) {
-    // Handle specific error codes
-    if (response.status === 429) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'AI service rate limit exceeded. Please try again in 24 hours.');
-    }
-    throw new Error('Failed to get recommendations');
-  }
-  
-  const data = await response.json();
-  
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    const parsedBody = JSON.parse(data.body);
-    if (parsedBody.recommendations && Array.isArray(parsedBody.recommendations)) {
-      return parsedBody.recommendations;
-    }
-    if (Array.isArray(parsedBody)) {
-      return parsedBody;
-    }
-  }
-  
-  // If data is directly the recommendations array
-  if (data.recommendations && Array.isArray(data.recommendations)) {
-    return data.recommendations;
-  }
-  
-  // If data is directly an array
-  if (Array.isArray(data)) {
-    return data;
-  }
-  
-  throw new Error('Unexpected API response format');
+  return decodeList(
+    decodeRecommendation,
+    data,
+    { method: 'POST', path: '/recommendations' },
+    'recommendations'
+  );
 }
 
 /**
- * Get user's reading lists
- *
- * TODO: Replace with real API call in Week 2, Day 5-7
- *
- * Implementation steps:
- * 1. Deploy Lambda function: library-get-reading-lists
- * 2. Lambda should query DynamoDB by userId (from Cognito token)
- * 3. Create API Gateway endpoint: GET /reading-lists
- * 4. Add Cognito authorizer (Week 3)
- * 5. Replace mock code below with:
- *
- * const headers = await getAuthHeaders();
- * const response = await fetch(`${API_BASE_URL}/reading-lists`, {
- *   headers
- * });
- * if (!response.ok) throw new Error('Failed to fetch reading lists');
- * return response.json();
+ * Get the authenticated user's reading lists
+ * Connected to AWS Lambda via API Gateway GET /reading-lists
+ */
+export async function getReadingLists(options: ApiCallOptions = {}): Promise<ReadingList[]> {
+  const data = await request<unknown>('GET', '/reading-lists', { auth: true, ...options });
+  return decodeList(decodeReadingList, data, { method: 'GET', path: '/reading-lists' });
+}
+
+/**
+ * Get a single reading list
+ * Connected to AWS Lambda via API Gateway GET /reading-lists/{id}
  *
- * Expected response: Array of ReadingList objects for the authenticated user
+ * @throws ApiError with status 404 if the list does not exist, or 403 if it
+ * belongs to another user
  */
-export async function getReadingLists(): Promise<ReadingList[]> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/reading-lists`, {
-    headers,
+export async function getReadingList(
+  id: string,
+  options: ApiCallOptions = {}
+): Promise<ReadingList> {
+  const data = await request<unknown>('GET', `/reading-lists/${id}`, {
+    auth: true,
+    ...options,
   });
-  
-  if (!response.ok) {
-    // Try to get error details from response
-    let errorMessage = `Failed to fetch reading lists: ${response.status} ${response.statusText}`;
-    try {
-      const errorData = await response.json();
-      if (errorData.message) {
-        errorMessage += ` - ${errorData.message}`;
-      } else if (errorData.body) {
-        const parsedBody = typeof errorData.body === 'string' ? JSON.parse(errorData.body) : errorData.body;
-        if (parsedBody.message) {
-          errorMessage += ` - ${parsedBody.message}`;
-        }
-      }
-      console.error('API Error Response:', errorData);
-    } catch (e) {
-      // If we can't parse error response, use default message
-    }
-    throw new Error(errorMessage);
-  }
-  
-  const data = await response.json();
-  
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    const parsedBody = JSON.parse(data.body);
-    if (Array.isArray(parsedBody)) {
-      return parsedBody;
-    }
-    throw new Error('API response body is not an array');
-  }
-  
-  // If data is directly an array (non-proxy integration)
-  if (Array.isArray(data)) {
-    return data;
-  }
-  
-  throw new Error('Unexpected API response format');
+  return decodeResponse(decodeReadingList, data, { method: 'GET', path: `/reading-lists/${id}` });
 }
 
 /**
  * Create a new reading list
- *
- * TODO: Replace with real API call in Week 2, Day 5-7
- *
- * Implementation steps:
- * 1. Deploy Lambda function: library-create-reading-list
- * 2. Lambda should generate UUID for id and timestamps
- * 3. Lambda should get userId from Cognito token
- * 4. Create API Gateway endpoint: POST /reading-lists
- * 5. Add Cognito authorizer (Week 3)
- * 6. Replace mock code below with:
- *
- * const headers = await getAuthHeaders();
- * const response = await fetch(`${API_BASE_URL}/reading-lists`, {
- *   method: 'POST',
- *   headers,
- *   body: JSON.stringify(list)
- * });
- * if (!response.ok) throw new Error('Failed to create reading list');
- * return response.json();
- *
- * Expected response: Complete ReadingList object with generated id and timestamps
+ * The Lambda generates the id and timestamps and takes userId from the Cognito token
  */
 export async function createReadingList(
-  list: Omit<ReadingList, 'id' | 'createdAt' | 'updatedAt'>
+  list: Omit<ReadingList, 'id' | 'createdAt' | 'updatedAt'>,
+  options: ApiCallOptions = {}
 ): Promise<ReadingList> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/reading-lists`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(list),
-  });
-  
-  if (!response.ok) {
-    throw new Error(`Failed to create reading list: ${response.status} ${response.statusText}`);
-  }
-  
-  const data = await response.json();
-  
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    const parsedBody = JSON.parse(data.body);
-    // Convert books to bookIds if needed
-    if (parsedBody.books && !parsedBody.bookIds) {
-      parsedBody.bookIds = parsedBody.books;
-      delete parsedBody.books;
-    }
-    return parsedBody;
-  }
-  
-  // If data is directly the object
-  if (data.bookIds || data.books) {
-    // Convert books to bookIds if needed
-    if (data.books && !data.bookIds) {
-      data.bookIds = data.books;
-      delete data.books;
+  const idempotencyKey = options.idempotencyKey ?? crypto.randomUUID();
+  const temporaryId = `offline-${idempotencyKey}`;
+
+  return sendOrQueue(
+    {
+      kind: 'createReadingList',
+      method: 'POST',
+      path: '/reading-lists',
+      body: list,
+      entityId: temporaryId,
+      idempotencyKey,
+    },
+    async () => {
+      const data = await request<unknown>('POST', '/reading-lists', {
+        body: list,
+        auth: true,
+        ...options,
+        idempotencyKey,
+      });
+      return decodeResponse(decodeReadingList, data, { method: 'POST', path: '/reading-lists' });
+    },
+    async () => {
+      const now = new Date().toISOString();
+      const created: ReadingList = { ...list, id: temporaryId, createdAt: now, updatedAt: now };
+      await saveResponse(`/reading-lists/${temporaryId}`, created);
+      await updateCachedResponse<unknown[]>('/reading-lists', (lists) => [
+        ...(lists ?? []),
+        created,
+      ]);
+      return created;
     }
-    return data;
-  }
-  
-  throw new Error('Unexpected API response format');
+  );
 }
 
 /**
  * Update a reading list
+ *
+ * Pass `options.ifMatch` to fail with a CONFLICT ApiError instead of
+ * overwriting a newer version. Writes queued offline are replayed
+ * unconditionally, so the last device to sync wins.
  */
 export async function updateReadingList(
   id: string,
-  list: Partial<ReadingList>
+  list: Partial<ReadingList>,
+  options: ConditionalWriteOptions = {}
 ): Promise<ReadingList> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/reading-lists/${id}`, {
-    method: 'PUT',
-    headers,
-    body: JSON.stringify(list),
-  });
+  const path = `/reading-lists/${id}`;
 
-  if (!response.ok) {
-    let errorMessage = `Failed to update reading list: ${response.status} ${response.statusText}`;
-    try {
-      const errorData = await response.json();
-      if (errorData.message) {
-        errorMessage += ` - ${errorData.message}`;
-      } else if (errorData.body) {
-        const parsedBody = typeof errorData.body === 'string' ? JSON.parse(errorData.body) : errorData.body;
-        if (parsedBody.message || parsedBody.error) {
-          errorMessage += ` - ${parsedBody.message || parsedBody.error}`;
-        }
-      }
-      console.error('Update Reading List API Error Response:', errorData);
-    } catch (e) {
-      // If we can't parse error response, use default message
-    }
-    throw new Error(errorMessage);
-  }
+  return sendOrQueue(
+    { kind: 'updateReadingList', method: 'PUT', path, body: list, entityId: id },
+    async () => {
+      const data = await request<unknown>('PUT', path, { body: list, auth: true, ...options });
+      return decodeResponse(decodeReadingList, data, { method: 'PUT', path });
+    },
+    () => patchCachedReadingList(id, (cached) => ({ ...cached, ...list }))
+  );
+}
+
+/**
+ * Add one book to a reading list
+ *
+ * Adding a book that is already on the list changes nothing, so the call is
+ * safe to retry and never conflicts with other edits.
+ */
+export async function addBookToList(
+  listId: string,
+  bookId: string,
+  options: ApiCallOptions = {}
+): Promise<ReadingList> {
+  const path = `/reading-lists/${listId}/books`;
 
-  const data = await response.json();
+  return sendOrQueue(
+    { kind: 'addBookToList', method: 'POST', path, body: { bookId }, entityId: listId },
+    async () => {
+      const data = await request<unknown>('POST', path, {
+        body: { bookId },
+        auth: true,
+        idempotent: true,
+        ...options,
+      });
+      return decodeResponse(decodeReadingList, data, { method: 'POST', path });
+    },
+    () =>
+      patchCachedReadingList(listId, (cached) => ({
+        ...cached,
+        bookIds: applyReadingListChange(cachedBookIds(cached), { type: 'add', bookId }),
+      }))
+  );
+}
 
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    const parsedBody = JSON.parse(data.body);
-    // Convert books to bookIds if needed
-    if (parsedBody.books && !parsedBody.bookIds) {
-      parsedBody.bookIds = parsedBody.books;
-      delete parsedBody.books;
-    }
-    return parsedBody;
-  }
+/**
+ * Add one book to several reading lists in a single request
+ *
+ * Fails as a whole if any list is missing or not the caller's. Offline, the
+ * adds are queued per list.
+ *
+ * @returns The updated lists, in the order of `listIds`
+ */
+export async function addBookToLists(
+  bookId: string,
+  listIds: string[],
+  options: ApiCallOptions = {}
+): Promise<ReadingList[]> {
+  const path = `/books/${bookId}/reading-lists`;
+  const uniqueIds = [...new Set(listIds)];
 
-  // If data is directly the object
-  if (data.bookIds || data.books) {
-    // Convert books to bookIds if needed
-    if (data.books && !data.bookIds) {
-      data.bookIds = data.books;
-      delete data.books;
+  return sendOrQueue(
+    uniqueIds.map((listId) => ({
+      kind: 'addBookToList' as const,
+      method: 'POST' as const,
+      path: `/reading-lists/${listId}/books`,
+      body: { bookId },
+      entityId: listId,
+    })),
+    async () => {
+      const data = await request<unknown>('POST', path, {
+        body: { listIds: uniqueIds },
+        auth: true,
+        idempotent: true,
+        ...options,
+      });
+      return decodeList(decodeReadingList, data, { method: 'POST', path }, 'items');
+    },
+    async () => {
+      const lists: ReadingList[] = [];
+      for (const listId of uniqueIds) {
+        lists.push(
+          await patchCachedReadingList(listId, (cached) => ({
+            ...cached,
+            bookIds: applyReadingListChange(cachedBookIds(cached), { type: 'add', bookId }),
+          }))
+        );
+      }
+      return lists;
     }
-    return data;
-  }
+  );
+}
+
+/**
+ * Remove one book from a reading list; removing a book that is not on the
+ * list changes nothing
+ */
+export async function removeBookFromList(
+  listId: string,
+  bookId: string,
+  options: ApiCallOptions = {}
+): Promise<ReadingList> {
+  const path = `/reading-lists/${listId}/books/${bookId}`;
 
-  throw new Error('Unexpected API response format');
+  return sendOrQueue(
+    { kind: 'removeBookFromList', method: 'DELETE', path, body: undefined, entityId: listId },
+    async () => {
+      const data = await request<unknown>('DELETE', path, {
+        auth: true,
+        idempotent: true,
+        ...options,
+      });
+      return decodeResponse(decodeReadingList, data, { method: 'DELETE', path });
+    },
+    () =>
+      patchCachedReadingList(listId, (cached) => ({
+        ...cached,
+        bookIds: applyReadingListChange(cachedBookIds(cached), {
+          type: 'remove',
+          bookIds: [bookId],
+        }),
+      }))
+  );
 }
 
 /**
  * Delete a reading list
  */
-export async function deleteReadingList(id: string): Promise<void> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/reading-lists/${id}`, {
-    method: 'DELETE',
-    headers,
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to delete reading list: ${response.status} ${response.statusText}`);
-  }
+export async function deleteReadingList(id: string, options: ApiCallOptions = {}): Promise<void> {
+  await request<void>('DELETE', `/reading-lists/${id}`, { auth: true, ...options });
 }
 
 /**
- * Get reviews for a book
+ * Get the user's reading status for every book they gave one, most recently
+ * changed first
+ * Connected to AWS Lambda via API Gateway GET /users/{userId}/reading-statuses
+ *
+ * Readers may only read their own statuses; the server answers 403 otherwise.
  */
-export async function getReviews(bookId: string): Promise<Review[]> {
-  const response = await fetch(`${API_BASE_URL}/books/${bookId}/reviews`);
+export async function getReadingStatuses(
+  userId: string,
+  options: ApiCallOptions = {}
+): Promise<BookReadingStatus[]> {
+  const path = queryKeys.readingStatuses(userId);
+  const data = await request<unknown>('GET', path, { auth: true, ...options });
+  return decodeList(decodeReadingStatus, data, { method: 'GET', path }, 'items');
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch reviews: ${response.status} ${response.statusText}`);
-  }
+/**
+ * Set the user's reading status for a book, replacing any earlier one
+ * Connected to AWS Lambda via API Gateway PUT /users/{userId}/reading-statuses/{bookId}
+ *
+ * @throws ApiError with status 400 for dates that are not YYYY-MM-DD or a
+ * finish date before the start date
+ */
+export async function setReadingStatus(
+  userId: string,
+  bookId: string,
+  input: ReadingStatusInput,
+  options: ApiCallOptions = {}
+): Promise<BookReadingStatus> {
+  const path = `${queryKeys.readingStatuses(userId)}/${bookId}`;
+  const data = await request<unknown>('PUT', path, { body: input, auth: true, ...options });
+  const status = decodeResponse(decodeReadingStatus, data, { method: 'PUT', path });
+  invalidateQueries(queryKeys.readingStatuses(userId));
+  invalidateQueries(queryKeys.books());
+  return status;
+}
 
-  const data = await response.json();
+/**
+ * Take a book off the user's shelves by clearing its reading status
+ * Connected to AWS Lambda via API Gateway DELETE /users/{userId}/reading-statuses/{bookId}
+ */
+export async function clearReadingStatus(
+  userId: string,
+  bookId: string,
+  options: ApiCallOptions = {}
+): Promise<void> {
+  const path = `${queryKeys.readingStatuses(userId)}/${bookId}`;
+  await request<void>('DELETE', path, { auth: true, ...options });
+  invalidateQueries(queryKeys.readingStatuses(userId));
+  invalidateQueries(queryKeys.books());
+}
 
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    const parsedBody = JSON.parse(data.body);
-    if (Array.isArray(parsedBody)) {
-      return parsedBody;
-    }
-  }
+/**
+ * Get one page of a book's reviews, sorted and filtered by the server
+ *
+ * Missing query fields fall back to DEFAULT_REVIEW_QUERY (newest first, ten
+ * per page). Pass the returned `nextCursor` back as `query.cursor` for the
+ * next page. Older Lambdas return every review as a bare array; it is then
+ * sorted and filtered here and returned as a single page.
+ *
+ * Hidden reviews are left out unless the caller is an admin or their author,
+ * so the request carries the ID token when there is a session.
+ *
+ * @example
+ * const { items, total, nextCursor } = await getReviews(bookId, { sort: 'highest', rating: 5 });
+ */
+export async function getReviews(
+  bookId: string,
+  query: ReviewQuery = {},
+  options: ApiCallOptions = {}
+): Promise<Page<Review>> {
+  const path = queryKeys.reviewPage(bookId, query);
+  const data = await request<unknown>('GET', path, { auth: true, ...options });
+  const context = { method: 'GET' as const, path };
 
   if (Array.isArray(data)) {
-    return data;
+    const items = filterReviews(decodeList(decodeReview, data, context), {
+      ...DEFAULT_REVIEW_QUERY,
+      ...query,
+    });
+    return { items, total: items.length, nextCursor: null };
   }
 
-  return [];
+  return decodePage(decodeReview, data, context);
+}
+
+/**
+ * Get the caller's review of a book, or null if they have not reviewed it
+ */
+export async function getOwnReview(
+  bookId: string,
+  userId: string,
+  options: ApiCallOptions = {}
+): Promise<Review | null> {
+  const { items } = await getReviews(bookId, { userId, limit: 1 }, options);
+  return items[0] ?? null;
+}
+
+/**
+ * Review writes change the book's rating and review count, so catalog pages
+ * and the book are refetched along with its reviews
+ */
+function invalidateReviewedBooks(): void {
+  invalidateQueries(queryKeys.books());
 }
 
 /**
  * Create a new review
+ *
+ * Each user may review a book once; a second review fails with a CONFLICT
+ * ApiError, and the existing review should be edited instead.
  */
-export async function createReview(review: Omit<Review, 'id' | 'createdAt'>): Promise<Review> {
-  const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE_URL}/books/${review.bookId}/reviews`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(review),
+export async function createReview(
+  review: ReviewInput,
+  options: ApiCallOptions = {}
+): Promise<Review> {
+  const path = `/books/${review.bookId}/reviews`;
+  const idempotencyKey = options.idempotencyKey ?? crypto.randomUUID();
+  const temporaryId = `offline-${idempotencyKey}`;
+
+  const created = await sendOrQueue(
+    {
+      kind: 'createReview',
+      method: 'POST',
+      path,
+      body: review,
+      entityId: temporaryId,
+      idempotencyKey,
+    },
+    async () => {
+      const data = await request<unknown>('POST', path, {
+        body: review,
+        auth: true,
+        ...options,
+        idempotencyKey,
+      });
+      return decodeResponse(decodeReview, data, { method: 'POST', path });
+    },
+    async () => {
+      const queued: Review = {
+        ...review,
+        id: temporaryId,
+        createdAt: new Date().toISOString(),
+        helpfulCount: 0,
+        commentCount: 0,
+        status: 'published',
+      };
+      // Shown at the top of the default, newest-first listing
+      await updateCachedResponse<Page<unknown>>(queryKeys.reviewPage(review.bookId), (page) => ({
+        items: [queued, ...(page?.items ?? [])],
+        total: (page?.total ?? 0) + 1,
+        nextCursor: page?.nextCursor ?? null,
+      }));
+      return queued;
+    }
+  );
+  invalidateReviewedBooks();
+  return created;
+}
+
+/**
+ * Change the rating or comment of the caller's own review
+ *
+ * @throws ApiError with status 403 if the review belongs to someone else
+ */
+export async function updateReview(
+  bookId: string,
+  reviewId: string,
+  changes: Partial<Pick<Review, 'rating' | 'comment'>>,
+  options: ApiCallOptions = {}
+): Promise<Review> {
+  const path = `/books/${bookId}/reviews/${reviewId}`;
+  const data = await request<unknown>('PUT', path, { body: changes, auth: true, ...options });
+  const updated = decodeResponse(decodeReview, data, { method: 'PUT', path });
+  invalidateReviewedBooks();
+  return updated;
+}
+
+/**
+ * Delete a review; users may delete their own reviews, admins any review
+ *
+ * @throws ApiError with status 403 if the caller may not delete the review
+ */
+export async function deleteReview(
+  bookId: string,
+  reviewId: string,
+  options: ApiCallOptions = {}
+): Promise<void> {
+  await request<void>('DELETE', `/books/${bookId}/reviews/${reviewId}`, {
+    auth: true,
+    ...options,
   });
+  invalidateReviewedBooks();
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to create review: ${response.status} ${response.statusText}`);
-  }
+/**
+ * Ids of the reviews of a book that the user has marked as helpful
+ *
+ * Readers may only read their own votes; the server answers 403 otherwise.
+ */
+export async function getHelpfulVotes(
+  userId: string,
+  bookId: string,
+  options: ApiCallOptions = {}
+): Promise<string[]> {
+  const path = queryKeys.helpfulVotes(userId, bookId);
+  const data = await request<{ reviewIds?: unknown } | null>('GET', path, {
+    auth: true,
+    ...options,
+  });
+  const reviewIds = data?.reviewIds;
+  return Array.isArray(reviewIds)
+    ? reviewIds.filter((id): id is string => typeof id === 'string')
+    : [];
+}
 
-  const data = await response.json();
+/**
+ * Mark a review as helpful, or take the vote back
+ *
+ * Each reader has one vote per review, so repeating a call changes nothing.
+ * Returns the review with its new `helpfulCount`.
+ *
+ * @throws ApiError with status 403 when voting on one's own review
+ */
+export async function setHelpfulVote(
+  bookId: string,
+  reviewId: string,
+  helpful: boolean,
+  options: ApiCallOptions = {}
+): Promise<Review> {
+  const path = `/books/${bookId}/reviews/${reviewId}/helpful`;
+  const method = helpful ? 'PUT' : 'DELETE';
+  const data = await request<unknown>(method, path, { auth: true, ...options });
+  const review = decodeResponse(decodeReview, data, { method, path });
+  invalidateQueries(queryKeys.reviews(bookId));
+  invalidateQueries(queryKeys.users());
+  return review;
+}
 
-  // Handle Lambda Proxy Integration response format
-  if (data.body && typeof data.body === 'string') {
-    return JSON.parse(data.body);
-  }
+/**
+ * Report a review as abusive or off-topic, adding it to the admin queue
+ *
+ * @throws ApiError (CONFLICT) if the caller already reported the review
+ */
+export async function reportReview(
+  bookId: string,
+  reviewId: string,
+  reason: string,
+  options: ApiCallOptions = {}
+): Promise<ReviewReport> {
+  const path = `/books/${bookId}/reviews/${reviewId}/reports`;
+  const data = await request<unknown>('POST', path, {
+    body: { reason },
+    auth: true,
+    ...options,
+  });
+  const report = decodeResponse(decodeReviewReport, data, { method: 'POST', path });
+  invalidateQueries(queryKeys.reportedReviews());
+  return report;
+}
+
+/**
+ * Get the reviews with open reports, most-reported first (admin only)
+ */
+export async function getReportedReviews(options: ApiCallOptions = {}): Promise<ReportedReview[]> {
+  const path = queryKeys.reportedReviews();
+  const data = await request<unknown>('GET', path, { auth: true, ...options });
+  return decodeList(decodeReportedReview, data, { method: 'GET', path }, 'items');
+}
+
+/**
+ * Get the latest reviews across all books, hidden ones included (admin only)
+ */
+export async function getRecentReviews(
+  query: Pick<ReviewQuery, 'limit' | 'cursor'> = {},
+  options: ApiCallOptions = {}
+): Promise<Page<Review>> {
+  const path = queryKeys.recentReviews(query);
+  const data = await request<unknown>('GET', path, { auth: true, ...options });
+  return decodePage(decodeReview, data, { method: 'GET', path });
+}
+
+/**
+ * Approve, hide or delete a review (admin only)
+ *
+ * Every action closes the review's open reports. Hidden reviews drop out of
+ * the book's rating and are only shown to admins and their author. A reason
+ * is required to hide or delete.
+ *
+ * @returns The moderated review, or null once it is deleted
+ */
+export async function moderateReview(
+  bookId: string,
+  reviewId: string,
+  action: ModerationAction,
+  reason: string,
+  options: ApiCallOptions = {}
+): Promise<Review | null> {
+  const path = `/books/${bookId}/reviews/${reviewId}/moderation`;
+  const data = await request<unknown>('POST', path, {
+    body: { action, reason },
+    auth: true,
+    ...options,
+  });
+  const review =
+    action === 'delete' ? null : decodeResponse(decodeReview, data, { method: 'POST', path });
+  invalidateReviewedBooks();
+  invalidateQueries(queryKeys.adminReviews());
+  return review;
+}
+
+/**
+ * Get the comment thread under a review, oldest first
+ *
+ * Replies carry the `parentId` of the top-level comment they answer. Hidden
+ * comments are left out unless the caller is an admin or their author.
+ */
+export async function getReviewComments(
+  bookId: string,
+  reviewId: string,
+  options: ApiCallOptions = {}
+): Promise<ReviewComment[]> {
+  const path = queryKeys.reviewComments(bookId, reviewId);
+  const data = await request<unknown>('GET', path, { auth: true, ...options });
+  return decodeList(decodeReviewComment, data, { method: 'GET', path }, 'items');
+}
 
-  return data;
+/**
+ * Comment on a review, or reply to a top-level comment
+ *
+ * @throws ApiError with status 400 when replying to a reply
+ */
+export async function createReviewComment(
+  bookId: string,
+  reviewId: string,
+  comment: ReviewCommentInput,
+  options: ApiCallOptions = {}
+): Promise<ReviewComment> {
+  const path = queryKeys.reviewComments(bookId, reviewId);
+  const data = await request<unknown>('POST', path, { body: comment, auth: true, ...options });
+  const created = decodeResponse(decodeReviewComment, data, { method: 'POST', path });
+  invalidateQueries(queryKeys.reviews(bookId));
+  return created;
+}
+
+/**
+ * Delete a comment and its replies; users may delete their own comments,
+ * admins any comment
+ *
+ * @throws ApiError with status 403 if the caller may not delete the comment
+ */
+export async function deleteReviewComment(
+  bookId: string,
+  reviewId: string,
+  commentId: string,
+  options: ApiCallOptions = {}
+): Promise<void> {
+  await request<void>('DELETE', `${queryKeys.reviewComments(bookId, reviewId)}/${commentId}`, {
+    auth: true,
+    ...options,
+  });
+  invalidateQueries(queryKeys.reviews(bookId));
+}
+
+/**
+ * Report a comment as abusive or off-topic, adding it to the admin queue
+ *
+ * @throws ApiError (CONFLICT) if the caller already reported the comment
+ */
+export async function reportReviewComment(
+  bookId: string,
+  reviewId: string,
+  commentId: string,
+  reason: string,
+  options: ApiCallOptions = {}
+): Promise<ReviewReport> {
+  const path = `${queryKeys.reviewComments(bookId, reviewId)}/${commentId}/reports`;
+  const data = await request<unknown>('POST', path, {
+    body: { reason },
+    auth: true,
+    ...options,
+  });
+  const report = decodeResponse(decodeReviewReport, data, { method: 'POST', path });
+  invalidateQueries(queryKeys.reportedComments());
+  return report;
+}
+
+/**
+ * Get the comments with open reports, most-reported first (admin only)
+ */
+export async function getReportedComments(
+  options: ApiCallOptions = {}
+): Promise<ReportedComment[]> {
+  const path = queryKeys.reportedComments();
+  const data = await request<unknown>('GET', path, { auth: true, ...options });
+  return decodeList(decodeReportedComment, data, { method: 'GET', path }, 'items');
+}
+
+/**
+ * Approve, hide or delete a comment (admin only)
+ *
+ * Works like moderateReview: every action closes the comment's open reports
+ * and a reason is required to hide or delete. Deleting removes its replies.
+ *
+ * @returns The moderated comment, or null once it is deleted
+ */
+export async function moderateReviewComment(
+  bookId: string,
+  reviewId: string,
+  commentId: string,
+  action: ModerationAction,
+  reason: string,
+  options: ApiCallOptions = {}
+): Promise<ReviewComment | null> {
+  const path = `${queryKeys.reviewComments(bookId, reviewId)}/${commentId}/moderation`;
+  const data = await request<unknown>('POST', path, {
+    body: { action, reason },
+    auth: true,
+    ...options,
+  });
+  const moderated =
+    action === 'delete'
+      ? null
+      : decodeResponse(decodeReviewComment, data, { method: 'POST', path });
+  invalidateQueries(queryKeys.reviews(bookId));
+  invalidateQueries(queryKeys.reportedComments());
+  return moderated;
 }
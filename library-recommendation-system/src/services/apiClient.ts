@@ -0,0 +1,382 @@
+import { ApiErrorCode, ApiResponse, HttpMethod } from '@/types';
+import { getIdToken } from './auth';
+import { getBackend } from './backend';
+import { parseJson } from './httpBackend';
+import { isOnline } from './offline/connectivity';
+import { loadResponse, saveResponse } from './offline/responseCache';
+
+/**
+ * Shared request pipeline for every call in `api.ts`
+ *
+ * Handles auth headers, the Lambda proxy `{ statusCode, body }` envelope and
+ * turns every failure into an ApiError. The transport itself is the active
+ * BackendAdapter (see `backend.ts`).
+ */
+
+/**
+ * Error thrown for every failed API call
+ *
+ * @example
+ * try {
+ *   await getBook(id);
+ * } catch (error) {
+ *   if (error instanceof ApiError && error.status === 401) navigate('/login');
+ * }
+ */
+export class ApiError extends Error {
+  /** HTTP status code, or 0 when the request never reached the server */
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  /** Message parsed from the response body, if the server sent one */
+  readonly serverMessage?: string;
+  readonly method: HttpMethod;
+  readonly path: string;
+  /** Delay requested by the server's Retry-After header, in ms */
+  readonly retryAfterMs?: number;
+  /** Developer-facing explanation, e.g. which response field failed validation */
+  readonly detail?: string;
+
+  constructor(params: {
+    status: number;
+    code: ApiErrorCode;
+    method: HttpMethod;
+    path: string;
+    message?: string;
+    serverMessage?: string;
+    retryAfterMs?: number;
+    detail?: string;
+  }) {
+    super(params.message ?? params.serverMessage ?? DEFAULT_MESSAGES[params.code]);
+    this.name = 'ApiError';
+    this.status = params.status;
+    this.code = params.code;
+    this.serverMessage = params.serverMessage;
+    this.method = params.method;
+    this.path = params.path;
+    this.retryAfterMs = params.retryAfterMs;
+    this.detail = params.detail;
+  }
+}
+
+const DEFAULT_MESSAGES: Record<ApiErrorCode, string> = {
+  BAD_REQUEST: 'The request was invalid.',
+  UNAUTHORIZED: 'Please sign in to continue.',
+  FORBIDDEN: 'You do not have permission to do that.',
+  NOT_FOUND: 'The requested item could not be found.',
+  CONFLICT: 'This item was changed by someone else. Please reload and try again.',
+  VALIDATION_FAILED: 'Some of the submitted data is invalid.',
+  RATE_LIMITED: 'Too many requests. Please try again later.',
+  SERVER_ERROR: 'The server encountered an error. Please try again later.',
+  NETWORK_ERROR: 'Could not reach the server. Check your connection and try again.',
+  INVALID_RESPONSE: 'The server returned an unexpected response.',
+  ABORTED: 'The request was cancelled.',
+  UNKNOWN: 'An unexpected error occurred.',
+};
+
+/**
+ * True for errors caused by cancelling a request through its AbortSignal
+ *
+ * Callers should ignore these instead of showing an error message.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof ApiError && error.code === 'ABORTED') ||
+    (error instanceof DOMException && error.name === 'AbortError')
+  );
+}
+
+/**
+ * True for errors caused by the server being unreachable (offline, DNS, CORS)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof ApiError && error.code === 'NETWORK_ERROR';
+}
+
+/**
+ * Maps an HTTP status code to an ApiErrorCode
+ */
+export function errorCodeForStatus(status: number): ApiErrorCode {
+  if (status === 0) return 'NETWORK_ERROR';
+  if (status === 400) return 'BAD_REQUEST';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status === 422) return 'VALIDATION_FAILED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+}
+
+/**
+ * Automatic retry settings for transient failures
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt */
+  retries: number;
+  /** Backoff before the first retry, doubled on each further attempt */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Longest Retry-After the client waits out by itself; longer ones are surfaced */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 10000,
+};
+
+/** Statuses worth retrying: network failure, timeout, rate limit and gateway errors */
+const RETRYABLE_STATUSES = new Set([0, 408, 429, 500, 502, 503, 504]);
+
+/**
+ * Options accepted by request()
+ */
+export interface RequestOptions {
+  /** JSON-serialisable request body */
+  body?: unknown;
+  /** Attach the signed-in user's ID token (defaults to false for public endpoints) */
+  auth?: boolean;
+  /**
+   * Sent as the Idempotency-Key header. Makes a POST safe to retry, since the
+   * server replays the original response instead of repeating the write.
+   */
+  idempotencyKey?: string;
+  /**
+   * Sent as the If-Match header: the `updatedAt` of the copy a write is based
+   * on. The server rejects the write with 409 if the record changed since.
+   */
+  ifMatch?: string;
+  /** Marks a non-GET request as safe to retry (e.g. a read-only POST) */
+  idempotent?: boolean;
+  /** Retry settings, or false to disable retries (defaults to DEFAULT_RETRY_POLICY) */
+  retry?: RetryPolicy | false;
+  /** Cancels the request, including any pending retry */
+  signal?: AbortSignal;
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Returns how long to wait before retrying, or null if the error is final
+ */
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | null {
+  if (!(error instanceof ApiError) || !RETRYABLE_STATUSES.has(error.status)) {
+    return null;
+  }
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+  // Full jitter: a random delay up to the exponential backoff ceiling
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Waits for `ms`, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortedError(method: HttpMethod, path: string): ApiError {
+  return new ApiError({ status: 0, code: 'ABORTED', method, path });
+}
+
+/**
+ * Unwraps a Lambda proxy envelope (`{ statusCode, body: "<json>" }`) that was
+ * returned through a non-proxy API Gateway integration
+ */
+function unwrapEnvelope(data: unknown): { status?: number; data: unknown } {
+  if (
+    data !== null &&
+    typeof data === 'object' &&
+    'statusCode' in data &&
+    'body' in data &&
+    typeof data.statusCode === 'number' &&
+    typeof data.body === 'string'
+  ) {
+    return { status: data.statusCode, data: parseJson(data.body) };
+  }
+  return { data };
+}
+
+/**
+ * Extracts a human-readable message from an error response body
+ */
+function extractServerMessage(data: unknown): string | undefined {
+  if (typeof data === 'string') {
+    return data.trim() || undefined;
+  }
+  if (data === null || typeof data !== 'object') {
+    return undefined;
+  }
+  const record = data as Record<string, unknown>;
+  if (typeof record.message === 'string') return record.message;
+  if (typeof record.error === 'string') return record.error;
+  if ('body' in record) {
+    const body = typeof record.body === 'string' ? parseJson(record.body) : record.body;
+    return extractServerMessage(body);
+  }
+  return undefined;
+}
+
+/**
+ * Sends a request to the API and returns the parsed, unwrapped response body
+ *
+ * GET requests (and requests marked idempotent or carrying an idempotency key)
+ * are retried on network errors, 429 and 5xx with exponential backoff and
+ * jitter, honouring Retry-After when the server sends one. Aborting
+ * `options.signal` cancels the request and any pending retry with an
+ * ApiError of code ABORTED.
+ *
+ * Successful GET bodies are saved for offline use and served again when the
+ * server cannot be reached (see `offline/`).
+ *
+ * @throws ApiError for network failures, non-2xx responses and unparsable bodies
+ *
+ * @example
+ * const books = await request<Book[]>('GET', '/books');
+ */
+export async function request<T>(
+  method: HttpMethod,
+  path: string,
+  options: RequestOptions = {}
+): Promise<T> {
+  if (method !== 'GET') {
+    return sendWithRetry<T>(method, path, options);
+  }
+
+  try {
+    const data = await sendWithRetry<T>(method, path, options);
+    void saveResponse(path, data);
+    return data;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const cached = await loadResponse<T>(path);
+      if (cached !== undefined) return cached;
+    }
+    throw error;
+  }
+}
+
+async function sendWithRetry<T>(
+  method: HttpMethod,
+  path: string,
+  options: RequestOptions
+): Promise<T> {
+  const canRetry =
+    method === 'GET' || options.idempotent === true || options.idempotencyKey !== undefined;
+  const policy =
+    canRetry && options.retry !== false ? (options.retry ?? DEFAULT_RETRY_POLICY) : null;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendOnce<T>(method, path, options);
+    } catch (error) {
+      // Retrying is pointless while the browser knows it is offline
+      const delay =
+        policy && attempt < policy.retries && isOnline()
+          ? getRetryDelay(error, attempt, policy)
+          : null;
+      if (delay === null) {
+        throw error;
+      }
+      try {
+        await sleep(delay, options.signal);
+      } catch {
+        throw abortedError(method, path);
+      }
+    }
+  }
+}
+
+async function sendOnce<T>(method: HttpMethod, path: string, options: RequestOptions): Promise<T> {
+  if (options.signal?.aborted) {
+    throw abortedError(method, path);
+  }
+
+  const headers: Record<string, string> = options.auth ? await getAuthHeaders() : {};
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (options.idempotencyKey) {
+    headers['Idempotency-Key'] = options.idempotencyKey;
+  }
+  if (options.ifMatch) {
+    headers['If-Match'] = options.ifMatch;
+  }
+
+  let response: ApiResponse;
+  try {
+    response = await getBackend().send({
+      method,
+      path,
+      headers,
+      body: options.body,
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw abortedError(method, path);
+    }
+    throw new ApiError({
+      status: 0,
+      code: 'NETWORK_ERROR',
+      method,
+      path,
+      serverMessage: error instanceof Error ? error.message : undefined,
+      message: DEFAULT_MESSAGES.NETWORK_ERROR,
+    });
+  }
+
+  if (options.signal?.aborted) {
+    throw abortedError(method, path);
+  }
+
+  const envelope = unwrapEnvelope(response.data);
+  const status = envelope.status ?? response.status;
+
+  if (status < 200 || status >= 300) {
+    throw new ApiError({
+      status,
+      code: errorCodeForStatus(status),
+      method,
+      path,
+      serverMessage: extractServerMessage(envelope.data),
+      retryAfterMs: parseRetryAfter(response.headers['retry-after']),
+    });
+  }
+
+  return envelope.data as T;
+}
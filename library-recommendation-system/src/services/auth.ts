@@ -0,0 +1,132 @@
+import {
+  signIn,
+  signUp,
+  signOut,
+  getCurrentUser,
+  confirmSignUp,
+  fetchAuthSession,
+  fetchUserAttributes,
+} from 'aws-amplify/auth';
+import { User } from '@/types';
+import { isLocalBackend } from './backend';
+import {
+  getLocalSessionUser,
+  signInLocalUser,
+  signOutLocalUser,
+  signUpLocalUser,
+} from './local/users';
+
+/**
+ * Authentication service
+ *
+ * Uses Cognito through Amplify, or the in-browser user store when the local
+ * backend is active (see `backend.ts`).
+ */
+
+// Admin information
+const ADMIN_EMAILS = ['furkantahasaranda@gmail.com'];
+
+function getUserRole(email: string): 'user' | 'admin' {
+  return ADMIN_EMAILS.includes(email.toLowerCase()) ? 'admin' : 'user';
+}
+
+async function loadCognitoUser(fallbackEmail = ''): Promise<User> {
+  const user = await getCurrentUser();
+  const attributes = await fetchUserAttributes();
+  const userEmail = attributes.email || user.signInDetails?.loginId || fallbackEmail;
+  return {
+    id: user.userId,
+    email: userEmail,
+    name: attributes.name || user.username,
+    role: getUserRole(userEmail),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns the signed-in user, or null if nobody is signed in
+ */
+export async function getSignedInUser(): Promise<User | null> {
+  if (isLocalBackend()) {
+    return getLocalSessionUser();
+  }
+  try {
+    return await loadCognitoUser();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signs a user in
+ *
+ * @returns The signed-in user, or null if further sign-in steps are required
+ */
+export async function signInUser(email: string, password: string): Promise<User | null> {
+  if (isLocalBackend()) {
+    return signInLocalUser(email, password);
+  }
+  const { isSignedIn } = await signIn({ username: email, password });
+  return isSignedIn ? loadCognitoUser(email) : null;
+}
+
+/**
+ * Signs the current user out
+ */
+export async function signOutUser(): Promise<void> {
+  if (isLocalBackend()) {
+    signOutLocalUser();
+    return;
+  }
+  await signOut();
+}
+
+/**
+ * Registers a new user
+ */
+export async function signUpUser(email: string, password: string, name: string): Promise<void> {
+  if (isLocalBackend()) {
+    signUpLocalUser(email, password, name);
+    return;
+  }
+  await signUp({
+    username: email,
+    password,
+    options: {
+      userAttributes: {
+        email,
+        name,
+      },
+    },
+  });
+}
+
+/**
+ * Confirms a sign-up with the emailed verification code
+ *
+ * Local accounts are active immediately, so any code is accepted.
+ */
+export async function confirmUserSignUp(email: string, code: string): Promise<void> {
+  if (isLocalBackend()) {
+    return;
+  }
+  await confirmSignUp({
+    username: email,
+    confirmationCode: code,
+  });
+}
+
+/**
+ * Returns the ID token sent as the Bearer token on authenticated API calls
+ */
+export async function getIdToken(): Promise<string | null> {
+  if (isLocalBackend()) {
+    return getLocalSessionUser()?.id ?? null;
+  }
+  try {
+    const session = await fetchAuthSession();
+    return session.tokens?.idToken?.toString() ?? null;
+  } catch {
+    return null;
+  }
+}
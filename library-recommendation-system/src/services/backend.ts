@@ -0,0 +1,34 @@
+import { BackendAdapter } from '@/types';
+import { httpBackend } from './httpBackend';
+import { localBackend } from './local';
+
+/**
+ * Backend selection
+ *
+ * Set VITE_API_BACKEND=local in `.env` to run the whole app from browser
+ * storage without API Gateway or Cognito. Defaults to the HTTP backend.
+ */
+
+let activeBackend: BackendAdapter =
+  import.meta.env.VITE_API_BACKEND === 'local' ? localBackend : httpBackend;
+
+/**
+ * Returns the backend adapter every API call is sent through
+ */
+export function getBackend(): BackendAdapter {
+  return activeBackend;
+}
+
+/**
+ * Swaps the active backend adapter (used by tests)
+ */
+export function setBackend(backend: BackendAdapter): void {
+  activeBackend = backend;
+}
+
+/**
+ * True when the app is running against the in-browser backend
+ */
+export function isLocalBackend(): boolean {
+  return activeBackend.name === 'local';
+}
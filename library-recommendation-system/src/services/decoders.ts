@@ -0,0 +1,483 @@
+import {
+  Author,
+  Book,
+  BookFacets,
+  BookFormat,
+  BookReadingStatus,
+  Edition,
+  HttpMethod,
+  Page,
+  RatingDistribution,
+  ReadingList,
+  Recommendation,
+  ReportedComment,
+  ReportedReview,
+  Review,
+  ReviewComment,
+  ReviewModeration,
+  ReviewReport,
+  Series,
+} from '@/types';
+import { BOOK_FORMATS, READING_STATUSES } from '@/utils/bookQuery';
+import { ApiError } from './apiClient';
+
+/**
+ * Runtime decoders for API responses
+ *
+ * Each decoder checks an untrusted JSON value against an interface from
+ * `src/types`, coerces known legacy shapes and throws a DecodeError naming the
+ * offending field. Lists drop invalid records with a logged diagnostic; a
+ * malformed envelope or single record fails the call with an ApiError.
+ */
+
+/**
+ * Thrown by a decoder when a value does not match the expected shape
+ */
+export class DecodeError extends Error {
+  /** Name of the field that failed, e.g. `rating` */
+  readonly field: string;
+
+  constructor(field: string, expected: string, value: unknown) {
+    super(`${field}: expected ${expected}, got ${describeValue(value)}`);
+    this.name = 'DecodeError';
+    this.field = field;
+  }
+}
+
+export type Decoder<T> = (value: unknown) => T;
+
+/**
+ * Request a response belongs to, for error messages
+ */
+export interface DecodeContext {
+  method: HttpMethod;
+  path: string;
+}
+
+type Fields = Record<string, unknown>;
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return JSON.stringify(value.slice(0, 40));
+  return typeof value;
+}
+
+function asObject(value: unknown, field = 'record'): Fields {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new DecodeError(field, 'object', value);
+  }
+  return value as Fields;
+}
+
+function string(record: Fields, key: string, fallback?: string): string {
+  const value = record[key];
+  if (typeof value === 'string') return value;
+  if (value === undefined && fallback !== undefined) return fallback;
+  throw new DecodeError(key, 'string', value);
+}
+
+function optionalString(record: Fields, key: string): string | undefined {
+  return record[key] === undefined || record[key] === null ? undefined : string(record, key);
+}
+
+/**
+ * Ids were numeric in the first version of the Books table
+ */
+function id(record: Fields, key: string): string {
+  const value = record[key];
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  const result = string(record, key);
+  if (!result) throw new DecodeError(key, 'non-empty string', value);
+  return result;
+}
+
+/**
+ * Accepts numeric strings, which DynamoDB exports and older Lambdas return
+ */
+function number(record: Fields, key: string, fallback?: number): number {
+  const value = record[key];
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  if (value === undefined && fallback !== undefined) return fallback;
+  throw new DecodeError(key, 'number', value);
+}
+
+function stringArray(record: Fields, key: string): string[] | undefined {
+  const value = record[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new DecodeError(key, 'array of strings', value);
+  }
+  return value as string[];
+}
+
+/**
+ * Accepts a five-element array or a `{ "1": n, ..., "5": n }` map, the shape a
+ * DynamoDB update expression produces; books without reviews have neither
+ */
+function ratingDistribution(record: Fields, key: string): RatingDistribution {
+  const value = record[key];
+  if (value === undefined || value === null) return [0, 0, 0, 0, 0];
+  if (Array.isArray(value) && value.length !== 5) {
+    throw new DecodeError(key, 'five counts', value);
+  }
+  const counts = Array.isArray(value)
+    ? Object.fromEntries(value.map((count, index) => [String(index + 1), count]))
+    : asObject(value, key);
+  return [1, 2, 3, 4, 5].map((stars) => number(counts, String(stars), 0)) as RatingDistribution;
+}
+
+/**
+ * Reads a format case-insensitively, so "Hardcover" and "E-book" pass; other
+ * values mean the format is unknown rather than the record being invalid
+ */
+function bookFormat(record: Fields, key: string): BookFormat | undefined {
+  const value = record[key];
+  if (typeof value !== 'string') return undefined;
+  const format = value.toLowerCase().replace(/[^a-z]/g, '') as BookFormat;
+  return BOOK_FORMATS.includes(format) ? format : undefined;
+}
+
+/**
+ * Decodes an Edition; only the id is required
+ */
+export function decodeEdition(value: unknown): Edition {
+  const record = asObject(value, 'edition');
+  return {
+    id: id(record, 'id'),
+    isbn: string(record, 'isbn', ''),
+    format: bookFormat(record, 'format'),
+    publisher: string(record, 'publisher', ''),
+    publishedYear: number(record, 'publishedYear', 0),
+    coverImage: string(record, 'coverImage', ''),
+    pageCount: number(record, 'pageCount', 0),
+    language: string(record, 'language', ''),
+  };
+}
+
+/**
+ * Books from before editions existed have none
+ */
+function editions(record: Fields, key: string): Edition[] {
+  const value = record[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new DecodeError(key, 'array of editions', value);
+  return value.map(decodeEdition);
+}
+
+/**
+ * Decodes a Book; only id, title and author are required. Records from before
+ * books had several genres carry a single `genre` string instead of `genres`.
+ */
+export function decodeBook(value: unknown): Book {
+  const record = asObject(value);
+  return {
+    id: id(record, 'id'),
+    title: string(record, 'title'),
+    author: string(record, 'author'),
+    authorId: record.authorId == null ? undefined : id(record, 'authorId'),
+    genres: stringArray(record, 'genres') ?? [string(record, 'genre', '')].filter(Boolean),
+    tags: stringArray(record, 'tags') ?? [],
+    description: string(record, 'description', ''),
+    coverImage: string(record, 'coverImage', ''),
+    rating: number(record, 'rating', 0),
+    reviewCount: number(record, 'reviewCount', 0),
+    ratingDistribution: ratingDistribution(record, 'ratingDistribution'),
+    publishedYear: number(record, 'publishedYear', 0),
+    isbn: string(record, 'isbn', ''),
+    pageCount: number(record, 'pageCount', 0),
+    language: string(record, 'language', ''),
+    publisher: string(record, 'publisher', ''),
+    format: bookFormat(record, 'format'),
+    seriesId: record.seriesId == null ? undefined : id(record, 'seriesId'),
+    seriesPosition: record.seriesPosition == null ? undefined : number(record, 'seriesPosition'),
+    editions: editions(record, 'editions'),
+  };
+}
+
+/**
+ * Decodes an Author
+ */
+export function decodeAuthor(value: unknown): Author {
+  const record = asObject(value);
+  return {
+    id: id(record, 'id'),
+    name: string(record, 'name'),
+    bio: string(record, 'bio', ''),
+    photo: string(record, 'photo', ''),
+    aliases: stringArray(record, 'aliases') ?? [],
+  };
+}
+
+/**
+ * Decodes a Series
+ */
+export function decodeSeries(value: unknown): Series {
+  const record = asObject(value);
+  return {
+    id: id(record, 'id'),
+    name: string(record, 'name'),
+    description: string(record, 'description', ''),
+  };
+}
+
+/**
+ * Decodes the filter options of the catalog; unknown formats are dropped
+ */
+export function decodeBookFacets(value: unknown): BookFacets {
+  const record = asObject(value);
+  const formats = stringArray(record, 'formats') ?? [];
+  return {
+    genres: stringArray(record, 'genres') ?? [],
+    tags: stringArray(record, 'tags') ?? [],
+    languages: stringArray(record, 'languages') ?? [],
+    formats: formats.flatMap((format) => bookFormat({ format }, 'format') ?? []),
+  };
+}
+
+/**
+ * Decodes a ReadingList, accepting the legacy `books` field for `bookIds`
+ */
+export function decodeReadingList(value: unknown): ReadingList {
+  const record = asObject(value);
+  const createdAt = string(record, 'createdAt');
+  return {
+    id: id(record, 'id'),
+    userId: string(record, 'userId'),
+    name: string(record, 'name'),
+    description: string(record, 'description', ''),
+    bookIds: stringArray(record, 'bookIds') ?? stringArray(record, 'books') ?? [],
+    createdAt,
+    updatedAt: string(record, 'updatedAt', createdAt),
+  };
+}
+
+/**
+ * Decodes a BookReadingStatus; unknown statuses fail the record
+ */
+export function decodeReadingStatus(value: unknown): BookReadingStatus {
+  const record = asObject(value);
+  const status = string(record, 'status') as BookReadingStatus['status'];
+  if (!READING_STATUSES.includes(status)) {
+    throw new DecodeError('status', 'a reading status', status);
+  }
+  return {
+    bookId: id(record, 'bookId'),
+    userId: string(record, 'userId'),
+    status,
+    startedOn: optionalString(record, 'startedOn'),
+    finishedOn: optionalString(record, 'finishedOn'),
+    updatedAt: string(record, 'updatedAt'),
+  };
+}
+
+function decodeModeration(value: unknown): ReviewModeration {
+  const record = asObject(value, 'moderation');
+  const action = string(record, 'action');
+  if (action !== 'approve' && action !== 'hide') {
+    throw new DecodeError('moderation.action', '"approve" or "hide"', action);
+  }
+  return {
+    action,
+    reason: string(record, 'reason', ''),
+    moderatorId: string(record, 'moderatorId'),
+    moderatedAt: string(record, 'moderatedAt'),
+  };
+}
+
+/**
+ * Decodes a Review; ratings must be between 1 and 5. Reviews without a status
+ * predate moderation and are published.
+ */
+export function decodeReview(value: unknown): Review {
+  const record = asObject(value);
+  const rating = number(record, 'rating');
+  if (rating < 1 || rating > 5) {
+    throw new DecodeError('rating', 'number from 1 to 5', rating);
+  }
+  return {
+    id: id(record, 'id'),
+    bookId: id(record, 'bookId'),
+    userId: string(record, 'userId'),
+    userName: optionalString(record, 'userName'),
+    rating,
+    comment: string(record, 'comment', ''),
+    createdAt: string(record, 'createdAt'),
+    updatedAt: optionalString(record, 'updatedAt'),
+    helpfulCount: number(record, 'helpfulCount', 0),
+    commentCount: number(record, 'commentCount', 0),
+    status: record.status === 'hidden' ? 'hidden' : 'published',
+    moderation: record.moderation == null ? undefined : decodeModeration(record.moderation),
+  };
+}
+
+/**
+ * Decodes a ReviewComment; a comment without a status is published
+ */
+export function decodeReviewComment(value: unknown): ReviewComment {
+  const record = asObject(value);
+  return {
+    id: id(record, 'id'),
+    reviewId: id(record, 'reviewId'),
+    bookId: id(record, 'bookId'),
+    parentId: record.parentId == null ? undefined : id(record, 'parentId'),
+    userId: string(record, 'userId'),
+    userName: optionalString(record, 'userName'),
+    body: string(record, 'body'),
+    createdAt: string(record, 'createdAt'),
+    status: record.status === 'hidden' ? 'hidden' : 'published',
+    moderation: record.moderation == null ? undefined : decodeModeration(record.moderation),
+  };
+}
+
+/**
+ * Decodes a ReviewReport
+ */
+export function decodeReviewReport(value: unknown): ReviewReport {
+  const record = asObject(value);
+  return {
+    id: id(record, 'id'),
+    reviewId: id(record, 'reviewId'),
+    bookId: id(record, 'bookId'),
+    commentId: record.commentId == null ? undefined : id(record, 'commentId'),
+    userId: string(record, 'userId'),
+    reason: string(record, 'reason', ''),
+    createdAt: string(record, 'createdAt'),
+    resolvedAt: optionalString(record, 'resolvedAt'),
+  };
+}
+
+function reportList(record: Fields): ReviewReport[] {
+  const reports = record.reports ?? [];
+  if (!Array.isArray(reports)) {
+    throw new DecodeError('reports', 'array', reports);
+  }
+  return reports.map(decodeReviewReport);
+}
+
+/**
+ * Decodes an entry of the reported-review queue
+ */
+export function decodeReportedReview(value: unknown): ReportedReview {
+  const record = asObject(value);
+  return {
+    review: decodeReview(asObject(record.review, 'review')),
+    reports: reportList(record),
+  };
+}
+
+/**
+ * Decodes an entry of the reported-comment queue
+ */
+export function decodeReportedComment(value: unknown): ReportedComment {
+  const record = asObject(value);
+  return {
+    comment: decodeReviewComment(asObject(record.comment, 'comment')),
+    reports: reportList(record),
+  };
+}
+
+/**
+ * Decodes a Recommendation; early Bedrock Lambdas sent no id
+ */
+export function decodeRecommendation(value: unknown): Recommendation {
+  const record = asObject(value);
+  const bookId = id(record, 'bookId');
+  return {
+    id: record.id === undefined ? bookId : id(record, 'id'),
+    bookId,
+    reason: string(record, 'reason', ''),
+    confidence: number(record, 'confidence', 0),
+  };
+}
+
+function invalidResponse(context: DecodeContext, detail: string): ApiError {
+  console.error(`Invalid response from ${context.method} ${context.path}: ${detail}`);
+  return new ApiError({
+    status: 200,
+    code: 'INVALID_RESPONSE',
+    method: context.method,
+    path: context.path,
+    detail,
+  });
+}
+
+/**
+ * Decodes a single-record response body
+ *
+ * @throws ApiError (INVALID_RESPONSE) if the record is invalid
+ */
+export function decodeResponse<T>(decoder: Decoder<T>, data: unknown, context: DecodeContext): T {
+  try {
+    return decoder(data);
+  } catch (error) {
+    if (error instanceof DecodeError) {
+      throw invalidResponse(context, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decodes a list response body, either a bare array or an array under `key`
+ *
+ * Invalid records are dropped and logged, so one bad row cannot break a page.
+ *
+ * @throws ApiError (INVALID_RESPONSE) if the body holds no array
+ *
+ * @example
+ * const books = decodeList(decodeBook, data, { method: 'GET', path: '/books' }, 'items');
+ */
+export function decodeList<T>(
+  decoder: Decoder<T>,
+  data: unknown,
+  context: DecodeContext,
+  key?: string
+): T[] {
+  const nested =
+    key && data !== null && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Fields)[key]
+      : undefined;
+  const items = Array.isArray(nested) ? nested : data;
+
+  if (!Array.isArray(items)) {
+    throw invalidResponse(
+      context,
+      key ? `expected an array or { ${key}: [...] }` : 'expected an array'
+    );
+  }
+
+  return items.flatMap((item, index) => {
+    try {
+      return [decoder(item)];
+    } catch (error) {
+      if (!(error instanceof DecodeError)) throw error;
+      console.warn(
+        `Dropped invalid record ${index} from ${context.method} ${context.path}: ${error.message}`,
+        item
+      );
+      return [];
+    }
+  });
+}
+
+/**
+ * Decodes a cursor-paginated body, `{ items, total, nextCursor }`
+ *
+ * Invalid items are dropped as in decodeList; a missing total falls back to
+ * the number of items and a missing cursor marks the last page.
+ *
+ * @throws ApiError (INVALID_RESPONSE) if the body holds no `items` array
+ */
+export function decodePage<T>(decoder: Decoder<T>, data: unknown, context: DecodeContext): Page<T> {
+  const page = data as Partial<Page<unknown>> | null;
+  const items = decodeList(decoder, data, context, 'items');
+  return {
+    items,
+    total: typeof page?.total === 'number' ? page.total : items.length,
+    nextCursor: typeof page?.nextCursor === 'string' ? page.nextCursor : null,
+  };
+}
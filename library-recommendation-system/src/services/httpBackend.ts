@@ -0,0 +1,44 @@
+import { BackendAdapter } from '@/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+/**
+ * Parses a JSON response body, falling back to the raw text
+ */
+export function parseJson(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Backend adapter that talks to API Gateway at VITE_API_BASE_URL
+ *
+ * Network failures are thrown as-is; the request pipeline turns them into ApiErrors.
+ */
+export const httpBackend: BackendAdapter = {
+  name: 'http',
+
+  async send({ method, path, headers, body, signal }) {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal,
+    });
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      responseHeaders[name.toLowerCase()] = value;
+    });
+
+    return {
+      status: response.status,
+      headers: responseHeaders,
+      data: parseJson(await response.text()),
+    };
+  },
+};
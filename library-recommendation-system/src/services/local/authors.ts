@@ -0,0 +1,147 @@
+import { Author, AuthorInput, AuthorMergeInput } from '@/types';
+import { generateId, readTable, writeTable } from './db';
+import { LocalHttpError, LocalRoute, requireAdmin, respond } from './router';
+
+/**
+ * Local implementation of the /authors endpoints; an author's books are
+ * listed through GET /books?authorId=
+ */
+
+function nameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function namesOf(author: Author): string[] {
+  return [author.name, ...author.aliases];
+}
+
+/**
+ * Distinct trimmed names, leaving out `except` and empty ones
+ */
+function distinctNames(names: string[], except: string): string[] {
+  const seen = new Set([nameKey(except), '']);
+  return names
+    .map((name) => name.trim())
+    .filter((name) => {
+      const key = nameKey(name);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function findAuthorIndex(authors: Author[], id: string): number {
+  const index = authors.findIndex((author) => author.id === id);
+  if (index === -1) {
+    throw new LocalHttpError(404, 'Author not found');
+  }
+  return index;
+}
+
+/**
+ * Id of the author a printed name belongs to, by name or alias; creates the
+ * author if no one goes by that name yet
+ */
+export function resolveAuthorId(name: string): string | undefined {
+  const key = nameKey(name);
+  if (!key) return undefined;
+  const authors = readTable('authors');
+  const existing = authors.find((author) => namesOf(author).some((item) => nameKey(item) === key));
+  if (existing) return existing.id;
+  const author: Author = { id: generateId(), name: name.trim(), bio: '', photo: '', aliases: [] };
+  writeTable('authors', [...authors, author]);
+  return author.id;
+}
+
+export const authorRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/authors',
+    handler: () =>
+      respond({
+        items: [...readTable('authors')].sort((a, b) => a.name.localeCompare(b.name)),
+      }),
+  },
+  {
+    method: 'POST',
+    pattern: '/authors/merge',
+    handler: (context) => {
+      requireAdmin(context);
+      const { names, name } = (context.body ?? {}) as Partial<AuthorMergeInput>;
+      if (
+        !Array.isArray(names) ||
+        names.some((item) => typeof item !== 'string') ||
+        typeof name !== 'string' ||
+        !name.trim()
+      ) {
+        throw new LocalHttpError(400, 'Send the names to merge and the name to keep');
+      }
+
+      const keys = new Set([...names, name].map(nameKey));
+      const authors = readTable('authors');
+      const matched = authors.filter((author) =>
+        namesOf(author).some((item) => keys.has(nameKey(item)))
+      );
+      const target: Author = {
+        ...(matched.find((author) => nameKey(author.name) === nameKey(name)) ??
+          matched[0] ?? { id: generateId(), bio: '', photo: '', aliases: [] }),
+        name: name.trim(),
+      };
+      target.aliases = distinctNames([...matched.flatMap(namesOf), ...names], target.name);
+
+      const mergedIds = new Set(matched.map((author) => author.id));
+      writeTable('authors', [...authors.filter((author) => !mergedIds.has(author.id)), target]);
+      writeTable(
+        'books',
+        readTable('books').map((book) =>
+          (book.authorId && mergedIds.has(book.authorId)) || keys.has(nameKey(book.author))
+            ? { ...book, authorId: target.id }
+            : book
+        )
+      );
+      return respond(target);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/authors/:id',
+    handler: ({ params }) => {
+      const authors = readTable('authors');
+      return respond(authors[findAuthorIndex(authors, params.id)]);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/authors/:id',
+    handler: (context) => {
+      requireAdmin(context);
+      const authors = readTable('authors');
+      const index = findAuthorIndex(authors, context.params.id);
+      const input = (context.body ?? {}) as Partial<AuthorInput>;
+      const name = input.name?.trim();
+      if (!name) {
+        throw new LocalHttpError(400, 'Author name is required');
+      }
+      // The previous name stays an alias so books printed under it still resolve
+      const aliases = distinctNames([...(input.aliases ?? []), authors[index].name], name);
+      const keys = new Set([name, ...aliases].map(nameKey));
+      if (
+        authors.some(
+          (author, other) =>
+            other !== index && namesOf(author).some((item) => keys.has(nameKey(item)))
+        )
+      ) {
+        throw new LocalHttpError(409, 'Another author goes by one of these names; merge them');
+      }
+      authors[index] = {
+        ...authors[index],
+        name,
+        bio: input.bio ?? '',
+        photo: input.photo ?? '',
+        aliases,
+      };
+      writeTable('authors', authors);
+      return respond(authors[index]);
+    },
+  },
+];
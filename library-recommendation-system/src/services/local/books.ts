@@ -0,0 +1,237 @@
+import { Book, BookInput, BookSortField } from '@/types';
+import { collectBookFacets, compareBooks, filterBooks, parseBookQuery } from '@/utils/bookQuery';
+import { normalizeBookInput } from '@/utils/bookInput';
+import { listEditions } from '@/utils/editions';
+import { summarizeRatings } from '@/utils/ratings';
+import { generateId, readTable, writeTable } from './db';
+import { resolveAuthorId } from './authors';
+import { PageOrder, paginate } from './pagination';
+import { nextUpdatedAt } from './readingLists';
+import { readingStatusBookIds } from './readingStatuses';
+import { removeReview, writeReviews } from './reviews';
+import { requireKnownSeries } from './series';
+import { LocalHttpError, LocalRoute, requireAdmin, respond } from './router';
+
+/**
+ * Local implementation of the /books endpoints
+ */
+
+/**
+ * Page order of GET /books for a sort field
+ */
+function bookOrder(sort: BookSortField | undefined): PageOrder<Book> {
+  return {
+    compare: (a, b) => compareBooks(a, b, sort),
+    keyFields: ['title', 'author', 'rating', 'publishedYear', 'seriesPosition'],
+  };
+}
+
+/**
+ * Admin input without the id or the rating aggregates, which only reviews
+ * change; fields the body leaves out get their empty values
+ */
+function bookInput(body: unknown): BookInput {
+  const derived = new Set(['rating', 'reviewCount', 'ratingDistribution', 'id']);
+  const input = normalizeBookInput(
+    Object.fromEntries(
+      Object.entries((body ?? {}) as Partial<Book>).filter(([key]) => !derived.has(key))
+    )
+  ) as Partial<BookInput>;
+  requireKnownSeries(input.seriesId);
+  return {
+    ...(input as BookInput),
+    // Linked by the printed name; a name nobody goes by yet creates its author
+    authorId: resolveAuthorId(input.author ?? ''),
+    genres: input.genres ?? [],
+    tags: input.tags ?? [],
+    pageCount: input.pageCount ?? 0,
+    language: input.language ?? '',
+    publisher: input.publisher ?? '',
+    editions: (input.editions ?? []).map((edition) => ({
+      ...edition,
+      id: edition.id || generateId(),
+    })),
+  };
+}
+
+function findBookIndex(books: Book[], id: string): number {
+  const index = books.findIndex((book) => book.id === id);
+  if (index === -1) {
+    throw new LocalHttpError(404, 'Book not found');
+  }
+  return index;
+}
+
+/**
+ * Moves everything attached to the duplicate books onto the work they were
+ * merged into. A reader who reviewed both keeps their review of the work;
+ * the duplicate's review goes with its votes, reports and comments.
+ */
+function moveToWork(workId: string, duplicateIds: Set<string>): void {
+  const reviewers = new Set(
+    readTable('reviews')
+      .filter((review) => review.bookId === workId)
+      .map((review) => review.userId)
+  );
+  const dropped: string[] = [];
+  readTable('reviews')
+    .filter((review) => duplicateIds.has(review.bookId))
+    .forEach((review) => {
+      if (reviewers.has(review.userId)) dropped.push(review.id);
+      reviewers.add(review.userId);
+    });
+  dropped.forEach((id) => {
+    const reviews = readTable('reviews');
+    removeReview(
+      reviews,
+      reviews.findIndex((review) => review.id === id)
+    );
+  });
+
+  const retarget = <T extends { bookId: string }>(row: T): T =>
+    duplicateIds.has(row.bookId) ? { ...row, bookId: workId } : row;
+  writeTable('reviewComments', readTable('reviewComments').map(retarget));
+  writeTable('reviewReports', readTable('reviewReports').map(retarget));
+  writeTable('moderationLog', readTable('moderationLog').map(retarget));
+  writeReviews(workId, readTable('reviews').map(retarget));
+
+  // Likewise a reader's status for the work wins over one for a duplicate
+  const readers = new Set(
+    readTable('readingStatuses')
+      .filter((entry) => entry.bookId === workId)
+      .map((entry) => entry.userId)
+  );
+  const statuses = readTable('readingStatuses').filter((entry) => {
+    if (!duplicateIds.has(entry.bookId)) return true;
+    if (readers.has(entry.userId)) return false;
+    readers.add(entry.userId);
+    return true;
+  });
+  writeTable('readingStatuses', statuses.map(retarget));
+  writeTable(
+    'readingLists',
+    readTable('readingLists').map((list) =>
+      list.bookIds.some((id) => duplicateIds.has(id))
+        ? {
+            ...list,
+            bookIds: [...new Set(list.bookIds.map((id) => (duplicateIds.has(id) ? workId : id)))],
+            // A new version so If-Match rejects writes based on the old ids
+            updatedAt: nextUpdatedAt(list.updatedAt),
+          }
+        : list
+    )
+  );
+}
+
+export const bookRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/books',
+    handler: (context) => {
+      const query = parseBookQuery(context.query);
+      let books = readTable('books');
+      if (query.readingStatus) {
+        const ids = readingStatusBookIds(context, query.userId, query.readingStatus);
+        books = books.filter((book) => ids.has(book.id));
+      }
+      return respond(paginate(filterBooks(books, query), query, bookOrder(query.sort)));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/batch',
+    handler: ({ body }) => {
+      const { ids } = (body ?? {}) as { ids?: unknown };
+      if (!Array.isArray(ids) || ids.length > 100 || ids.some((id) => typeof id !== 'string')) {
+        throw new LocalHttpError(400, 'Send at most 100 ids');
+      }
+      const requested = new Set(ids as string[]);
+      return respond({ items: readTable('books').filter((book) => requested.has(book.id)) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/books/facets',
+    handler: () => respond(collectBookFacets(readTable('books'))),
+  },
+  {
+    method: 'GET',
+    pattern: '/books/:id',
+    handler: ({ params }) => {
+      const books = readTable('books');
+      return respond(books[findBookIndex(books, params.id)]);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books',
+    handler: (context) => {
+      requireAdmin(context);
+      const books = readTable('books');
+      const book = { ...bookInput(context.body), ...summarizeRatings([]), id: generateId() };
+      writeTable('books', [...books, book]);
+      return respond(book, 201);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/merge',
+    handler: (context) => {
+      requireAdmin(context);
+      const { bookIds } = (context.body ?? {}) as { bookIds?: unknown };
+      if (
+        !Array.isArray(bookIds) ||
+        bookIds.length === 0 ||
+        bookIds.some((id) => typeof id !== 'string' || id === context.params.id)
+      ) {
+        throw new LocalHttpError(400, 'Send the ids of the other books to merge');
+      }
+      const books = readTable('books');
+      const work = books[findBookIndex(books, context.params.id)];
+      const duplicateIds = new Set(bookIds as string[]);
+      const duplicates = books.filter((book) => duplicateIds.has(book.id));
+      if (duplicates.length !== duplicateIds.size) {
+        throw new LocalHttpError(404, 'Book not found');
+      }
+      // Each duplicate becomes an edition of the work, or several if it had them
+      const editions = [...listEditions(work), ...duplicates.flatMap(listEditions)];
+      writeTable(
+        'books',
+        books
+          .filter((book) => !duplicateIds.has(book.id))
+          .map((book) => (book.id === work.id ? { ...book, editions } : book))
+      );
+      moveToWork(work.id, duplicateIds);
+      const merged = readTable('books');
+      return respond(merged[findBookIndex(merged, work.id)]);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/books/:id',
+    handler: (context) => {
+      requireAdmin(context);
+      const books = readTable('books');
+      const index = findBookIndex(books, context.params.id);
+      // PUT replaces the details, so optional fields left out are cleared
+      const { id, rating, reviewCount, ratingDistribution } = books[index];
+      books[index] = { ...bookInput(context.body), rating, reviewCount, ratingDistribution, id };
+      writeTable('books', books);
+      return respond(books[index]);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/books/:id',
+    handler: (context) => {
+      requireAdmin(context);
+      const books = readTable('books');
+      findBookIndex(books, context.params.id);
+      writeTable(
+        'books',
+        books.filter((book) => book.id !== context.params.id)
+      );
+      return respond(null, 204);
+    },
+  },
+];
@@ -0,0 +1,172 @@
+import { ReviewComment } from '@/types';
+import { LocalUser, generateId, readTable, writeTable } from './db';
+import { findBookReviewIndex, isVisibleTo } from './reviews';
+import { LocalHttpError, LocalRequestContext, LocalRoute, requireUser, respond } from './router';
+
+/**
+ * Local implementation of the /books/{id}/reviews/{reviewId}/comments endpoints
+ */
+
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Fills in the author's current name, as the Lambda does from the Users table
+ */
+function withAuthorName(comment: ReviewComment, users: LocalUser[]): ReviewComment {
+  return { ...comment, userName: users.find((user) => user.id === comment.userId)?.name };
+}
+
+/**
+ * Saves the comments table and recounts the published comments of the review
+ */
+export function writeComments(reviewId: string, comments: ReviewComment[]): void {
+  writeTable('reviewComments', comments);
+  const commentCount = comments.filter(
+    (comment) => comment.reviewId === reviewId && comment.status !== 'hidden'
+  ).length;
+  writeTable(
+    'reviews',
+    readTable('reviews').map((review) =>
+      review.id === reviewId ? { ...review, commentCount } : review
+    )
+  );
+}
+
+/**
+ * Deletes a comment along with its replies and the reports against them
+ */
+export function removeComment(comments: ReviewComment[], index: number): void {
+  const { id, reviewId } = comments[index];
+  const removed = new Set(
+    comments
+      .filter((comment) => comment.id === id || comment.parentId === id)
+      .map((comment) => comment.id)
+  );
+  writeComments(
+    reviewId,
+    comments.filter((comment) => !removed.has(comment.id))
+  );
+  writeTable(
+    'reviewReports',
+    readTable('reviewReports').filter(
+      (report) => !report.commentId || !removed.has(report.commentId)
+    )
+  );
+}
+
+/**
+ * Finds a comment under the review in the path that the caller may see,
+ * failing with 404
+ */
+export function findCommentIndex(comments: ReviewComment[], context: LocalRequestContext): number {
+  const reviews = readTable('reviews');
+  const review = reviews[findBookReviewIndex(reviews, context)];
+  const index = comments.findIndex(
+    (comment) => comment.id === context.params.commentId && comment.reviewId === review.id
+  );
+  if (index === -1 || !isVisibleTo(comments[index], context.user)) {
+    throw new LocalHttpError(404, 'Comment not found');
+  }
+  return index;
+}
+
+export const commentRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/books/:id/reviews/:reviewId/comments',
+    handler: (context) => {
+      const reviews = readTable('reviews');
+      const review = reviews[findBookReviewIndex(reviews, context)];
+      const users = readTable('users');
+      const items = readTable('reviewComments')
+        .filter((comment) => comment.reviewId === review.id && isVisibleTo(comment, context.user))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((comment) => withAuthorName(comment, users));
+      return respond({ items });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/reviews/:reviewId/comments',
+    handler: (context) => {
+      const user = requireUser(context);
+      const reviews = readTable('reviews');
+      const review = reviews[findBookReviewIndex(reviews, context)];
+      const { body, parentId } = (context.body ?? {}) as { body?: unknown; parentId?: unknown };
+      if (typeof body !== 'string' || !body.trim() || body.length > MAX_COMMENT_LENGTH) {
+        throw new LocalHttpError(
+          400,
+          `Write a comment of at most ${MAX_COMMENT_LENGTH} characters`
+        );
+      }
+
+      const comments = readTable('reviewComments');
+      if (parentId !== undefined && parentId !== null) {
+        const parent = comments.find(
+          (comment) => comment.id === parentId && comment.reviewId === review.id
+        );
+        if (!parent || !isVisibleTo(parent, user)) {
+          throw new LocalHttpError(400, 'The comment you replied to does not exist');
+        }
+        if (parent.parentId) {
+          throw new LocalHttpError(400, 'Replies cannot have replies of their own');
+        }
+      }
+
+      const comment: ReviewComment = {
+        id: generateId(),
+        reviewId: review.id,
+        bookId: review.bookId,
+        parentId: typeof parentId === 'string' ? parentId : undefined,
+        userId: user.id,
+        body: body.trim(),
+        createdAt: new Date().toISOString(),
+        status: 'published',
+      };
+      writeComments(review.id, [...comments, comment]);
+      return respond(withAuthorName(comment, readTable('users')), 201);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/books/:id/reviews/:reviewId/comments/:commentId',
+    handler: (context) => {
+      const user = requireUser(context);
+      const comments = readTable('reviewComments');
+      const index = findCommentIndex(comments, context);
+      if (comments[index].userId !== user.id && user.role !== 'admin') {
+        throw new LocalHttpError(403, 'You can only delete your own comments');
+      }
+      removeComment(comments, index);
+      return respond(null, 204);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/reviews/:reviewId/comments/:commentId/reports',
+    handler: (context) => {
+      const user = requireUser(context);
+      const comments = readTable('reviewComments');
+      const comment = comments[findCommentIndex(comments, context)];
+      const { reason } = (context.body ?? {}) as { reason?: unknown };
+      if (typeof reason !== 'string' || !reason.trim() || reason.length > 500) {
+        throw new LocalHttpError(400, 'Give a reason of at most 500 characters');
+      }
+      const reports = readTable('reviewReports');
+      if (reports.some((report) => report.commentId === comment.id && report.userId === user.id)) {
+        throw new LocalHttpError(409, 'You have already reported this comment');
+      }
+      const report = {
+        id: generateId(),
+        reviewId: comment.reviewId,
+        bookId: comment.bookId,
+        commentId: comment.id,
+        userId: user.id,
+        reason: reason.trim(),
+        createdAt: new Date().toISOString(),
+      };
+      writeTable('reviewReports', [...reports, report]);
+      return respond(report, 201);
+    },
+  },
+];
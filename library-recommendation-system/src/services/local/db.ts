@@ -0,0 +1,136 @@
+import {
+  Author,
+  Book,
+  BookReadingStatus,
+  ModerationAction,
+  RatingSummary,
+  ReadingList,
+  Review,
+  ReviewComment,
+  ReviewReport,
+  Series,
+  User,
+} from '@/types';
+import { summarizeRatings } from '@/utils/ratings';
+import {
+  mockAuthors,
+  mockBooks,
+  mockReadingLists,
+  mockReadingStatuses,
+  mockReviewComments,
+  mockReviews,
+  mockSeries,
+  mockUsers,
+} from '../mockData';
+
+/**
+ * Browser-storage tables behind the local backend
+ *
+ * Each table is a JSON array in localStorage, seeded from `mockData.ts` the
+ * first time it is read.
+ */
+
+/**
+ * User record as stored by the local backend
+ */
+export interface LocalUser extends User {
+  password: string;
+}
+
+/**
+ * A reader's "helpful" vote on a review; at most one per reader and review
+ */
+export interface LocalHelpfulVote {
+  reviewId: string;
+  userId: string;
+}
+
+/**
+ * Audit record of an admin's moderation decision
+ */
+export interface LocalModerationLogEntry {
+  id: string;
+  reviewId: string;
+  bookId: string;
+  /** Set when the decision was about a comment on the review */
+  commentId?: string;
+  action: ModerationAction;
+  reason: string;
+  moderatorId: string;
+  createdAt: string;
+}
+
+interface LocalTables {
+  books: Book[];
+  authors: Author[];
+  series: Series[];
+  readingLists: ReadingList[];
+  readingStatuses: BookReadingStatus[];
+  reviews: Review[];
+  reviewComments: ReviewComment[];
+  helpfulVotes: LocalHelpfulVote[];
+  reviewReports: ReviewReport[];
+  moderationLog: LocalModerationLogEntry[];
+  users: LocalUser[];
+}
+
+const STORAGE_PREFIX = 'library.local.';
+
+/**
+ * Rating aggregates of a book, computed from the given reviews table; hidden
+ * reviews do not count
+ */
+export function bookRatingSummary(bookId: string, reviews: Review[]): RatingSummary {
+  return summarizeRatings(
+    reviews
+      .filter((review) => review.bookId === bookId && review.status !== 'hidden')
+      .map((review) => review.rating)
+  );
+}
+
+const seeds: { [K in keyof LocalTables]: LocalTables[K] } = {
+  books: mockBooks.map((book) => ({ ...book, ...bookRatingSummary(book.id, mockReviews) })),
+  authors: mockAuthors,
+  series: mockSeries,
+  readingLists: mockReadingLists,
+  readingStatuses: mockReadingStatuses,
+  reviews: mockReviews,
+  reviewComments: mockReviewComments,
+  helpfulVotes: [],
+  reviewReports: [],
+  moderationLog: [],
+  users: mockUsers,
+};
+
+/**
+ * Reads every row of a table, seeding it on first use
+ */
+export function readTable<K extends keyof LocalTables>(name: K): LocalTables[K] {
+  const raw = localStorage.getItem(STORAGE_PREFIX + name);
+  if (raw === null) {
+    writeTable(name, seeds[name]);
+    return JSON.parse(JSON.stringify(seeds[name]));
+  }
+  return JSON.parse(raw);
+}
+
+/**
+ * Replaces every row of a table
+ */
+export function writeTable<K extends keyof LocalTables>(name: K, rows: LocalTables[K]): void {
+  localStorage.setItem(STORAGE_PREFIX + name, JSON.stringify(rows));
+}
+
+/**
+ * Clears all local tables so the next read re-seeds them
+ */
+export function resetLocalDatabase(): void {
+  Object.keys(seeds).forEach((name) => localStorage.removeItem(STORAGE_PREFIX + name));
+}
+
+/**
+ * Generates an id for a new record
+ */
+export function generateId(): string {
+  return crypto.randomUUID();
+}
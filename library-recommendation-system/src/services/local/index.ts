@@ -0,0 +1,77 @@
+import { ApiResponse, BackendAdapter } from '@/types';
+import { findLocalUser } from './users';
+import { bookRoutes } from './books';
+import { authorRoutes } from './authors';
+import { seriesRoutes } from './series';
+import { readingListRoutes } from './readingLists';
+import { readingStatusRoutes } from './readingStatuses';
+import { reviewRoutes } from './reviews';
+import { commentRoutes } from './comments';
+import { moderationRoutes } from './moderation';
+import { recommendationRoutes } from './recommendations';
+import { LocalHttpError, LocalRoute, matchRoute, respond } from './router';
+
+/**
+ * In-browser backend (VITE_API_BACKEND=local)
+ *
+ * Serves the same endpoints as API Gateway from localStorage so the app runs
+ * without AWS for demos, offline development and UI tests.
+ */
+
+/** Responses to POSTs that carried an Idempotency-Key, replayed on retry */
+const idempotentResponses = new Map<string, ApiResponse>();
+
+const routes: LocalRoute[] = [
+  ...bookRoutes,
+  ...authorRoutes,
+  ...seriesRoutes,
+  ...readingListRoutes,
+  ...readingStatusRoutes,
+  ...reviewRoutes,
+  ...commentRoutes,
+  ...moderationRoutes,
+  ...recommendationRoutes,
+];
+
+export const localBackend: BackendAdapter = {
+  name: 'local',
+
+  async send({ method, path, headers, body }) {
+    const url = new URL(path, 'http://localhost');
+    const match = matchRoute(routes, method, url.pathname);
+    if (!match) {
+      return respond({ message: `No route for ${method} ${url.pathname}` }, 404);
+    }
+
+    const idempotencyKey = headers['Idempotency-Key'];
+    const replayed = idempotencyKey && idempotentResponses.get(idempotencyKey);
+    if (replayed) {
+      return replayed;
+    }
+
+    const token = headers.Authorization?.replace(/^Bearer\s+/, '');
+    let response: ApiResponse;
+    try {
+      response = await match.route.handler({
+        params: match.params,
+        query: url.searchParams,
+        headers,
+        body: body === undefined ? undefined : JSON.parse(JSON.stringify(body)),
+        user: (token && findLocalUser(token)) || null,
+      });
+    } catch (error) {
+      if (error instanceof LocalHttpError) {
+        return respond({ message: error.message }, error.status);
+      }
+      console.error('Local backend error:', error);
+      return respond({ message: 'Internal server error' }, 500);
+    }
+
+    if (idempotencyKey && response.status < 500) {
+      idempotentResponses.set(idempotencyKey, response);
+    }
+    return response;
+  },
+};
+
+export { resetLocalDatabase } from './db';
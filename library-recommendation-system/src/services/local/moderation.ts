@@ -0,0 +1,195 @@
+import {
+  ModerationAction,
+  ReportedComment,
+  ReportedReview,
+  ReviewModeration,
+  ReviewReport,
+} from '@/types';
+import { LocalModerationLogEntry, generateId, readTable, writeTable } from './db';
+import { findCommentIndex, removeComment, writeComments } from './comments';
+import { paginate } from './pagination';
+import { findBookReviewIndex, removeReview, reviewOrder, writeReviews } from './reviews';
+import { LocalHttpError, LocalRequestContext, LocalRoute, requireAdmin, respond } from './router';
+
+/**
+ * Local implementation of the admin moderation endpoints for reviews and
+ * their comments
+ */
+
+const ACTIONS: ModerationAction[] = ['approve', 'hide', 'delete'];
+
+/**
+ * Validates a moderation request, logs the decision and resolves the open
+ * reports it settles
+ *
+ * @returns The action, and the moderation record to store unless it is a delete
+ */
+function recordDecision(
+  context: LocalRequestContext,
+  target: Pick<LocalModerationLogEntry, 'reviewId' | 'bookId' | 'commentId'>
+): { action: ModerationAction; moderation: ReviewModeration | null } {
+  const admin = requireAdmin(context);
+  const { action, reason } = (context.body ?? {}) as {
+    action?: ModerationAction;
+    reason?: unknown;
+  };
+  if (!action || !ACTIONS.includes(action)) {
+    throw new LocalHttpError(400, 'Action must be approve, hide or delete');
+  }
+  if (typeof reason !== 'string' || reason.length > 500) {
+    throw new LocalHttpError(400, 'Give a reason of at most 500 characters');
+  }
+  if (action !== 'approve' && !reason.trim()) {
+    throw new LocalHttpError(400, 'Give a reason for hiding or deleting');
+  }
+
+  const now = new Date().toISOString();
+  writeTable('moderationLog', [
+    ...readTable('moderationLog'),
+    {
+      id: generateId(),
+      ...target,
+      action,
+      reason: reason.trim(),
+      moderatorId: admin.id,
+      createdAt: now,
+    },
+  ]);
+  writeTable(
+    'reviewReports',
+    readTable('reviewReports').map((report) =>
+      report.reviewId === target.reviewId &&
+      report.commentId === target.commentId &&
+      !report.resolvedAt
+        ? { ...report, resolvedAt: now }
+        : report
+    )
+  );
+  return {
+    action,
+    moderation:
+      action === 'delete'
+        ? null
+        : { action, reason: reason.trim(), moderatorId: admin.id, moderatedAt: now },
+  };
+}
+
+/**
+ * Open reports grouped by what they are about, most-reported first
+ */
+function reportQueue<T extends { id: string }>(
+  items: T[],
+  reports: ReviewReport[],
+  reportedId: (report: ReviewReport) => string | undefined
+): Array<{ item: T; reports: ReviewReport[] }> {
+  return items
+    .map((item) => ({
+      item,
+      reports: reports
+        .filter((report) => reportedId(report) === item.id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    }))
+    .filter((entry) => entry.reports.length > 0)
+    .sort(
+      (a, b) =>
+        b.reports.length - a.reports.length ||
+        b.reports[0].createdAt.localeCompare(a.reports[0].createdAt)
+    );
+}
+
+export const moderationRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/reviews/reported',
+    handler: (context) => {
+      requireAdmin(context);
+      const reports = readTable('reviewReports').filter((report) => !report.resolvedAt);
+      const items: ReportedReview[] = reportQueue(readTable('reviews'), reports, (report) =>
+        report.commentId ? undefined : report.reviewId
+      ).map(({ item, reports }) => ({ review: item, reports }));
+      return respond({ items });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/comments/reported',
+    handler: (context) => {
+      requireAdmin(context);
+      const reports = readTable('reviewReports').filter((report) => !report.resolvedAt);
+      const users = readTable('users');
+      const items: ReportedComment[] = reportQueue(
+        readTable('reviewComments'),
+        reports,
+        (report) => report.commentId
+      ).map(({ item, reports }) => ({
+        comment: { ...item, userName: users.find((user) => user.id === item.userId)?.name },
+        reports,
+      }));
+      return respond({ items });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/reviews',
+    handler: (context) => {
+      requireAdmin(context);
+      const limit = Number(context.query.get('limit')) || undefined;
+      const cursor = context.query.get('cursor') || undefined;
+      const order = reviewOrder('newest');
+      return respond(paginate(readTable('reviews').sort(order.compare), { limit, cursor }, order));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/reviews/:reviewId/moderation',
+    handler: (context) => {
+      requireAdmin(context);
+      const reviews = readTable('reviews');
+      const index = findBookReviewIndex(reviews, context);
+      const review = reviews[index];
+      const { action, moderation } = recordDecision(context, {
+        reviewId: review.id,
+        bookId: review.bookId,
+      });
+
+      if (!moderation) {
+        removeReview(reviews, index);
+        return respond(null, 204);
+      }
+      reviews[index] = {
+        ...review,
+        status: action === 'hide' ? 'hidden' : 'published',
+        moderation,
+      };
+      writeReviews(review.bookId, reviews);
+      return respond(reviews[index]);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/reviews/:reviewId/comments/:commentId/moderation',
+    handler: (context) => {
+      requireAdmin(context);
+      const comments = readTable('reviewComments');
+      const index = findCommentIndex(comments, context);
+      const comment = comments[index];
+      const { action, moderation } = recordDecision(context, {
+        reviewId: comment.reviewId,
+        bookId: comment.bookId,
+        commentId: comment.id,
+      });
+
+      if (!moderation) {
+        removeComment(comments, index);
+        return respond(null, 204);
+      }
+      comments[index] = {
+        ...comment,
+        status: action === 'hide' ? 'hidden' : 'published',
+        moderation,
+      };
+      writeComments(comment.reviewId, comments);
+      return respond(comments[index]);
+    },
+  },
+];
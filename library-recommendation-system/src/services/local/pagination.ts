@@ -0,0 +1,70 @@
+import { Page } from '@/types';
+import { LocalHttpError } from './router';
+
+/**
+ * Cursor pagination shared by the local list endpoints
+ */
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * How a list endpoint orders its records, so a cursor can resume after the
+ * last record even once that record is deleted or stops matching
+ */
+export interface PageOrder<T> {
+  /** The comparator the records are sorted with; it must break ties by id */
+  compare: (a: T, b: T) => number;
+  /** Fields besides the id that `compare` reads */
+  keyFields: (keyof T)[];
+}
+
+/**
+ * Cursors mirror DynamoDB's LastEvaluatedKey: the sort key and id of the last
+ * record on the previous page, base64-encoded so clients treat it as opaque
+ */
+function encodeCursor<T extends { id: string }>(record: T, keyFields: (keyof T)[]): string {
+  const key: Partial<T> = { id: record.id } as Partial<T>;
+  keyFields.forEach((field) => {
+    key[field] = record[field];
+  });
+  return btoa(JSON.stringify(key));
+}
+
+function decodeCursor<T>(cursor: string): T {
+  try {
+    const key = JSON.parse(atob(cursor)) as { id?: unknown } | null;
+    if (typeof key?.id === 'string') return key as T;
+  } catch {
+    // Falls through to the error below
+  }
+  throw new LocalHttpError(400, 'Invalid cursor');
+}
+
+/**
+ * Returns the page of already filtered and sorted records after `cursor`
+ */
+export function paginate<T extends { id: string }>(
+  matches: T[],
+  { limit, cursor }: { limit?: number; cursor?: string },
+  { compare, keyFields }: PageOrder<T>
+): Page<T> {
+  const size = Math.min(Math.max(1, limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+  let start = 0;
+  if (cursor) {
+    // The first record ordered after the cursor's key, whether or not the
+    // record the key was taken from is still in the list
+    const last = decodeCursor<T>(cursor);
+    const index = matches.findIndex((record) => compare(last, record) < 0);
+    start = index === -1 ? matches.length : index;
+  }
+  const items = matches.slice(start, start + size);
+  const hasMore = start + size < matches.length;
+
+  return {
+    items,
+    total: matches.length,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1], keyFields) : null,
+  };
+}
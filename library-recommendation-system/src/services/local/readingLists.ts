@@ -0,0 +1,190 @@
+import { ReadingList } from '@/types';
+import { generateId, readTable, writeTable } from './db';
+import { LocalHttpError, LocalRequestContext, LocalRoute, requireUser, respond } from './router';
+
+/**
+ * Local implementation of the /reading-lists endpoints
+ */
+
+/**
+ * Finds a list owned by the signed-in user, failing with 404/403
+ */
+function findOwnedListIndex(
+  lists: ReadingList[],
+  context: LocalRequestContext,
+  id = context.params.id
+): number {
+  const user = requireUser(context);
+  const index = lists.findIndex((list) => list.id === id);
+  if (index === -1) {
+    throw new LocalHttpError(404, 'Reading list not found');
+  }
+  if (lists[index].userId !== user.id) {
+    throw new LocalHttpError(403, 'You do not have access to this reading list');
+  }
+  return index;
+}
+
+/**
+ * A timestamp later than `previous`, so two writes in the same millisecond
+ * still get different versions
+ */
+export function nextUpdatedAt(previous: string): string {
+  const now = Date.now();
+  const last = Date.parse(previous);
+  return new Date(Number.isNaN(last) || now > last ? now : last + 1).toISOString();
+}
+
+/**
+ * Reads `bookId` from the request body and checks the book exists
+ */
+function requireBookId(body: unknown): string {
+  const { bookId } = (body ?? {}) as { bookId?: unknown };
+  if (typeof bookId !== 'string' || !bookId) {
+    throw new LocalHttpError(400, 'bookId is required');
+  }
+  if (!readTable('books').some((book) => book.id === bookId)) {
+    throw new LocalHttpError(404, 'Book not found');
+  }
+  return bookId;
+}
+
+function withBookIds(list: ReadingList, bookIds: string[]): ReadingList {
+  return bookIds === list.bookIds
+    ? list
+    : { ...list, bookIds, updatedAt: nextUpdatedAt(list.updatedAt) };
+}
+
+export const readingListRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/reading-lists',
+    handler: (context) => {
+      const user = requireUser(context);
+      return respond(readTable('readingLists').filter((list) => list.userId === user.id));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/reading-lists',
+    handler: (context) => {
+      const user = requireUser(context);
+      const input = context.body as Partial<ReadingList>;
+      const now = new Date().toISOString();
+      const list: ReadingList = {
+        id: generateId(),
+        userId: user.id,
+        name: input.name ?? '',
+        description: input.description ?? '',
+        bookIds: input.bookIds ?? [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      writeTable('readingLists', [...readTable('readingLists'), list]);
+      return respond(list, 201);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/reading-lists/:id',
+    handler: (context) => {
+      const lists = readTable('readingLists');
+      return respond(lists[findOwnedListIndex(lists, context)]);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/reading-lists/:id',
+    handler: (context) => {
+      const lists = readTable('readingLists');
+      const index = findOwnedListIndex(lists, context);
+      const input = context.body as Partial<ReadingList>;
+      // Conditional write: the client sends the updatedAt its change is based on
+      const expected = context.headers['If-Match'];
+      if (expected && expected !== lists[index].updatedAt) {
+        throw new LocalHttpError(409, 'This reading list was changed somewhere else');
+      }
+      lists[index] = {
+        ...lists[index],
+        name: input.name ?? lists[index].name,
+        description: input.description ?? lists[index].description,
+        bookIds: input.bookIds ?? lists[index].bookIds,
+        updatedAt: nextUpdatedAt(lists[index].updatedAt),
+      };
+      writeTable('readingLists', lists);
+      return respond(lists[index]);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/reading-lists/:id/books',
+    handler: (context) => {
+      const lists = readTable('readingLists');
+      const index = findOwnedListIndex(lists, context);
+      const bookId = requireBookId(context.body);
+      const list = lists[index];
+      lists[index] = withBookIds(
+        list,
+        list.bookIds.includes(bookId) ? list.bookIds : [...list.bookIds, bookId]
+      );
+      writeTable('readingLists', lists);
+      return respond(lists[index]);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/reading-lists/:id/books/:bookId',
+    handler: (context) => {
+      const lists = readTable('readingLists');
+      const index = findOwnedListIndex(lists, context);
+      const list = lists[index];
+      const bookIds = list.bookIds.filter((bookId) => bookId !== context.params.bookId);
+      lists[index] = withBookIds(
+        list,
+        bookIds.length === list.bookIds.length ? list.bookIds : bookIds
+      );
+      writeTable('readingLists', lists);
+      return respond(lists[index]);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/reading-lists',
+    handler: (context) => {
+      const { listIds } = (context.body ?? {}) as { listIds?: unknown };
+      if (
+        !Array.isArray(listIds) ||
+        listIds.length === 0 ||
+        listIds.length > 100 ||
+        listIds.some((id) => typeof id !== 'string')
+      ) {
+        throw new LocalHttpError(400, 'Send between 1 and 100 list ids');
+      }
+      const bookId = requireBookId({ bookId: context.params.id });
+      const lists = readTable('readingLists');
+      // Check every list before changing any, so the request succeeds or fails as a whole
+      const indexes = (listIds as string[]).map((id) => findOwnedListIndex(lists, context, id));
+      indexes.forEach((index) => {
+        const list = lists[index];
+        if (!list.bookIds.includes(bookId)) {
+          lists[index] = withBookIds(list, [...list.bookIds, bookId]);
+        }
+      });
+      writeTable('readingLists', lists);
+      return respond({ items: indexes.map((index) => lists[index]) });
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/reading-lists/:id',
+    handler: (context) => {
+      const lists = readTable('readingLists');
+      const index = findOwnedListIndex(lists, context);
+      writeTable(
+        'readingLists',
+        lists.filter((_, i) => i !== index)
+      );
+      return respond(null, 204);
+    },
+  },
+];
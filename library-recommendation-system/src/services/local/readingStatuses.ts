@@ -0,0 +1,111 @@
+import { BookReadingStatus, ReadingStatus, ReadingStatusInput } from '@/types';
+import { READING_STATUSES } from '@/utils/bookQuery';
+import { isDay } from '@/utils/readingStatus';
+import { LocalUser, readTable, writeTable } from './db';
+import { LocalHttpError, LocalRequestContext, LocalRoute, requireUser, respond } from './router';
+
+/**
+ * Local implementation of the /users/{userId}/reading-statuses endpoints
+ */
+
+/**
+ * The signed-in reader, failing with 403 unless they are `userId`
+ */
+function requireReader(context: LocalRequestContext, userId: string | undefined): LocalUser {
+  const user = requireUser(context);
+  if (userId !== user.id) {
+    throw new LocalHttpError(403, 'You can only use your own reading status');
+  }
+  return user;
+}
+
+/**
+ * Ids of the books the signed-in reader gave a status, for GET /books
+ */
+export function readingStatusBookIds(
+  context: LocalRequestContext,
+  userId: string | undefined,
+  status: ReadingStatus
+): Set<string> {
+  const user = requireReader(context, userId);
+  return new Set(
+    readTable('readingStatuses')
+      .filter((entry) => entry.userId === user.id && entry.status === status)
+      .map((entry) => entry.bookId)
+  );
+}
+
+function optionalDay(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !isDay(value)) {
+    throw new LocalHttpError(400, 'Dates must be given as YYYY-MM-DD');
+  }
+  return value;
+}
+
+function statusInput(body: unknown): ReadingStatusInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const status = input.status as ReadingStatus;
+  if (!READING_STATUSES.includes(status)) {
+    throw new LocalHttpError(400, `Status must be one of ${READING_STATUSES.join(', ')}`);
+  }
+  const startedOn = optionalDay(input.startedOn);
+  const finishedOn = optionalDay(input.finishedOn);
+  // Days written as YYYY-MM-DD compare correctly as strings
+  if (startedOn && finishedOn && finishedOn < startedOn) {
+    throw new LocalHttpError(400, 'The finish date cannot be before the start date');
+  }
+  return { status, startedOn, finishedOn };
+}
+
+export const readingStatusRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/users/:userId/reading-statuses',
+    handler: (context) => {
+      const user = requireReader(context, context.params.userId);
+      const items = readTable('readingStatuses')
+        .filter((entry) => entry.userId === user.id)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      return respond({ items });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/users/:userId/reading-statuses/:bookId',
+    handler: (context) => {
+      const user = requireReader(context, context.params.userId);
+      const { bookId } = context.params;
+      if (!readTable('books').some((book) => book.id === bookId)) {
+        throw new LocalHttpError(404, 'Book not found');
+      }
+      const entry: BookReadingStatus = {
+        ...statusInput(context.body),
+        bookId,
+        userId: user.id,
+        updatedAt: new Date().toISOString(),
+      };
+      writeTable('readingStatuses', [
+        ...readTable('readingStatuses').filter(
+          (item) => item.userId !== user.id || item.bookId !== bookId
+        ),
+        entry,
+      ]);
+      return respond(entry);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/users/:userId/reading-statuses/:bookId',
+    handler: (context) => {
+      const user = requireReader(context, context.params.userId);
+      writeTable(
+        'readingStatuses',
+        readTable('readingStatuses').filter(
+          (item) => item.userId !== user.id || item.bookId !== context.params.bookId
+        )
+      );
+      return respond(null, 204);
+    },
+  },
+];
@@ -0,0 +1,85 @@
+import { Book, Recommendation } from '@/types';
+import { readTable } from './db';
+import { LocalHttpError, LocalRoute, requireUser, respond } from './router';
+
+/**
+ * Local stand-in for the Bedrock recommendations endpoint
+ *
+ * Scores books by keyword overlap with the query so results are deterministic.
+ */
+
+const MAX_RECOMMENDATIONS = 3;
+
+/** Mirrors the Bedrock quota: requests allowed per user per window */
+const QUOTA_LIMIT = 10;
+const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+const requestLog = new Map<string, number[]>();
+
+/**
+ * Records a request against the user's quota
+ *
+ * @returns Seconds until the next request is allowed, or 0 if this one is
+ */
+function consumeQuota(userId: string): number {
+  const now = Date.now();
+  const recent = (requestLog.get(userId) ?? []).filter((time) => now - time < QUOTA_WINDOW_MS);
+  if (recent.length >= QUOTA_LIMIT) {
+    requestLog.set(userId, recent);
+    return Math.ceil((recent[0] + QUOTA_WINDOW_MS - now) / 1000);
+  }
+  requestLog.set(userId, [...recent, now]);
+  return 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 2);
+}
+
+function scoreBook(book: Book, queryWords: string[]): { score: number; matches: string[] } {
+  const bookWords = new Set(
+    tokenize([book.title, book.author, ...book.genres, ...book.tags, book.description].join(' '))
+  );
+  const matches = queryWords.filter((word) => bookWords.has(word));
+  return { score: matches.length + book.rating / 10, matches };
+}
+
+export const recommendationRoutes: LocalRoute[] = [
+  {
+    method: 'POST',
+    pattern: '/recommendations',
+    handler: (context) => {
+      const user = requireUser(context);
+      const { query } = (context.body ?? {}) as { query?: string };
+      if (!query?.trim()) {
+        throw new LocalHttpError(400, 'Query is required');
+      }
+
+      const retryAfterSeconds = consumeQuota(user.id);
+      if (retryAfterSeconds > 0) {
+        return respond({ message: 'AI recommendation quota exceeded.' }, 429, {
+          'retry-after': String(retryAfterSeconds),
+        });
+      }
+
+      const queryWords = [...new Set(tokenize(query))];
+      const recommendations: Recommendation[] = readTable('books')
+        .map((book) => ({ book, ...scoreBook(book, queryWords) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_RECOMMENDATIONS)
+        .map(({ book, matches }, index) => ({
+          id: `rec-${index + 1}`,
+          bookId: book.id,
+          reason:
+            matches.length > 0
+              ? `Matches your interest in ${matches.join(', ')}.`
+              : `A highly rated ${(book.genres[0] ?? 'book').toLowerCase()} pick from our catalog.`,
+          confidence: Math.min(0.95, 0.5 + matches.length * 0.15),
+        }));
+
+      return respond({ recommendations });
+    },
+  },
+];
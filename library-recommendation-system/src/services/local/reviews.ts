@@ -0,0 +1,281 @@
+import { Review, ReviewSortField } from '@/types';
+import { compareReviews, filterReviews, parseReviewQuery } from '@/utils/reviewQuery';
+import {
+  LocalHelpfulVote,
+  LocalUser,
+  bookRatingSummary,
+  generateId,
+  readTable,
+  writeTable,
+} from './db';
+import { PageOrder, paginate } from './pagination';
+import { LocalHttpError, LocalRequestContext, LocalRoute, requireUser, respond } from './router';
+
+/**
+ * Local implementation of the /books/{id}/reviews endpoints
+ */
+
+function assertBookExists(bookId: string): void {
+  if (!readTable('books').some((book) => book.id === bookId)) {
+    throw new LocalHttpError(404, 'Book not found');
+  }
+}
+
+/**
+ * Page order of the review lists for a sort field
+ */
+export function reviewOrder(sort: ReviewSortField | undefined): PageOrder<Review> {
+  return {
+    compare: (a, b) => compareReviews(a, b, sort),
+    keyFields: ['createdAt', 'rating', 'helpfulCount'],
+  };
+}
+
+/**
+ * Saves the reviews table and recomputes the rating aggregates of the book,
+ * as the review Lambdas do in the same transaction
+ */
+export function writeReviews(bookId: string, reviews: Review[]): void {
+  writeTable('reviews', reviews);
+  writeTable(
+    'books',
+    readTable('books').map((book) =>
+      book.id === bookId ? { ...book, ...bookRatingSummary(bookId, reviews) } : book
+    )
+  );
+}
+
+/**
+ * Deletes a review along with its helpful votes, reports and comments
+ */
+export function removeReview(reviews: Review[], index: number): void {
+  const { id, bookId } = reviews[index];
+  writeReviews(
+    bookId,
+    reviews.filter((_, i) => i !== index)
+  );
+  writeTable(
+    'helpfulVotes',
+    readTable('helpfulVotes').filter((vote) => vote.reviewId !== id)
+  );
+  writeTable(
+    'reviewReports',
+    readTable('reviewReports').filter((report) => report.reviewId !== id)
+  );
+  writeTable(
+    'reviewComments',
+    readTable('reviewComments').filter((comment) => comment.reviewId !== id)
+  );
+}
+
+function assertValidRating(rating: unknown): asserts rating is number {
+  if (typeof rating !== 'number' || rating < 1 || rating > 5) {
+    throw new LocalHttpError(400, 'Rating must be between 1 and 5');
+  }
+}
+
+/**
+ * Hidden reviews and comments are only visible to admins and their author
+ */
+export function isVisibleTo(
+  item: Pick<Review, 'status' | 'userId'>,
+  user: LocalUser | null
+): boolean {
+  return item.status !== 'hidden' || user?.role === 'admin' || user?.id === item.userId;
+}
+
+/**
+ * Finds a review on the book in the path that the caller may see, failing with 404
+ */
+export function findBookReviewIndex(reviews: Review[], context: LocalRequestContext): number {
+  const { params, user } = context;
+  const index = reviews.findIndex(
+    (review) => review.id === params.reviewId && review.bookId === params.id
+  );
+  if (index === -1 || !isVisibleTo(reviews[index], user)) {
+    throw new LocalHttpError(404, 'Review not found');
+  }
+  return index;
+}
+
+/**
+ * Finds a review on the book in the path, failing with 404, or with 403 if the
+ * caller is neither its author nor (when `allowAdmin` is set) an admin
+ */
+function findReviewIndex(
+  reviews: Review[],
+  context: LocalRequestContext,
+  allowAdmin: boolean
+): number {
+  const user = requireUser(context);
+  const index = findBookReviewIndex(reviews, context);
+  if (reviews[index].userId !== user.id && !(allowAdmin && user.role === 'admin')) {
+    throw new LocalHttpError(403, 'You can only change your own reviews');
+  }
+  return index;
+}
+
+/**
+ * Adds or removes the caller's helpful vote; repeating either is a no-op
+ */
+function setHelpfulVote(context: LocalRequestContext, helpful: boolean) {
+  const user = requireUser(context);
+  const reviews = readTable('reviews');
+  const index = findBookReviewIndex(reviews, context);
+  const review = reviews[index];
+  if (review.userId === user.id) {
+    throw new LocalHttpError(403, 'You cannot vote on your own review');
+  }
+
+  const votes = readTable('helpfulVotes');
+  const isVote = (vote: LocalHelpfulVote) => vote.reviewId === review.id && vote.userId === user.id;
+  const hasVoted = votes.some(isVote);
+  if (helpful !== hasVoted) {
+    writeTable(
+      'helpfulVotes',
+      helpful
+        ? [...votes, { reviewId: review.id, userId: user.id }]
+        : votes.filter((vote) => !isVote(vote))
+    );
+    reviews[index] = {
+      ...review,
+      helpfulCount: Math.max(0, review.helpfulCount + (helpful ? 1 : -1)),
+    };
+    writeTable('reviews', reviews);
+  }
+  return respond(reviews[index]);
+}
+
+export const reviewRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/books/:id/reviews',
+    handler: ({ params, query: queryParams, user }) => {
+      assertBookExists(params.id);
+      const query = parseReviewQuery(queryParams);
+      const reviews = readTable('reviews').filter(
+        (review) => review.bookId === params.id && isVisibleTo(review, user)
+      );
+      return respond(paginate(filterReviews(reviews, query), query, reviewOrder(query.sort)));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/reviews',
+    handler: (context) => {
+      const user = requireUser(context);
+      assertBookExists(context.params.id);
+      const input = context.body as Partial<Review>;
+      assertValidRating(input.rating);
+      const reviews = readTable('reviews');
+      if (
+        reviews.some((review) => review.bookId === context.params.id && review.userId === user.id)
+      ) {
+        throw new LocalHttpError(409, 'You have already reviewed this book');
+      }
+      const review: Review = {
+        id: generateId(),
+        bookId: context.params.id,
+        userId: user.id,
+        userName: user.name,
+        rating: input.rating,
+        comment: input.comment ?? '',
+        createdAt: new Date().toISOString(),
+        helpfulCount: 0,
+        commentCount: 0,
+        status: 'published',
+      };
+      writeReviews(review.bookId, [...reviews, review]);
+      return respond(review, 201);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/books/:id/reviews/:reviewId',
+    handler: (context) => {
+      const reviews = readTable('reviews');
+      const index = findReviewIndex(reviews, context, false);
+      const input = context.body as Partial<Review>;
+      if (input.rating !== undefined) assertValidRating(input.rating);
+      reviews[index] = {
+        ...reviews[index],
+        rating: input.rating ?? reviews[index].rating,
+        comment: input.comment ?? reviews[index].comment,
+        updatedAt: new Date().toISOString(),
+      };
+      writeReviews(reviews[index].bookId, reviews);
+      return respond(reviews[index]);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/books/:id/reviews/:reviewId',
+    handler: (context) => {
+      const reviews = readTable('reviews');
+      removeReview(reviews, findReviewIndex(reviews, context, true));
+      return respond(null, 204);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/books/:id/reviews/:reviewId/helpful',
+    handler: (context) => setHelpfulVote(context, true),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/books/:id/reviews/:reviewId/helpful',
+    handler: (context) => setHelpfulVote(context, false),
+  },
+  {
+    method: 'GET',
+    pattern: '/users/:userId/helpful-votes',
+    handler: (context) => {
+      const user = requireUser(context);
+      if (context.params.userId !== user.id) {
+        throw new LocalHttpError(403, 'You can only read your own votes');
+      }
+      const bookId = context.query.get('bookId');
+      const onBook = new Set(
+        readTable('reviews')
+          .filter((review) => !bookId || review.bookId === bookId)
+          .map((review) => review.id)
+      );
+      const reviewIds = readTable('helpfulVotes')
+        .filter((vote) => vote.userId === user.id && onBook.has(vote.reviewId))
+        .map((vote) => vote.reviewId);
+      return respond({ reviewIds });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/books/:id/reviews/:reviewId/reports',
+    handler: (context) => {
+      const user = requireUser(context);
+      const reviews = readTable('reviews');
+      const review = reviews[findBookReviewIndex(reviews, context)];
+      const { reason } = (context.body ?? {}) as { reason?: unknown };
+      if (typeof reason !== 'string' || !reason.trim() || reason.length > 500) {
+        throw new LocalHttpError(400, 'Give a reason of at most 500 characters');
+      }
+      const reports = readTable('reviewReports');
+      if (
+        reports.some(
+          (report) =>
+            report.reviewId === review.id && !report.commentId && report.userId === user.id
+        )
+      ) {
+        throw new LocalHttpError(409, 'You have already reported this review');
+      }
+      const report = {
+        id: generateId(),
+        reviewId: review.id,
+        bookId: review.bookId,
+        userId: user.id,
+        reason: reason.trim(),
+        createdAt: new Date().toISOString(),
+      };
+      writeTable('reviewReports', [...reports, report]);
+      return respond(report, 201);
+    },
+  },
+];
@@ -0,0 +1,102 @@
+import { ApiResponse, HttpMethod } from '@/types';
+import { LocalUser } from './db';
+
+/**
+ * Minimal request router for the local backend
+ */
+
+/**
+ * Request as seen by a local route handler
+ */
+export interface LocalRequestContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: unknown;
+  /** User resolved from the Authorization header, if any */
+  user: LocalUser | null;
+}
+
+export interface LocalRoute {
+  method: HttpMethod;
+  /** Path pattern with `:name` placeholders, e.g. `/books/:id` */
+  pattern: string;
+  handler: (context: LocalRequestContext) => ApiResponse | Promise<ApiResponse>;
+}
+
+/**
+ * Thrown by handlers to produce an error response
+ */
+export class LocalHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'LocalHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Builds a JSON response
+ */
+export function respond(
+  data: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): ApiResponse {
+  return { status, headers, data: data === undefined ? null : JSON.parse(JSON.stringify(data)) };
+}
+
+/**
+ * Returns the signed-in user or fails with 401
+ */
+export function requireUser(context: LocalRequestContext): LocalUser {
+  if (!context.user) {
+    throw new LocalHttpError(401, 'Unauthorized');
+  }
+  return context.user;
+}
+
+/**
+ * Returns the signed-in admin or fails with 401/403
+ */
+export function requireAdmin(context: LocalRequestContext): LocalUser {
+  const user = requireUser(context);
+  if (user.role !== 'admin') {
+    throw new LocalHttpError(403, 'Admin access required');
+  }
+  return user;
+}
+
+/**
+ * Finds the route matching a method and pathname
+ */
+export function matchRoute(
+  routes: LocalRoute[],
+  method: HttpMethod,
+  pathname: string
+): { route: LocalRoute; params: Record<string, string> } | null {
+  const segments = pathname.split('/').filter(Boolean);
+
+  for (const route of routes) {
+    if (route.method !== method) continue;
+
+    const patternSegments = route.pattern.split('/').filter(Boolean);
+    if (patternSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = patternSegments.every((part, index) => {
+      if (part.startsWith(':')) {
+        params[part.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return part === segments[index];
+    });
+
+    if (matches) {
+      return { route, params };
+    }
+  }
+  return null;
+}
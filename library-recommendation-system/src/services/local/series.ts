@@ -0,0 +1,54 @@
+import { Series, SeriesInput } from '@/types';
+import { generateId, readTable, writeTable } from './db';
+import { LocalHttpError, LocalRoute, requireAdmin, respond } from './router';
+
+/**
+ * Local implementation of the /series endpoints; the books of a series are
+ * listed through GET /books?seriesId=
+ */
+
+/**
+ * Fails with 400 unless `seriesId` is unset or names an existing series
+ */
+export function requireKnownSeries(seriesId: string | undefined): void {
+  if (seriesId !== undefined && !readTable('series').some((series) => series.id === seriesId)) {
+    throw new LocalHttpError(400, 'Unknown series');
+  }
+}
+
+export const seriesRoutes: LocalRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/series',
+    handler: () =>
+      respond({
+        items: [...readTable('series')].sort((a, b) => a.name.localeCompare(b.name)),
+      }),
+  },
+  {
+    method: 'POST',
+    pattern: '/series',
+    handler: (context) => {
+      requireAdmin(context);
+      const input = (context.body ?? {}) as Partial<SeriesInput>;
+      const name = input.name?.trim();
+      if (!name) {
+        throw new LocalHttpError(400, 'Series name is required');
+      }
+      const series: Series = { id: generateId(), name, description: input.description ?? '' };
+      writeTable('series', [...readTable('series'), series]);
+      return respond(series, 201);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/series/:id',
+    handler: ({ params }) => {
+      const series = readTable('series').find((item) => item.id === params.id);
+      if (!series) {
+        throw new LocalHttpError(404, 'Series not found');
+      }
+      return respond(series);
+    },
+  },
+];
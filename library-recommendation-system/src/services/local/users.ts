@@ -0,0 +1,79 @@
+import { User } from '@/types';
+import { LocalUser, generateId, readTable, writeTable } from './db';
+
+/**
+ * Local user accounts and session, used instead of Cognito when the local
+ * backend is active
+ */
+
+const SESSION_KEY = 'library.local.session';
+
+function toUser(user: LocalUser): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    createdAt: user.createdAt,
+  };
+}
+
+/**
+ * Looks up a local user by id
+ */
+export function findLocalUser(id: string): LocalUser | undefined {
+  return readTable('users').find((user) => user.id === id);
+}
+
+/**
+ * Returns the user of the current local session, if any
+ */
+export function getLocalSessionUser(): User | null {
+  const userId = localStorage.getItem(SESSION_KEY);
+  const user = userId ? findLocalUser(userId) : undefined;
+  return user ? toUser(user) : null;
+}
+
+/**
+ * Signs in with a local account
+ *
+ * @throws Error with a Cognito-style message if the credentials are wrong
+ */
+export function signInLocalUser(email: string, password: string): User {
+  const user = readTable('users').find(
+    (candidate) => candidate.email.toLowerCase() === email.toLowerCase()
+  );
+  if (!user || user.password !== password) {
+    throw new Error('Incorrect username or password.');
+  }
+  localStorage.setItem(SESSION_KEY, user.id);
+  return toUser(user);
+}
+
+/**
+ * Creates a local account
+ *
+ * @throws Error if the email is already registered
+ */
+export function signUpLocalUser(email: string, password: string, name: string): void {
+  const users = readTable('users');
+  if (users.some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+    throw new Error('User already exists');
+  }
+  users.push({
+    id: generateId(),
+    email,
+    name,
+    role: 'user',
+    password,
+    createdAt: new Date().toISOString(),
+  });
+  writeTable('users', users);
+}
+
+/**
+ * Ends the current local session
+ */
+export function signOutLocalUser(): void {
+  localStorage.removeItem(SESSION_KEY);
+}
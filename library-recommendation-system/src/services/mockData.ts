@@ -0,0 +1,462 @@
+import {
+  Author,
+  BookInput,
+  BookReadingStatus,
+  ReadingList,
+  Review,
+  ReviewComment,
+  Series,
+} from '@/types';
+
+/**
+ * Seed data for the local backend (VITE_API_BACKEND=local)
+ *
+ * Loaded into browser storage the first time the local backend is used.
+ * Cover images live in `/public/book-covers/`.
+ */
+
+/**
+ * Demo accounts, all with the password `Password123`
+ */
+export const mockUsers = [
+  {
+    id: 'local-admin',
+    email: 'admin@library.local',
+    name: 'Library Admin',
+    role: 'admin' as const,
+    password: 'Password123',
+    createdAt: '2024-01-01T09:00:00.000Z',
+  },
+  {
+    id: 'local-reader',
+    email: 'reader@library.local',
+    name: 'Demo Reader',
+    role: 'user' as const,
+    password: 'Password123',
+    createdAt: '2024-01-02T09:00:00.000Z',
+  },
+];
+
+export const mockAuthors: Author[] = [
+  {
+    id: 'author-1',
+    name: 'James Clear',
+    bio: 'Writer and speaker focused on habits, decision making and continuous improvement.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-2',
+    name: 'Frank Herbert',
+    bio: 'American science fiction author best known for the Dune saga.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-3',
+    name: 'Tara Westover',
+    bio: 'American memoirist and historian who grew up in rural Idaho without formal schooling.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-4',
+    name: 'Taylor Jenkins Reid',
+    bio: 'American novelist known for character-driven stories of fame and ambition.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-5',
+    name: 'Matt Haig',
+    bio: 'English novelist and journalist who writes fiction and non-fiction for adults and children.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-6',
+    name: 'Emily Henry',
+    bio: 'American author of contemporary romance novels.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-7',
+    name: 'Andy Weir',
+    bio: 'American novelist and former software engineer, author of The Martian.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-8',
+    name: 'Alex Michaelides',
+    bio: 'British-Cypriot author and screenwriter of psychological thrillers.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-9',
+    name: 'Madeline Miller',
+    bio: 'American novelist who retells Greek myths.',
+    photo: '',
+    aliases: [],
+  },
+  {
+    id: 'author-10',
+    name: 'Richard Osman',
+    bio: 'English television presenter and author of the Thursday Murder Club mysteries.',
+    photo: '',
+    aliases: [],
+  },
+];
+
+export const mockSeries: Series[] = [
+  {
+    id: 'series-1',
+    name: 'Dune Chronicles',
+    description: "Frank Herbert's saga of the desert planet Arrakis and the Atreides family.",
+  },
+  {
+    id: 'series-2',
+    name: 'Thursday Murder Club',
+    description: 'The retirement-village sleuths of Coopers Chase take on one case after another.',
+  },
+];
+
+/**
+ * Catalog seed; ratings are derived from `mockReviews` when the table is seeded
+ */
+export const mockBooks: (BookInput & { id: string })[] = [
+  {
+    id: '1',
+    title: 'Atomic Habits',
+    author: 'James Clear',
+    authorId: 'author-1',
+    genres: ['Self-Help', 'Psychology'],
+    tags: ['habits', 'productivity'],
+    description:
+      'A practical guide to building good habits and breaking bad ones through tiny changes that compound into remarkable results.',
+    coverImage: '/book-covers/atomic-habits.jpg',
+    publishedYear: 2018,
+    isbn: '9780735211292',
+    pageCount: 320,
+    language: 'English',
+    publisher: 'Avery',
+    format: 'hardcover',
+    editions: [],
+  },
+  {
+    id: '2',
+    title: 'Dune',
+    author: 'Frank Herbert',
+    authorId: 'author-2',
+    genres: ['Science Fiction', 'Classic'],
+    tags: ['desert planet', 'politics'],
+    description:
+      'On the desert planet Arrakis, Paul Atreides is drawn into a struggle over the most valuable substance in the universe.',
+    coverImage: '/book-covers/dune.jpg',
+    publishedYear: 1965,
+    isbn: '9780441172719',
+    pageCount: 688,
+    language: 'English',
+    publisher: 'Ace',
+    format: 'paperback',
+    seriesId: 'series-1',
+    seriesPosition: 1,
+    editions: [
+      {
+        id: '2-paperback',
+        isbn: '9780441172719',
+        format: 'paperback',
+        publisher: 'Ace',
+        publishedYear: 1965,
+        coverImage: '/book-covers/dune.jpg',
+        pageCount: 688,
+        language: 'English',
+      },
+      {
+        id: '2-hardcover',
+        isbn: '9780593099322',
+        format: 'hardcover',
+        publisher: 'Ace',
+        publishedYear: 2019,
+        coverImage: '/book-covers/dune.jpg',
+        pageCount: 624,
+        language: 'English',
+      },
+      {
+        id: '2-audiobook',
+        isbn: '9781427201430',
+        format: 'audiobook',
+        publisher: 'Macmillan Audio',
+        publishedYear: 2007,
+        coverImage: '/book-covers/dune.jpg',
+        pageCount: 0,
+        language: 'English',
+      },
+    ],
+  },
+  {
+    id: '3',
+    title: 'Educated',
+    author: 'Tara Westover',
+    authorId: 'author-3',
+    genres: ['Memoir', 'Biography'],
+    tags: ['education', 'family'],
+    description:
+      'A memoir about a woman who grows up in a survivalist family in rural Idaho and goes on to earn a PhD from Cambridge.',
+    coverImage: '/book-covers/educated.jpg',
+    publishedYear: 2018,
+    isbn: '9780399590504',
+    pageCount: 352,
+    language: 'English',
+    publisher: 'Random House',
+    format: 'hardcover',
+    editions: [],
+  },
+  {
+    id: '4',
+    title: 'The Seven Husbands of Evelyn Hugo',
+    author: 'Taylor Jenkins Reid',
+    authorId: 'author-4',
+    genres: ['Historical Fiction', 'Romance'],
+    tags: ['hollywood', 'book club pick'],
+    description:
+      'Aging Hollywood icon Evelyn Hugo finally tells the truth about her glamorous and scandalous life to an unknown journalist.',
+    coverImage: '/book-covers/evelyn-hugo.jpg',
+    publishedYear: 2017,
+    isbn: '9781501161933',
+    pageCount: 400,
+    language: 'English',
+    publisher: 'Atria Books',
+    format: 'paperback',
+    editions: [],
+  },
+  {
+    id: '5',
+    title: 'The Midnight Library',
+    author: 'Matt Haig',
+    authorId: 'author-5',
+    genres: ['Fiction', 'Fantasy'],
+    tags: ['second chances', 'book club pick'],
+    description:
+      'Between life and death there is a library, and every book on its shelves is a chance to try another life you could have lived.',
+    coverImage: '/book-covers/midnight-library.jpg',
+    publishedYear: 2020,
+    isbn: '9780525559474',
+    pageCount: 304,
+    language: 'English',
+    publisher: 'Viking',
+    format: 'hardcover',
+    editions: [],
+  },
+  {
+    id: '6',
+    title: 'People We Meet on Vacation',
+    author: 'Emily Henry',
+    authorId: 'author-6',
+    genres: ['Romance'],
+    tags: ['friends to lovers', 'summer read'],
+    description:
+      'Two best friends who have nothing in common take one last summer vacation together to find out whether they can fix their friendship.',
+    coverImage: '/book-covers/people-we-meet.jpg',
+    publishedYear: 2021,
+    isbn: '9781984806758',
+    pageCount: 384,
+    language: 'English',
+    publisher: 'Berkley',
+    format: 'paperback',
+    editions: [],
+  },
+  {
+    id: '7',
+    title: 'Project Hail Mary',
+    author: 'Andy Weir',
+    authorId: 'author-7',
+    genres: ['Science Fiction'],
+    tags: ['space', 'first contact'],
+    description:
+      'A lone astronaut wakes up with no memory on a desperate mission to save Earth and finds an unexpected ally in space.',
+    coverImage: '/book-covers/project-hail-mary.jpg',
+    publishedYear: 2021,
+    isbn: '9780593135204',
+    pageCount: 496,
+    language: 'English',
+    publisher: 'Ballantine Books',
+    format: 'hardcover',
+    editions: [
+      {
+        id: '7-hardcover',
+        isbn: '9780593135204',
+        format: 'hardcover',
+        publisher: 'Ballantine Books',
+        publishedYear: 2021,
+        coverImage: '/book-covers/project-hail-mary.jpg',
+        pageCount: 496,
+        language: 'English',
+      },
+      {
+        id: '7-ebook',
+        isbn: '9780593135211',
+        format: 'ebook',
+        publisher: 'Ballantine Books',
+        publishedYear: 2021,
+        coverImage: '/book-covers/project-hail-mary.jpg',
+        pageCount: 496,
+        language: 'English',
+      },
+    ],
+  },
+  {
+    id: '8',
+    title: 'The Silent Patient',
+    author: 'Alex Michaelides',
+    authorId: 'author-8',
+    genres: ['Thriller', 'Mystery'],
+    tags: ['psychological', 'twist ending'],
+    description:
+      'A famous painter shoots her husband and never speaks another word, until a psychotherapist becomes obsessed with uncovering her motive.',
+    coverImage: '/book-covers/silent-patient.jpg',
+    publishedYear: 2019,
+    isbn: '9781250301697',
+    pageCount: 336,
+    language: 'English',
+    publisher: 'Celadon Books',
+    format: 'hardcover',
+    editions: [],
+  },
+  {
+    id: '9',
+    title: 'The Song of Achilles',
+    author: 'Madeline Miller',
+    authorId: 'author-9',
+    genres: ['Historical Fiction', 'Fantasy'],
+    tags: ['greek mythology', 'retelling'],
+    description:
+      'A retelling of the Iliad through the eyes of Patroclus, following his bond with the Greek hero Achilles.',
+    coverImage: '/book-covers/song-of-achilles.jpg',
+    publishedYear: 2011,
+    isbn: '9780062060624',
+    pageCount: 378,
+    language: 'English',
+    publisher: 'Ecco',
+    format: 'paperback',
+    editions: [],
+  },
+  {
+    id: '10',
+    title: 'The Thursday Murder Club',
+    author: 'Richard Osman',
+    authorId: 'author-10',
+    genres: ['Mystery'],
+    tags: ['cozy mystery', 'british'],
+    description:
+      'Four unlikely friends in a retirement village meet weekly to investigate cold cases, until a real murder lands on their doorstep.',
+    coverImage: '/book-covers/thursday-murder-club.jpg',
+    publishedYear: 2020,
+    isbn: '9781984880963',
+    pageCount: 384,
+    language: 'English',
+    publisher: 'Pamela Dorman Books',
+    format: 'hardcover',
+    seriesId: 'series-2',
+    seriesPosition: 1,
+    editions: [],
+  },
+];
+
+export const mockReadingLists: ReadingList[] = [
+  {
+    id: 'list-1',
+    userId: 'local-reader',
+    name: 'Summer Reading',
+    description: 'Books to read on vacation',
+    bookIds: ['6', '5', '10'],
+    createdAt: '2024-05-01T10:00:00.000Z',
+    updatedAt: '2024-05-01T10:00:00.000Z',
+  },
+  {
+    id: 'list-2',
+    userId: 'local-reader',
+    name: 'Sci-Fi Favorites',
+    description: 'The best science fiction I have read',
+    bookIds: ['2', '7'],
+    createdAt: '2024-03-12T18:30:00.000Z',
+    updatedAt: '2024-04-02T08:15:00.000Z',
+  },
+];
+
+export const mockReadingStatuses: BookReadingStatus[] = [
+  {
+    bookId: '2',
+    userId: 'local-reader',
+    status: 'finished',
+    startedOn: '2024-02-01',
+    finishedOn: '2024-03-10',
+    updatedAt: '2024-03-10T21:00:00.000Z',
+  },
+  {
+    bookId: '7',
+    userId: 'local-reader',
+    status: 'reading',
+    startedOn: '2024-05-20',
+    updatedAt: '2024-05-20T19:30:00.000Z',
+  },
+  {
+    bookId: '5',
+    userId: 'local-reader',
+    status: 'want-to-read',
+    updatedAt: '2024-05-01T10:00:00.000Z',
+  },
+];
+
+export const mockReviews: Review[] = [
+  {
+    id: 'review-1',
+    bookId: '7',
+    userId: 'local-reader',
+    userName: 'Demo Reader',
+    rating: 5,
+    comment: 'Funny, clever and full of real science. I could not put it down.',
+    createdAt: '2024-04-10T20:00:00.000Z',
+    helpfulCount: 3,
+    commentCount: 1,
+    status: 'published',
+  },
+  {
+    id: 'review-2',
+    bookId: '7',
+    userId: 'local-admin',
+    userName: 'Library Admin',
+    rating: 4,
+    comment: 'A great follow-up to The Martian with an even better friendship at its core.',
+    createdAt: '2024-04-15T12:00:00.000Z',
+    helpfulCount: 1,
+    commentCount: 0,
+    status: 'published',
+  },
+  {
+    id: 'review-3',
+    bookId: '2',
+    userId: 'local-reader',
+    userName: 'Demo Reader',
+    rating: 5,
+    comment: 'The world-building is unmatched. Slow start but worth it.',
+    createdAt: '2024-03-20T09:45:00.000Z',
+    helpfulCount: 2,
+    commentCount: 0,
+    status: 'published',
+  },
+];
+
+export const mockReviewComments: ReviewComment[] = [
+  {
+    id: 'comment-1',
+    reviewId: 'review-1',
+    bookId: '7',
+    userId: 'local-admin',
+    body: 'Agreed, Rocky is one of the best characters in recent science fiction.',
+    createdAt: '2024-04-11T08:30:00.000Z',
+    status: 'published',
+  },
+];
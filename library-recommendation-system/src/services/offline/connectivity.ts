@@ -0,0 +1,24 @@
+/**
+ * Browser connectivity, as reported by `navigator.onLine`
+ *
+ * `onLine` can be true on a network without internet access; requests that
+ * still fail then surface as NETWORK_ERROR and are handled the same way.
+ */
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Calls `listener` whenever the browser goes online or offline
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeConnectivity(listener: () => void): () => void {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+}
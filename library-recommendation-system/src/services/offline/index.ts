@@ -0,0 +1,43 @@
+import { clearMutationQueue } from './mutationQueue';
+import { clearStore } from './storage';
+
+/**
+ * Offline mode: cached reads and queued writes
+ *
+ * GET responses are saved by request() in `apiClient.ts` and served from
+ * IndexedDB when the network is unreachable. Reading-list and review writes
+ * made offline are queued in `mutationQueue.ts` and replayed on reconnect.
+ * The service worker (`public/sw.js`) caches the app shell itself.
+ */
+
+export { isOnline, subscribeConnectivity } from './connectivity';
+export { loadResponse, saveResponse, updateCachedResponse } from './responseCache';
+export {
+  dismissRejectedMutations,
+  enqueueMutation,
+  getOfflineSyncState,
+  replayMutations,
+  startOfflineSync,
+  subscribeOfflineSync,
+} from './mutationQueue';
+
+/**
+ * Removes all cached responses and queued writes, so the next user of the
+ * device sees none of them
+ */
+export async function clearOfflineData(): Promise<void> {
+  await Promise.all([clearStore('responses'), clearMutationQueue()]);
+}
+
+/**
+ * Registers the service worker that caches the app shell (production builds only)
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error: unknown) => {
+      console.warn('Service worker registration failed', error);
+    });
+  });
+}
@@ -0,0 +1,153 @@
+import { OfflineSyncState, PendingMutation } from '@/types';
+import { ApiError, request } from '../apiClient';
+import { invalidateQueries } from '../queryCache';
+import { isOnline, subscribeConnectivity } from './connectivity';
+import { clearStore, deleteEntry, readAllEntries, writeEntry } from './storage';
+
+/**
+ * Queue of writes made while offline
+ *
+ * Writes are persisted so they survive a reload, replayed in order once the
+ * browser reconnects, and exposed to the UI for "pending sync" badges.
+ */
+
+let state: OfflineSyncState = { pending: [], rejected: [], lastSyncedAt: 0 };
+const listeners = new Set<() => void>();
+let replaying: Promise<void> | null = null;
+
+function setState(changes: Partial<OfflineSyncState>): void {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Returns the current snapshot, replaced (never mutated) on every change
+ */
+export function getOfflineSyncState(): OfflineSyncState {
+  return state;
+}
+
+/**
+ * Subscribes to changes of the sync state
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeOfflineSync(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Adds a write to the end of the queue
+ */
+export async function enqueueMutation(
+  mutation: Omit<PendingMutation, 'id' | 'queuedAt'>
+): Promise<PendingMutation> {
+  const queued: PendingMutation = {
+    ...mutation,
+    id: crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+  };
+  setState({ pending: [...state.pending, queued] });
+  await writeEntry('mutations', queued.id, queued);
+  return queued;
+}
+
+/**
+ * Points queued writes at the server id of a record that was created offline
+ */
+async function replaceTemporaryId(temporaryId: string, id: string): Promise<void> {
+  const pending = state.pending.map((mutation) =>
+    mutation.entityId === temporaryId
+      ? {
+          ...mutation,
+          entityId: id,
+          path: mutation.path.replace(`/${temporaryId}`, `/${id}`),
+        }
+      : mutation
+  );
+  setState({ pending });
+  await Promise.all(
+    pending
+      .filter((mutation) => mutation.entityId === id)
+      .map((mutation) => writeEntry('mutations', mutation.id, mutation))
+  );
+}
+
+/**
+ * Sends queued writes in order until the queue is empty or the network drops
+ *
+ * Writes the server rejects (4xx) are moved to `rejected`; network and server
+ * errors leave the queue in place for the next attempt.
+ */
+export function replayMutations(): Promise<void> {
+  replaying ??= (async () => {
+    while (state.pending.length > 0 && isOnline()) {
+      const [mutation] = state.pending;
+      try {
+        const result = await request<{ id?: unknown } | null>(mutation.method, mutation.path, {
+          body: mutation.body,
+          auth: true,
+          idempotencyKey: mutation.idempotencyKey,
+        });
+        if (mutation.kind === 'createReadingList' && typeof result?.id === 'string') {
+          await replaceTemporaryId(mutation.entityId, result.id);
+        }
+        invalidateQueries(mutation.path);
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status === 0 || error.status >= 500) {
+          return;
+        }
+        console.error('The server rejected a change made offline', mutation, error);
+        setState({ rejected: [...state.rejected, mutation] });
+      }
+      setState({ pending: state.pending.filter((queued) => queued.id !== mutation.id) });
+      await deleteEntry('mutations', mutation.id);
+    }
+    if (state.pending.length === 0) {
+      setState({ lastSyncedAt: Date.now() });
+    }
+  })().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+/**
+ * Hides the "could not sync" notice for rejected writes
+ */
+export function dismissRejectedMutations(): void {
+  setState({ rejected: [] });
+}
+
+/**
+ * Restores the persisted queue and replays it now and on every reconnect
+ *
+ * @returns Function that stops listening for reconnects
+ */
+export function startOfflineSync(): () => void {
+  readAllEntries<PendingMutation>('mutations')
+    .then((stored) => {
+      const known = new Set(state.pending.map((mutation) => mutation.id));
+      const restored = stored
+        .filter((mutation) => !known.has(mutation.id))
+        .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+      setState({ pending: [...restored, ...state.pending] });
+      return replayMutations();
+    })
+    .catch((error: unknown) => console.warn('Could not restore offline changes', error));
+
+  return subscribeConnectivity(() => {
+    if (isOnline()) replayMutations();
+  });
+}
+
+/**
+ * Drops every queued write (used on sign-out and in tests)
+ */
+export async function clearMutationQueue(): Promise<void> {
+  setState({ pending: [], rejected: [], lastSyncedAt: 0 });
+  await clearStore('mutations');
+}
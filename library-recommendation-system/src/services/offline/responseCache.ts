@@ -0,0 +1,52 @@
+import { readEntry, writeEntry } from './storage';
+
+/**
+ * Last successful response of every GET, served when the network is down
+ *
+ * Entries are keyed by request path (the same keys as `queryCache.ts`) and
+ * hold the unwrapped body, before decoding.
+ */
+
+interface CachedResponse {
+  data: unknown;
+  savedAt: number;
+}
+
+/**
+ * Stores the body of a successful GET. Storage failures are logged, never thrown.
+ */
+export async function saveResponse(path: string, data: unknown): Promise<void> {
+  try {
+    await writeEntry('responses', path, { data, savedAt: Date.now() } satisfies CachedResponse);
+  } catch (error) {
+    console.warn(`Could not cache ${path} for offline use`, error);
+  }
+}
+
+/**
+ * Returns the cached body for a path, or undefined if it was never fetched
+ */
+export async function loadResponse<T>(path: string): Promise<T | undefined> {
+  try {
+    const entry = await readEntry<CachedResponse>('responses', path);
+    return entry?.data as T | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rewrites a cached body, e.g. to show a change made offline on later reads
+ *
+ * The updater receives undefined if the path was never cached; returning
+ * undefined leaves the cache untouched.
+ */
+export async function updateCachedResponse<T>(
+  path: string,
+  updater: (data: T | undefined) => T | undefined
+): Promise<void> {
+  const next = updater(await loadResponse<T>(path));
+  if (next !== undefined) {
+    await saveResponse(path, next);
+  }
+}
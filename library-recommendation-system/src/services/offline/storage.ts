@@ -0,0 +1,99 @@
+/**
+ * Key-value storage behind offline mode
+ *
+ * Uses IndexedDB in the browser and falls back to memory where it is not
+ * available (tests, or browsers that block IndexedDB in private windows).
+ */
+
+export type OfflineStoreName = 'responses' | 'mutations';
+
+const DB_NAME = 'library-offline';
+const DB_VERSION = 1;
+const STORE_NAMES: OfflineStoreName[] = ['responses', 'mutations'];
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+const memory: Record<OfflineStoreName, Map<string, unknown>> = {
+  responses: new Map(),
+  mutations: new Map(),
+};
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+  databasePromise ??= new Promise((resolve) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      STORE_NAMES.forEach((name) => {
+        if (!open.result.objectStoreNames.contains(name)) {
+          open.result.createObjectStore(name);
+        }
+      });
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => {
+      console.warn('IndexedDB unavailable, keeping offline data in memory', open.error);
+      resolve(null);
+    };
+  });
+  return databasePromise;
+}
+
+async function run<T>(
+  store: OfflineStoreName,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  if (!database) {
+    throw new Error('IndexedDB is not available');
+  }
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Memory values are copied so callers cannot mutate stored data, as with IndexedDB */
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export async function readEntry<T>(store: OfflineStoreName, key: string): Promise<T | undefined> {
+  if (!(await openDatabase())) return copy(memory[store].get(key) as T | undefined);
+  return run<T | undefined>(store, 'readonly', (objectStore) => objectStore.get(key));
+}
+
+export async function readAllEntries<T>(store: OfflineStoreName): Promise<T[]> {
+  if (!(await openDatabase())) return [...memory[store].values()].map((value) => copy(value as T));
+  return run<T[]>(store, 'readonly', (objectStore) => objectStore.getAll());
+}
+
+export async function writeEntry(
+  store: OfflineStoreName,
+  key: string,
+  value: unknown
+): Promise<void> {
+  if (!(await openDatabase())) {
+    memory[store].set(key, copy(value));
+    return;
+  }
+  await run(store, 'readwrite', (objectStore) => objectStore.put(value, key));
+}
+
+export async function deleteEntry(store: OfflineStoreName, key: string): Promise<void> {
+  if (!(await openDatabase())) {
+    memory[store].delete(key);
+    return;
+  }
+  await run(store, 'readwrite', (objectStore) => objectStore.delete(key));
+}
+
+export async function clearStore(store: OfflineStoreName): Promise<void> {
+  if (!(await openDatabase())) {
+    memory[store].clear();
+    return;
+  }
+  await run(store, 'readwrite', (objectStore) => objectStore.clear());
+}
@@ -0,0 +1,233 @@
+import { BookQuery, ReviewQuery } from '@/types';
+import { toBookSearchParams } from '@/utils/bookQuery';
+import { DEFAULT_REVIEW_QUERY, toReviewSearchParams } from '@/utils/reviewQuery';
+
+/**
+ * Shared stale-while-revalidate cache for API reads
+ *
+ * Entries are keyed by request path (see `queryKeys`). Concurrent fetches for
+ * the same key share one promise, fresh entries are served without a request,
+ * and stale entries are returned immediately while a background refetch runs.
+ * A fetch nobody is subscribed to any more is aborted through the signal
+ * passed to its fetcher.
+ */
+
+/**
+ * Snapshot of a cached query, replaced (never mutated) on every change
+ */
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  /** Epoch ms of the last successful fetch, 0 if never fetched or invalidated */
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+export interface QueryOptions {
+  /** How long data stays fresh, in ms (defaults to the cache-wide TTL) */
+  ttl?: number;
+  /** Fetch even if the cached data is still fresh */
+  force?: boolean;
+}
+
+/**
+ * Loads the data for a key, honouring `signal` so abandoned fetches can be cancelled
+ */
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface CacheEntry {
+  state: QueryState<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  fetcher?: QueryFetcher<unknown>;
+  listeners: Set<() => void>;
+}
+
+const INITIAL_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+let defaultTtl = 5 * 60 * 1000;
+const entries = new Map<string, CacheEntry>();
+
+/**
+ * Cache keys for each cached API read
+ */
+export const queryKeys = {
+  /** Prefix shared by every catalog read, used for invalidation */
+  books: () => '/books',
+  /** The entire catalog, as loaded by getAllBooks() */
+  allBooks: () => '/books?all',
+  bookPage: (query: BookQuery) => `/books?${toBookSearchParams(query)}`,
+  book: (id: string) => `/books/${id}`,
+  /** Genres, tags, languages and formats offered by the search filters */
+  bookFacets: () => '/books/facets',
+  /** Every author, also the prefix of single-author reads */
+  authors: () => '/authors',
+  author: (id: string) => `/authors/${id}`,
+  /** Books of an author, newest first, inside the catalog prefix */
+  authorBooks: (authorId: string) => queryKeys.bookPage({ authorId, sort: 'year' }),
+  /** Every series, also the prefix of single-series reads */
+  seriesList: () => '/series',
+  series: (id: string) => `/series/${id}`,
+  /** Books of a series in reading order, inside the catalog prefix so book edits refresh it */
+  seriesBooks: (seriesId: string) => queryKeys.bookPage({ seriesId, sort: 'series' }),
+  /** Prefix shared by every review read of a book */
+  reviews: (bookId: string) => `/books/${bookId}/reviews`,
+  /** One page of a book's reviews; missing fields come from DEFAULT_REVIEW_QUERY */
+  reviewPage: (bookId: string, query: ReviewQuery = {}) =>
+    `${queryKeys.reviews(bookId)}?${toReviewSearchParams({ ...DEFAULT_REVIEW_QUERY, ...query })}`,
+  /** Comment thread under a review, inside the prefix of the book's reviews */
+  reviewComments: (bookId: string, reviewId: string) =>
+    `${queryKeys.reviews(bookId)}/${reviewId}/comments`,
+  /** Prefix shared by every per-user read, used for invalidation */
+  users: () => '/users',
+  /** The user's reading status for every book they gave one */
+  readingStatuses: (userId: string) => `/users/${userId}/reading-statuses`,
+  /** Ids of the reviews of a book that the user marked as helpful */
+  helpfulVotes: (userId: string, bookId: string) =>
+    `/users/${userId}/helpful-votes?bookId=${encodeURIComponent(bookId)}`,
+  /** Prefix shared by the admin review listings */
+  adminReviews: () => '/reviews',
+  /** Admin queue of reported reviews */
+  reportedReviews: () => '/reviews/reported',
+  /** Admin queue of reported comments */
+  reportedComments: () => '/comments/reported',
+  /** Admin listing of the latest reviews across all books */
+  recentReviews: (query: Pick<ReviewQuery, 'limit' | 'cursor'> = {}) =>
+    `/reviews?${toReviewSearchParams(query)}`,
+};
+
+function getEntry(key: string): CacheEntry {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { state: INITIAL_STATE, listeners: new Set() };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+function setState(entry: CacheEntry, changes: Partial<QueryState<unknown>>): void {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function matchesPrefix(key: string, prefix: string): boolean {
+  return key === prefix || key.startsWith(`${prefix}/`) || key.startsWith(`${prefix}?`);
+}
+
+/**
+ * Sets cache-wide defaults
+ */
+export function configureQueryCache(options: { ttl: number }): void {
+  defaultTtl = options.ttl;
+}
+
+/**
+ * Returns cached data if fresh, otherwise fetches it (sharing any in-flight request)
+ */
+export function fetchQuery<T>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  options: QueryOptions = {}
+): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as QueryFetcher<unknown>;
+
+  if (entry.promise) {
+    return entry.promise as Promise<T>;
+  }
+
+  const { state } = entry;
+  const ttl = options.ttl ?? defaultTtl;
+  const isFresh = state.updatedAt > 0 && Date.now() - state.updatedAt < ttl;
+  if (isFresh && !options.force) {
+    return Promise.resolve(state.data as T);
+  }
+
+  const controller = new AbortController();
+  setState(entry, { isFetching: true });
+  const promise = fetcher(controller.signal).then(
+    (data) => {
+      entry.promise = undefined;
+      entry.controller = undefined;
+      setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false });
+      return data;
+    },
+    (error: unknown) => {
+      entry.promise = undefined;
+      entry.controller = undefined;
+      // A cancelled fetch keeps the previous data and error
+      setState(
+        entry,
+        controller.signal.aborted ? { isFetching: false } : { error, isFetching: false }
+      );
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  entry.controller = controller;
+  return promise;
+}
+
+/**
+ * Returns the current snapshot for a key
+ */
+export function getQueryState<T>(key: string): QueryState<T> {
+  return (entries.get(key)?.state ?? INITIAL_STATE) as QueryState<T>;
+}
+
+/**
+ * Subscribes to changes of a key
+ *
+ * When the last subscriber leaves while a fetch is in flight, the fetch is
+ * aborted. The check is deferred so a component that re-subscribes straight
+ * away (a re-render or StrictMode remount) keeps the request alive.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0 && entry.controller) {
+      setTimeout(() => {
+        if (entry.listeners.size === 0) {
+          entry.controller?.abort();
+        }
+      }, 0);
+    }
+  };
+}
+
+/**
+ * Replaces the cached data for a key without fetching
+ */
+export function setQueryData<T>(key: string, data: T): void {
+  setState(getEntry(key), { data, error: undefined, updatedAt: Date.now() });
+}
+
+/**
+ * Marks every key under `prefix` as stale and refetches the ones in use
+ *
+ * @example
+ * invalidateQueries(queryKeys.books()); // '/books', '/books/1', ...
+ */
+export function invalidateQueries(prefix: string): void {
+  entries.forEach((entry, key) => {
+    if (!matchesPrefix(key, prefix)) return;
+
+    setState(entry, { updatedAt: 0 });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(key, entry.fetcher, { force: true }).catch(() => {
+        // The error is stored on the entry for subscribers to render
+      });
+    }
+  });
+}
+
+/**
+ * Drops every cached entry (used in tests)
+ */
+export function clearQueryCache(): void {
+  entries.clear();
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { RatingHistogram } from '@/components/reviews/RatingHistogram';
+
+describe('RatingHistogram Component', () => {
+  it('shows the average and the share of each star rating', () => {
+    render(
+      <RatingHistogram
+        book={{ rating: 4.25, reviewCount: 4, ratingDistribution: [0, 0, 1, 1, 2] }}
+      />
+    );
+
+    expect(screen.getByText('4.3')).toBeInTheDocument();
+    expect(screen.getByText('4 reviews')).toBeInTheDocument();
+    expect(screen.getByRole('meter', { name: '5 star' })).toHaveAttribute('aria-valuenow', '50');
+    expect(screen.getByRole('meter', { name: '1 star' })).toHaveAttribute('aria-valuenow', '0');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { AuthContext, AuthContextType } from '@/contexts/AuthContext';
+import { ReadingListDetail } from '@/pages/ReadingListDetail';
+import { clearOfflineData, loadResponse } from '@/services/offline';
+import { clearQueryCache } from '@/services/queryCache';
+
+vi.mock('aws-amplify/auth', () => ({
+  fetchAuthSession: vi.fn(async () => ({
+    tokens: { idToken: { toString: () => 'test-token' } },
+  })),
+}));
+
+const LIST = {
+  id: 'list-1',
+  userId: 'user-1',
+  name: 'Holiday',
+  description: '',
+  bookIds: ['b1'],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const BOOK = { id: 'b1', title: 'Dune', author: 'Frank Herbert' };
+
+const auth = {
+  user: { id: 'user-1', email: 'reader@example.com', name: 'Reader', role: 'user' },
+  isAuthenticated: true,
+  isLoading: false,
+} as AuthContextType;
+
+function renderListPage() {
+  return render(
+    <AuthContext.Provider value={auth}>
+      <MemoryRouter initialEntries={['/reading-lists/list-1']}>
+        <Routes>
+          <Route path="/reading-lists/:id" element={<ReadingListDetail />} />
+        </Routes>
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+}
+
+describe('ReadingListDetail page', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await clearOfflineData();
+    clearQueryCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('shows the books of a list opened before while offline', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        String(url).endsWith('/books/batch')
+          ? new Response(JSON.stringify({ items: [BOOK] }))
+          : new Response(JSON.stringify(LIST))
+      )
+    );
+    const { unmount } = renderListPage();
+    expect(await screen.findByText('Dune')).toBeInTheDocument();
+    unmount();
+    await vi.waitFor(async () => expect(await loadResponse('/books/b1')).toBeDefined());
+
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      })
+    );
+    renderListPage();
+    expect(await screen.findByText('Holiday')).toBeInTheDocument();
+    expect(screen.getByText('Dune')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { AuthContext, AuthContextType } from '@/contexts/AuthContext';
+import { ReadingListDetail } from '@/pages/ReadingListDetail';
+import { ReadingLists } from '@/pages/ReadingLists';
+import { clearOfflineData, saveResponse } from '@/services/offline';
+import { clearQueryCache } from '@/services/queryCache';
+
+vi.mock('aws-amplify/auth', () => ({
+  fetchAuthSession: vi.fn(async () => ({
+    tokens: { idToken: { toString: () => 'test-token' } },
+  })),
+}));
+
+const auth = {
+  user: { id: 'user-1', email: 'reader@example.com', name: 'Reader', role: 'user' },
+  isAuthenticated: true,
+  isLoading: false,
+} as AuthContextType;
+
+describe('ReadingLists page', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await clearOfflineData();
+    clearQueryCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('lets the owner edit a list created while offline', async () => {
+    await saveResponse('/reading-lists', []);
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      })
+    );
+
+    render(
+      <AuthContext.Provider value={auth}>
+        <MemoryRouter initialEntries={['/reading-lists']}>
+          <Routes>
+            <Route path="/reading-lists" element={<ReadingLists />} />
+            <Route path="/reading-lists/:id" element={<ReadingListDetail />} />
+          </Routes>
+        </MemoryRouter>
+      </AuthContext.Provider>
+    );
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Create Your First List' }));
+    fireEvent.change(screen.getByPlaceholderText('e.g., Summer Reading 2024'), {
+      target: { value: 'Holiday' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Create List' }));
+    fireEvent.click(await screen.findByText('Holiday'));
+
+    expect(await screen.findByRole('button', { name: 'Delete List' })).toBeInTheDocument();
+  });
+});
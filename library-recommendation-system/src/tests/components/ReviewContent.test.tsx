@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ReviewContent } from '@/components/reviews/ReviewContent';
+
+describe('ReviewContent Component', () => {
+  it('renders raw HTML as text', () => {
+    const { container } = render(
+      <ReviewContent text={'<img src=x onerror="alert(1)"> <script>alert(1)</script>'} />
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('script')).toBeNull();
+    expect(container).toHaveTextContent('<img src=x onerror="alert(1)"> <script>alert(1)</script>');
+  });
+
+  it('renders links with rel=nofollow and drops javascript: links', () => {
+    render(
+      <ReviewContent text="[Publisher](https://example.com) and [bad](javascript:alert(1))" />
+    );
+
+    expect(screen.getByRole('link', { name: 'Publisher' })).toHaveAttribute(
+      'rel',
+      expect.stringContaining('nofollow')
+    );
+    expect(screen.queryByRole('link', { name: 'bad' })).toBeNull();
+  });
+
+  it('reveals a spoiler when clicked', () => {
+    render(<ReviewContent text="The butler ||did it||." />);
+
+    const spoiler = screen.getByRole('button', { name: /spoiler/i });
+    expect(spoiler).toHaveClass('blur-sm');
+
+    fireEvent.click(spoiler);
+
+    expect(screen.queryByRole('button', { name: /spoiler/i })).toBeNull();
+    expect(screen.getByText('did it')).toBeVisible();
+  });
+});
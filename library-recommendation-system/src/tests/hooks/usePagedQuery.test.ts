@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import { clearQueryCache, invalidateQueries } from '@/services/queryCache';
+import { Page } from '@/types';
+
+/** Fakes a server listing `items` two at a time */
+function serveItems(items: string[]) {
+  return vi.fn(async (cursor: string | undefined): Promise<Page<string>> => {
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + 2;
+    return {
+      items: items.slice(start, end),
+      nextCursor: end < items.length ? String(end) : null,
+      total: items.length,
+    };
+  });
+}
+
+describe('usePagedQuery', () => {
+  beforeEach(() => {
+    clearQueryCache();
+  });
+
+  it('appends the next page on loadMore', async () => {
+    const fetchPage = serveItems(['a', 'b', 'c']);
+    const { result } = renderHook(() => usePagedQuery('/items', fetchPage));
+
+    await waitFor(() => expect(result.current.items).toEqual(['a', 'b']));
+    expect(result.current.hasMore).toBe(true);
+
+    await act(() => result.current.loadMore());
+
+    expect(result.current.items).toEqual(['a', 'b', 'c']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('starts over when the first page is refetched', async () => {
+    const fetchPage = serveItems(['a', 'b', 'c', 'd']);
+    const { result } = renderHook(() => usePagedQuery('/items', fetchPage));
+
+    await waitFor(() => expect(result.current.items).toEqual(['a', 'b']));
+    await act(() => result.current.loadMore());
+    expect(result.current.items).toEqual(['a', 'b', 'c', 'd']);
+
+    // A new item shifts everything down one place on the server
+    fetchPage.mockImplementation(serveItems(['new', 'a', 'b', 'c', 'd']));
+    act(() => invalidateQueries('/items'));
+
+    await waitFor(() => expect(result.current.items).toEqual(['new', 'a']));
+    expect(result.current.hasMore).toBe(true);
+
+    await act(() => result.current.loadMore());
+    expect(result.current.items).toEqual(['new', 'a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useReadingListMutations } from '@/hooks/useReadingListMutations';
+import {
+  addBookToList,
+  getReadingList,
+  removeBookFromList,
+  updateReadingList,
+} from '@/services/api';
+import { ApiError } from '@/services/apiClient';
+import { ReadingList } from '@/types';
+import { getToasts } from '@/utils/toasts';
+
+vi.mock('@/services/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/api')>()),
+  addBookToList: vi.fn(),
+  getReadingList: vi.fn(),
+  removeBookFromList: vi.fn(),
+  updateReadingList: vi.fn(),
+}));
+
+const LIST: ReadingList = {
+  id: 'list-1',
+  userId: 'user-1',
+  name: 'Favourites',
+  description: '',
+  bookIds: ['a', 'b'],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const serverError = () =>
+  new ApiError({ status: 500, code: 'SERVER_ERROR', method: 'POST', path: '/reading-lists' });
+
+const conflictError = () =>
+  new ApiError({ status: 409, code: 'CONFLICT', method: 'PUT', path: '/reading-lists/list-1' });
+
+/** Fakes the server for the single-book calls, starting from `list` */
+function serveBookCalls(list: ReadingList) {
+  let current = list;
+  vi.mocked(addBookToList).mockImplementation(async (_id, bookId) => {
+    current = { ...current, bookIds: [...current.bookIds, bookId] };
+    return current;
+  });
+  vi.mocked(removeBookFromList).mockImplementation(async (_id, bookId) => {
+    current = { ...current, bookIds: current.bookIds.filter((id) => id !== bookId) };
+    return current;
+  });
+}
+
+describe('useReadingListMutations', () => {
+  beforeEach(() => {
+    vi.mocked(addBookToList).mockReset();
+    vi.mocked(removeBookFromList).mockReset();
+    vi.mocked(updateReadingList).mockReset();
+    vi.mocked(getReadingList).mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('shows the change before the server answers', async () => {
+    serveBookCalls(LIST);
+    const onUpdate = vi.fn();
+    const { result } = renderHook(() => useReadingListMutations(onUpdate));
+
+    act(() => result.current.mutate(LIST, { type: 'remove', bookIds: ['a'] }));
+
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ bookIds: ['b'] }));
+    await waitFor(() => expect(removeBookFromList).toHaveBeenCalledWith('list-1', 'a'));
+    expect(updateReadingList).not.toHaveBeenCalled();
+  });
+
+  it('rolls back a failed change and offers a retry', async () => {
+    serveBookCalls(LIST);
+    vi.mocked(addBookToList).mockRejectedValueOnce(serverError());
+    const onUpdate = vi.fn();
+    const { result } = renderHook(() => useReadingListMutations(onUpdate));
+
+    act(() => result.current.mutate(LIST, { type: 'add', bookId: 'c' }));
+
+    await waitFor(() => expect(onUpdate).toHaveBeenLastCalledWith(LIST));
+    const toast = getToasts().at(-1)!;
+    expect(toast).toMatchObject({ tone: 'error', action: { label: 'Retry' } });
+
+    act(() => toast.action!.onClick());
+
+    await waitFor(() => expect(addBookToList).toHaveBeenCalledTimes(2));
+    await waitFor(() =>
+      expect(onUpdate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ bookIds: ['a', 'b', 'c'] })
+      )
+    );
+  });
+
+  it('keeps later changes when an earlier one fails', async () => {
+    serveBookCalls(LIST);
+    vi.mocked(removeBookFromList).mockRejectedValueOnce(serverError());
+    const onUpdate = vi.fn();
+    const { result } = renderHook(() => useReadingListMutations(onUpdate));
+
+    act(() => {
+      result.current.mutate(LIST, { type: 'remove', bookIds: ['a'] });
+      result.current.mutate(LIST, { type: 'add', bookId: 'c' });
+    });
+
+    await waitFor(() => expect(addBookToList).toHaveBeenCalledWith('list-1', 'c'));
+    await waitFor(() =>
+      expect(onUpdate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ bookIds: ['a', 'b', 'c'] })
+      )
+    );
+  });
+
+  describe('conflicts', () => {
+    const theirs: ReadingList = {
+      ...LIST,
+      bookIds: ['a', 'x', 'b'],
+      updatedAt: '2026-01-02T00:00:00.000Z',
+    };
+
+    it('sends a reorder conditionally on the version it is based on', async () => {
+      vi.mocked(updateReadingList).mockImplementation(async (_id, list) => ({ ...LIST, ...list }));
+      const { result } = renderHook(() => useReadingListMutations(vi.fn()));
+
+      act(() => result.current.mutate(LIST, { type: 'move', bookId: 'b', toIndex: 0 }));
+
+      await waitFor(() => expect(updateReadingList).toHaveBeenCalled());
+      expect(vi.mocked(updateReadingList).mock.calls[0].slice(1)).toEqual([
+        { bookIds: ['b', 'a'] },
+        { ifMatch: LIST.updatedAt },
+      ]);
+    });
+
+    it('re-fetches and replays a reorder on the newer list', async () => {
+      vi.mocked(updateReadingList)
+        .mockRejectedValueOnce(conflictError())
+        .mockImplementation(async (_id, list) => ({ ...theirs, ...list }));
+      vi.mocked(getReadingList).mockResolvedValue(theirs);
+      const onUpdate = vi.fn();
+      const { result } = renderHook(() => useReadingListMutations(onUpdate));
+
+      act(() => result.current.mutate(LIST, { type: 'move', bookId: 'b', toIndex: 0 }));
+
+      await waitFor(() => expect(updateReadingList).toHaveBeenCalledTimes(2));
+      expect(vi.mocked(updateReadingList).mock.calls[1].slice(1)).toEqual([
+        { bookIds: ['b', 'a', 'x'] },
+        { ifMatch: theirs.updatedAt },
+      ]);
+      await waitFor(() =>
+        expect(onUpdate).toHaveBeenLastCalledWith(
+          expect.objectContaining({ bookIds: ['b', 'a', 'x'] })
+        )
+      );
+      expect(result.current.conflict).toBeNull();
+    });
+
+    it('reports a reorder that cannot be merged and can keep the user version', async () => {
+      const reordered = { ...theirs, bookIds: ['b', 'a', 'x'] };
+      vi.mocked(updateReadingList)
+        .mockRejectedValueOnce(conflictError())
+        .mockImplementation(async (_id, list) => ({ ...reordered, ...list }));
+      vi.mocked(getReadingList).mockResolvedValue(reordered);
+      const onUpdate = vi.fn();
+      const { result } = renderHook(() => useReadingListMutations(onUpdate));
+
+      act(() => result.current.mutate(LIST, { type: 'move', bookId: 'b', toIndex: 0 }));
+
+      await waitFor(() => expect(result.current.conflict).not.toBeNull());
+      expect(result.current.conflict).toMatchObject({ latest: reordered, mine: ['b', 'a'] });
+      expect(onUpdate).toHaveBeenLastCalledWith(reordered);
+
+      act(() => result.current.resolveConflict('mine'));
+
+      expect(result.current.conflict).toBeNull();
+      await waitFor(() => expect(updateReadingList).toHaveBeenCalledTimes(2));
+      expect(vi.mocked(updateReadingList).mock.calls[1].slice(1)).toEqual([
+        { bookIds: ['b', 'a'] },
+        { ifMatch: reordered.updatedAt },
+      ]);
+    });
+  });
+});
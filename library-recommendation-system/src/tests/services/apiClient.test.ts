@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getBooks } from '@/services/api';
+import { ApiError, parseRetryAfter, request, RetryPolicy } from '@/services/apiClient';
+import { clearOfflineData } from '@/services/offline';
+
+vi.mock('aws-amplify/auth', () => ({
+  fetchAuthSession: vi.fn(async () => ({
+    tokens: { idToken: { toString: () => 'test-token' } },
+  })),
+}));
+
+const FAST_RETRY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  maxRetryAfterMs: 1000,
+};
+
+function mockResponses(
+  ...responses: Array<{ status: number; body?: unknown; headers?: HeadersInit }>
+) {
+  const fetchMock = vi.fn();
+  responses.forEach(({ status, body, headers }) =>
+    fetchMock.mockImplementationOnce(
+      async () => new Response(body === undefined ? '' : JSON.stringify(body), { status, headers })
+    )
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function mockFetch(status: number, body: unknown) {
+  const fetchMock = vi.fn(
+    async () => new Response(typeof body === 'string' ? body : JSON.stringify(body), { status })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+async function captureError(promise: Promise<unknown>): Promise<ApiError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as ApiError;
+  }
+  throw new Error('Expected the request to fail');
+}
+
+describe('API client', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Network failures would otherwise be answered from the offline cache
+    await clearOfflineData();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('request', () => {
+    it('returns the parsed JSON body', async () => {
+      mockFetch(200, [{ id: '1' }]);
+      await expect(request('GET', '/books')).resolves.toEqual([{ id: '1' }]);
+    });
+
+    it('unwraps Lambda proxy envelopes', async () => {
+      mockFetch(200, { statusCode: 200, body: JSON.stringify({ id: '1' }) });
+      await expect(request('GET', '/books/1')).resolves.toEqual({ id: '1' });
+    });
+
+    it('attaches auth and content headers when requested', async () => {
+      const fetchMock = mockFetch(201, { id: '1' });
+      await request('POST', '/reading-lists', { body: { name: 'A' }, auth: true });
+
+      const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(init.headers).toEqual({
+        Authorization: 'Bearer test-token',
+        'Content-Type': 'application/json',
+      });
+      expect(init.body).toBe(JSON.stringify({ name: 'A' }));
+    });
+  });
+
+  describe('ApiError', () => {
+    it('carries status, code, server message and path', async () => {
+      mockFetch(404, { message: 'Book not found' });
+
+      const error = await captureError(request('GET', '/books/42'));
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(404);
+      expect(error.code).toBe('NOT_FOUND');
+      expect(error.serverMessage).toBe('Book not found');
+      expect(error.path).toBe('/books/42');
+      expect(error.message).toBe('Book not found');
+    });
+
+    it('uses the status embedded in a Lambda proxy envelope', async () => {
+      mockFetch(200, { statusCode: 409, body: JSON.stringify({ error: 'Version mismatch' }) });
+
+      const error = await captureError(request('PUT', '/reading-lists/1'));
+      expect(error.status).toBe(409);
+      expect(error.code).toBe('CONFLICT');
+      expect(error.serverMessage).toBe('Version mismatch');
+    });
+
+    it('falls back to a default message when the body has none', async () => {
+      mockFetch(500, '');
+
+      const error = await captureError(request('GET', '/books'));
+      expect(error.code).toBe('SERVER_ERROR');
+      expect(error.serverMessage).toBeUndefined();
+      expect(error.message).toMatch(/server encountered an error/);
+    });
+
+    it('reports network failures with status 0', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => {
+          throw new TypeError('Failed to fetch');
+        })
+      );
+
+      const error = await captureError(request('GET', '/books'));
+      expect(error.status).toBe(0);
+      expect(error.code).toBe('NETWORK_ERROR');
+    });
+  });
+
+  describe('retries', () => {
+    it('retries GET requests on transient server errors', async () => {
+      const fetchMock = mockResponses({ status: 503 }, { status: 200, body: ['ok'] });
+
+      await expect(request('GET', '/books', { retry: FAST_RETRY })).resolves.toEqual(['ok']);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+      const fetchMock = mockResponses({ status: 500 }, { status: 502 }, { status: 503 });
+
+      const error = await captureError(request('GET', '/books', { retry: FAST_RETRY }));
+      expect(error.status).toBe(503);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors', async () => {
+      const fetchMock = mockResponses({ status: 404 });
+
+      await captureError(request('GET', '/books/1', { retry: FAST_RETRY }));
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry POST requests without an idempotency key', async () => {
+      const fetchMock = mockResponses({ status: 503 }, { status: 201, body: {} });
+
+      await captureError(request('POST', '/reading-lists', { body: {}, retry: FAST_RETRY }));
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries POST requests that carry an idempotency key', async () => {
+      const fetchMock = mockResponses({ status: 503 }, { status: 201, body: { id: '1' } });
+
+      await request('POST', '/reading-lists', {
+        body: {},
+        idempotencyKey: 'key-1',
+        retry: FAST_RETRY,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+      expect(init.headers).toMatchObject({ 'Idempotency-Key': 'key-1' });
+    });
+
+    it('surfaces Retry-After delays longer than the policy allows', async () => {
+      const fetchMock = mockResponses({ status: 429, headers: { 'Retry-After': '3600' } });
+
+      const error = await captureError(request('GET', '/books', { retry: FAST_RETRY }));
+      expect(error.code).toBe('RATE_LIMITED');
+      expect(error.retryAfterMs).toBe(3_600_000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('rejects with ABORTED without sending when the signal is already aborted', async () => {
+      const fetchMock = mockFetch(200, []);
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await captureError(request('GET', '/books', { signal: controller.signal }));
+      expect(error.code).toBe('ABORTED');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('stops retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const fetchMock = vi.fn(async () => {
+        controller.abort();
+        return new Response('', { status: 503 });
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const error = await captureError(
+        request('GET', '/books', { retry: FAST_RETRY, signal: controller.signal })
+      );
+      expect(error.code).toBe('ABORTED');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('legacy catalog responses', () => {
+    it("filters a bare catalog array on the reader's statuses", async () => {
+      const fetchMock = mockResponses(
+        {
+          status: 200,
+          body: [
+            { id: '1', title: 'Dune', author: 'Frank Herbert' },
+            { id: '2', title: 'Emma', author: 'Jane Austen' },
+          ],
+        },
+        {
+          status: 200,
+          body: {
+            items: [
+              { bookId: '2', userId: 'u1', status: 'finished', updatedAt: '2026-01-01' },
+              { bookId: '1', userId: 'u1', status: 'reading', updatedAt: '2026-01-02' },
+            ],
+          },
+        }
+      );
+
+      const page = await getBooks({ readingStatus: 'finished', userId: 'u1' });
+      expect(page.items.map((book) => book.id)).toEqual(['2']);
+      expect(String(fetchMock.mock.calls[1][0])).toContain('/users/u1/reading-statuses');
+    });
+
+    it('rejects a reading status filter without the reader before sending it', async () => {
+      const fetchMock = mockResponses();
+
+      await expect(getBooks({ readingStatus: 'finished' })).rejects.toMatchObject({
+        name: 'ApiError',
+        code: 'VALIDATION_FAILED',
+        path: '/books?readingStatus=finished',
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('parses delta-seconds', () => {
+      expect(parseRetryAfter('120')).toBe(120_000);
+    });
+
+    it('parses HTTP dates relative to now', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30_000);
+    });
+
+    it('ignores missing or malformed values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
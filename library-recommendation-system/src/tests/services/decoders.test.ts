@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiError } from '@/services/apiClient';
+import {
+  DecodeError,
+  decodeBook,
+  decodeList,
+  decodeReadingList,
+  decodeRecommendation,
+  decodeResponse,
+  decodeReview,
+  decodeReviewComment,
+} from '@/services/decoders';
+
+const context = { method: 'GET' as const, path: '/books' };
+
+describe('Response decoders', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('decodeBook', () => {
+    it('coerces numeric ids and numeric strings', () => {
+      const book = decodeBook({ id: 7, title: 'Dune', author: 'Frank Herbert', rating: '4.5' });
+      expect(book).toMatchObject({ id: '7', rating: 4.5, genres: [], tags: [], coverImage: '' });
+    });
+
+    it('reads a legacy single genre and tolerates loose formats', () => {
+      const base = { id: '1', title: 'Dune', author: 'Frank Herbert' };
+      expect(decodeBook({ ...base, genre: 'Science Fiction' })).toMatchObject({
+        genres: ['Science Fiction'],
+        pageCount: 0,
+        language: '',
+        format: undefined,
+      });
+      expect(decodeBook({ ...base, genres: ['Classic'], genre: 'Fiction' }).genres).toEqual([
+        'Classic',
+      ]);
+      expect(decodeBook({ ...base, format: 'E-Book' }).format).toBe('ebook');
+      expect(decodeBook({ ...base, format: 'scroll' }).format).toBeUndefined();
+    });
+
+    it('reads rating distributions as arrays or star maps', () => {
+      const base = { id: '1', title: 'Dune', author: 'Frank Herbert' };
+      expect(decodeBook(base)).toMatchObject({
+        reviewCount: 0,
+        ratingDistribution: [0, 0, 0, 0, 0],
+      });
+      expect(
+        decodeBook({ ...base, ratingDistribution: [0, 0, 1, '2', 3] }).ratingDistribution
+      ).toEqual([0, 0, 1, 2, 3]);
+      expect(
+        decodeBook({ ...base, ratingDistribution: { 5: 4, 1: 1 } }).ratingDistribution
+      ).toEqual([1, 0, 0, 0, 4]);
+      expect(() => decodeBook({ ...base, ratingDistribution: [1, 2] })).toThrow(DecodeError);
+    });
+
+    it('reads editions, defaulting to none', () => {
+      const base = { id: '1', title: 'Dune', author: 'Frank Herbert' };
+      expect(decodeBook(base).editions).toEqual([]);
+      expect(
+        decodeBook({ ...base, editions: [{ id: 2, isbn: '978', format: 'Audio Book' }] }).editions
+      ).toEqual([
+        {
+          id: '2',
+          isbn: '978',
+          format: 'audiobook',
+          publisher: '',
+          publishedYear: 0,
+          coverImage: '',
+          pageCount: 0,
+          language: '',
+        },
+      ]);
+      expect(() => decodeBook({ ...base, editions: {} })).toThrow(DecodeError);
+    });
+
+    it('names the field that failed', () => {
+      expect(() => decodeBook({ id: '1', title: 'Dune', author: 42 })).toThrow(
+        new DecodeError('author', 'string', 42)
+      );
+    });
+  });
+
+  it('maps the legacy books field of reading lists to bookIds', () => {
+    const list = decodeReadingList({
+      id: 'list-1',
+      userId: 'u1',
+      name: 'Summer',
+      books: ['1', '2'],
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+    expect(list.bookIds).toEqual(['1', '2']);
+    expect(list.updatedAt).toBe(list.createdAt);
+  });
+
+  it('rejects reviews with out-of-range ratings', () => {
+    expect(() =>
+      decodeReview({ id: 'r', bookId: '1', userId: 'u', rating: 9, createdAt: '2024-01-01' })
+    ).toThrow(DecodeError);
+  });
+
+  it('reads comments without a status or parent as published top-level comments', () => {
+    expect(
+      decodeReviewComment({
+        id: 7,
+        reviewId: 'r',
+        bookId: 1,
+        userId: 'u',
+        parentId: null,
+        body: 'Agreed',
+        createdAt: '2024-01-01',
+      })
+    ).toEqual({
+      id: '7',
+      reviewId: 'r',
+      bookId: '1',
+      parentId: undefined,
+      userId: 'u',
+      userName: undefined,
+      body: 'Agreed',
+      createdAt: '2024-01-01',
+      status: 'published',
+      moderation: undefined,
+    });
+  });
+
+  it('defaults the id of recommendations to the book id', () => {
+    expect(decodeRecommendation({ bookId: '3', reason: 'Fits', confidence: 0.9 }).id).toBe('3');
+  });
+
+  describe('decodeList', () => {
+    it('drops invalid records and logs a diagnostic', () => {
+      const books = decodeList(
+        decodeBook,
+        { items: [{ id: '1', title: 'A', author: 'B' }, { id: '2' }] },
+        context,
+        'items'
+      );
+      expect(books.map((book) => book.id)).toEqual(['1']);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Dropped invalid record 1 from GET /books: title'),
+        { id: '2' }
+      );
+    });
+
+    it('fails with INVALID_RESPONSE when the envelope holds no array', () => {
+      try {
+        decodeList(decodeBook, { data: [] }, context, 'items');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ApiError);
+        expect((error as ApiError).code).toBe('INVALID_RESPONSE');
+        expect((error as ApiError).detail).toBe('expected an array or { items: [...] }');
+      }
+    });
+  });
+
+  it('fails a single-record response with INVALID_RESPONSE', () => {
+    expect(() => decodeResponse(decodeBook, 'oops', context)).toThrow(ApiError);
+  });
+});
@@ -0,0 +1,564 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { localBackend, resetLocalDatabase } from '@/services/local';
+import { setBackend } from '@/services/backend';
+import { signInLocalUser, signOutLocalUser } from '@/services/local/users';
+import {
+  ApiError,
+  addBookToList,
+  addBookToLists,
+  clearReadingStatus,
+  createBook,
+  createReadingList,
+  createReview,
+  createReviewComment,
+  createSeries,
+  deleteBook,
+  deleteReview,
+  deleteReviewComment,
+  getAllBooks,
+  getAuthor,
+  getAuthorBooks,
+  getBook,
+  getBookFacets,
+  getBooks,
+  getBooksByIds,
+  getHelpfulVotes,
+  getOwnReview,
+  getRecentReviews,
+  getReportedComments,
+  getReportedReviews,
+  getReadingList,
+  getReadingLists,
+  getReadingStatuses,
+  getReviewComments,
+  getReviews,
+  getSeries,
+  getSeriesBooks,
+  getSeriesList,
+  mergeAuthors,
+  mergeBooks,
+  moderateReview,
+  moderateReviewComment,
+  removeBookFromList,
+  updateAuthor,
+  updateBook,
+  reportReview,
+  reportReviewComment,
+  setHelpfulVote,
+  setReadingStatus,
+  updateReadingList,
+  updateReview,
+} from '@/services/api';
+
+describe('Local backend', () => {
+  beforeAll(() => {
+    setBackend(localBackend);
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    resetLocalDatabase();
+  });
+
+  it('serves the seeded catalog', async () => {
+    const books = await getAllBooks();
+    expect(books).toHaveLength(10);
+    expect(books.find((book) => book.id === '1')?.coverImage).toBe(
+      '/book-covers/atomic-habits.jpg'
+    );
+  });
+
+  it('pages through the catalog with cursors', async () => {
+    const first = await getBooks({ limit: 4 });
+    expect(first.items).toHaveLength(4);
+    expect(first.total).toBe(10);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await getBooks({ limit: 4, cursor: first.nextCursor! });
+    const third = await getBooks({ limit: 4, cursor: second.nextCursor! });
+    expect(third.items).toHaveLength(2);
+    expect(third.nextCursor).toBeNull();
+
+    const ids = [...first.items, ...second.items, ...third.items].map((book) => book.id);
+    expect(new Set(ids).size).toBe(10);
+  });
+
+  it('resumes after a cursor whose record was deleted', async () => {
+    const first = await getBooks({ limit: 4 });
+
+    signInLocalUser('admin@library.local', 'Password123');
+    await deleteBook(first.items[3].id);
+
+    // The next page starts right after the deleted book instead of failing
+    const rest = await getBooks({ limit: 10, cursor: first.nextCursor! });
+    expect(rest.total).toBe(9);
+    expect(rest.items.map((book) => book.id)).toEqual(
+      (await getAllBooks()).slice(3).map((book) => book.id)
+    );
+  });
+
+  it('filters and sorts the catalog on the server', async () => {
+    const page = await getBooks({ genre: 'science fiction', minRating: 4.5, sort: 'year' });
+    expect(page.total).toBe(2);
+    expect(page.items.map((book) => book.title)).toEqual(['Project Hail Mary', 'Dune']);
+
+    const recent = await getBooks({ yearFrom: 2020, sort: 'year' });
+    expect(recent.items.every((book) => book.publishedYear >= 2020)).toBe(true);
+    expect(recent.items[0].publishedYear).toBe(2021);
+  });
+
+  it('filters by tag and page count and lists the catalog facets', async () => {
+    const picks = await getBooks({ tag: 'Book Club Pick', sort: 'title' });
+    expect(picks.items.map((book) => book.title)).toEqual([
+      'The Midnight Library',
+      'The Seven Husbands of Evelyn Hugo',
+    ]);
+    expect((await getBooks({ minPages: 401 })).total).toBe(2);
+
+    const facets = await getBookFacets();
+    expect(facets.genres).toContain('Science Fiction');
+    expect(facets.languages).toEqual(['English']);
+    // Formats of every edition are offered, not just the default ones
+    expect(facets.formats).toEqual(['hardcover', 'paperback', 'ebook', 'audiobook']);
+  });
+
+  it('lists the books of a series in reading order', async () => {
+    signInLocalUser('admin@library.local', 'Password123');
+    const dune = (await getBook('2'))!;
+    const { seriesId } = dune;
+    expect((await getSeries(seriesId!))?.name).toBe('Dune Chronicles');
+
+    const messiah = await createBook({ ...dune, title: 'Dune Messiah', seriesPosition: 2 });
+    await createBook({ ...dune, title: 'Sandworm Sketches', seriesPosition: 1.5 });
+    const books = await getSeriesBooks(seriesId!);
+    expect(books.map((book) => book.title)).toEqual(['Dune', 'Sandworm Sketches', 'Dune Messiah']);
+
+    // PUT replaces the details: leaving the series out takes the book out of it
+    const standalone = { ...messiah, seriesId: undefined, seriesPosition: undefined };
+    expect((await updateBook(messiah.id, standalone)).seriesId).toBeUndefined();
+    expect(await getSeriesBooks(seriesId!)).toHaveLength(2);
+  });
+
+  it('lets admins create series and rejects unknown series ids', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await expect(createSeries({ name: 'Discworld', description: '' })).rejects.toMatchObject({
+      status: 403,
+    });
+
+    signInLocalUser('admin@library.local', 'Password123');
+    const series = await createSeries({ name: 'Discworld', description: '' });
+    expect((await getSeriesList()).map((item) => item.name)).toContain('Discworld');
+    await expect(getSeries('missing')).resolves.toBeNull();
+
+    const book = (await getBook('1'))!;
+    await expect(updateBook('1', { ...book, seriesId: 'missing' })).rejects.toMatchObject({
+      status: 400,
+    });
+    expect((await updateBook('1', { ...book, seriesId: series.id })).seriesId).toBe(series.id);
+  });
+
+  it('links books to authors by name and merges duplicate names', async () => {
+    signInLocalUser('admin@library.local', 'Password123');
+    const evelyn = (await getBook('4'))!;
+    expect(evelyn.authorId).toBe('author-4');
+
+    const daisy = await createBook({
+      ...evelyn,
+      title: 'Daisy Jones & The Six',
+      author: 'T. J. Reid',
+      publishedYear: 2019,
+    });
+    expect(daisy.authorId).not.toBe('author-4');
+
+    const merged = await mergeAuthors({
+      names: ['Taylor Jenkins Reid', 'T. J. Reid'],
+      name: 'Taylor Jenkins Reid',
+    });
+    expect(merged).toMatchObject({ id: 'author-4', aliases: ['T. J. Reid'] });
+    expect(await getAuthor(daisy.authorId!)).toBeNull();
+    const books = await getAuthorBooks('author-4');
+    expect(books.map((book) => book.title)).toEqual([
+      'Daisy Jones & The Six',
+      'The Seven Husbands of Evelyn Hugo',
+    ]);
+    // The printed name is kept; new books under the alias link straight away
+    expect(books[0].author).toBe('T. J. Reid');
+    expect((await createBook({ ...evelyn, author: 't. j. reid' })).authorId).toBe('author-4');
+  });
+
+  it('keeps renamed authors reachable and refuses names of other authors', async () => {
+    signInLocalUser('admin@library.local', 'Password123');
+    const author = (await getAuthor('author-2'))!;
+    const renamed = await updateAuthor(author.id, { ...author, name: 'Frank Patrick Herbert' });
+    expect(renamed.aliases).toEqual(['Frank Herbert']);
+
+    await expect(
+      updateAuthor(author.id, { ...renamed, aliases: ['Andy Weir'] })
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('merges a duplicate book into a work as an edition with its reviews', async () => {
+    signInLocalUser('admin@library.local', 'Password123');
+    const work = (await getBook('1'))!;
+    const ebook = await createBook({ ...work, format: 'ebook', isbn: '9780735211308' });
+    await createReview({ bookId: '1', userId: 'local-admin', rating: 5, comment: 'Kept' });
+    await createReview({ bookId: ebook.id, userId: 'local-admin', rating: 1, comment: 'Dropped' });
+
+    signInLocalUser('reader@library.local', 'Password123');
+    await createReview({ bookId: ebook.id, userId: 'local-reader', rating: 3, comment: 'Moved' });
+    await addBookToList('list-1', '1');
+    const beforeMerge = await addBookToList('list-1', ebook.id);
+    await expect(mergeBooks('1', [ebook.id])).rejects.toMatchObject({ status: 403 });
+
+    signInLocalUser('admin@library.local', 'Password123');
+    const merged = await mergeBooks('1', [ebook.id]);
+    expect(merged.editions.map((edition) => [edition.id, edition.format])).toEqual([
+      ['1', 'hardcover'],
+      [ebook.id, 'ebook'],
+    ]);
+    expect(merged).toMatchObject({ reviewCount: 2, rating: 4 });
+    expect(await getBook(ebook.id)).toBeNull();
+    const { items } = await getReviews('1', { sort: 'highest' });
+    expect(items.map((review) => review.comment)).toEqual(['Kept', 'Moved']);
+    expect((await getBooks({ query: '978-0735211308' })).items.map((book) => book.id)).toEqual([
+      '1',
+    ]);
+
+    signInLocalUser('reader@library.local', 'Password123');
+    const { bookIds } = await getReadingList('list-1');
+    expect(bookIds.filter((id) => id === '1')).toHaveLength(1);
+    expect(bookIds).not.toContain(ebook.id);
+    await expect(
+      updateReadingList('list-1', { bookIds: [ebook.id] }, { ifMatch: beforeMerge.updatedAt })
+    ).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('batch-fetches books in the requested order and reports missing ids', async () => {
+    const { books, missingIds } = await getBooksByIds(['7', 'gone', '2', '7']);
+    expect(books.map((book) => book.id)).toEqual(['7', '2']);
+    expect(missingIds).toEqual(['gone']);
+  });
+
+  it('returns null for unknown books', async () => {
+    await expect(getBook('missing')).resolves.toBeNull();
+  });
+
+  it('rejects reading list calls without a session', async () => {
+    signOutLocalUser();
+    const error = await getReadingLists().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).status).toBe(401);
+  });
+
+  it('scopes reading lists to the signed-in user', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    const created = await createReadingList({
+      userId: 'ignored',
+      name: 'Weekend',
+      description: '',
+      bookIds: ['1'],
+    });
+    expect(created.userId).toBe('local-reader');
+
+    const lists = await getReadingLists();
+    expect(lists.map((list) => list.name)).toContain('Weekend');
+
+    signInLocalUser('admin@library.local', 'Password123');
+    const error = await updateReadingList(created.id, { bookIds: [] }).catch((e: unknown) => e);
+    expect((error as ApiError).status).toBe(403);
+  });
+
+  it('fetches a single reading list with 404 and 403 errors', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await expect(getReadingList('list-1')).resolves.toMatchObject({ name: 'Summer Reading' });
+
+    const missing = await getReadingList('nope').catch((e: unknown) => e);
+    expect((missing as ApiError).status).toBe(404);
+
+    signInLocalUser('admin@library.local', 'Password123');
+    const forbidden = await getReadingList('list-1').catch((e: unknown) => e);
+    expect((forbidden as ApiError).code).toBe('FORBIDDEN');
+  });
+
+  it('rejects conditional reading list writes based on a stale copy', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    const list = await getReadingList('list-1');
+
+    const saved = await updateReadingList(
+      'list-1',
+      { bookIds: ['1'] },
+      { ifMatch: list.updatedAt }
+    );
+    expect(saved.updatedAt).not.toBe(list.updatedAt);
+
+    const stale = await updateReadingList(
+      'list-1',
+      { bookIds: ['2'] },
+      { ifMatch: list.updatedAt }
+    ).catch((e: unknown) => e);
+    expect((stale as ApiError).code).toBe('CONFLICT');
+    await expect(getReadingList('list-1')).resolves.toMatchObject({ bookIds: ['1'] });
+  });
+
+  it('adds and removes single books without touching the rest of the list', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    const { bookIds } = await getReadingList('list-1');
+    const newBook = ['1', '2', '3'].find((id) => !bookIds.includes(id))!;
+
+    const added = await addBookToList('list-1', newBook);
+    expect(added.bookIds).toEqual([...bookIds, newBook]);
+    await expect(addBookToList('list-1', newBook)).resolves.toMatchObject({
+      bookIds: added.bookIds,
+    });
+
+    const removed = await removeBookFromList('list-1', newBook);
+    expect(removed.bookIds).toEqual(bookIds);
+    expect(removed.name).toBe('Summer Reading');
+  });
+
+  it("adds a book to several lists, or to none if one is not the caller's", async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    const second = await createReadingList({
+      userId: 'ignored',
+      name: 'Second',
+      description: '',
+      bookIds: [],
+    });
+
+    const lists = await addBookToLists('3', [second.id, 'list-1']);
+    expect(lists.map((list) => list.id)).toEqual([second.id, 'list-1']);
+    expect(lists.every((list) => list.bookIds.includes('3'))).toBe(true);
+
+    const error = await addBookToLists('4', [second.id, 'nope']).catch((e: unknown) => e);
+    expect((error as ApiError).status).toBe(404);
+    await expect(getReadingList(second.id)).resolves.toMatchObject({ bookIds: ['3'] });
+  });
+
+  it("tracks the reader's status per book and filters the catalog by it", async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    expect((await getReadingStatuses('local-reader')).map((entry) => entry.bookId)).toEqual([
+      '7',
+      '5',
+      '2',
+    ]);
+
+    const status = await setReadingStatus('local-reader', '1', {
+      status: 'finished',
+      startedOn: '2024-01-02',
+      finishedOn: '2024-01-20',
+    });
+    expect(status).toMatchObject({ bookId: '1', userId: 'local-reader', status: 'finished' });
+    await setReadingStatus('local-reader', '7', { status: 'abandoned' });
+    await clearReadingStatus('local-reader', '5');
+
+    const finished = await getBooks({ readingStatus: 'finished', userId: 'local-reader' });
+    expect(finished.items.map((book) => book.id).sort()).toEqual(['1', '2']);
+    const statuses = await getReadingStatuses('local-reader');
+    expect(Object.fromEntries(statuses.map((entry) => [entry.bookId, entry.status]))).toEqual({
+      '1': 'finished',
+      '2': 'finished',
+      '7': 'abandoned',
+    });
+
+    await expect(
+      setReadingStatus('local-reader', '1', {
+        status: 'finished',
+        startedOn: '2024-02-01',
+        finishedOn: '2024-01-01',
+      })
+    ).rejects.toMatchObject({ status: 400 });
+    await expect(getReadingStatuses('local-admin')).rejects.toMatchObject({ status: 403 });
+    await expect(
+      getBooks({ readingStatus: 'finished', userId: 'local-admin' })
+    ).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('persists reviews across calls', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await createReview({ bookId: '1', userId: 'local-reader', rating: 4, comment: 'Useful' });
+
+    const { items } = await getReviews('1');
+    expect(items).toHaveLength(1);
+    expect(items[0].userName).toBe('Demo Reader');
+  });
+
+  it('allows one review per user per book', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await createReview({ bookId: '1', userId: 'local-reader', rating: 4, comment: 'First' });
+
+    const error = await createReview({
+      bookId: '1',
+      userId: 'local-reader',
+      rating: 2,
+      comment: 'Second',
+    }).catch((e: unknown) => e);
+    expect((error as ApiError).code).toBe('CONFLICT');
+  });
+
+  it('lets authors edit their reviews and admins delete any review', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    const review = await createReview({
+      bookId: '1',
+      userId: 'local-reader',
+      rating: 4,
+      comment: 'Typo',
+    });
+
+    const edited = await updateReview('1', review.id, { comment: 'Fixed' });
+    expect(edited).toMatchObject({ comment: 'Fixed', rating: 4 });
+    expect(edited.updatedAt).toBeDefined();
+
+    signInLocalUser('admin@library.local', 'Password123');
+    const forbidden = await updateReview('1', review.id, { comment: 'Hijacked' }).catch(
+      (e: unknown) => e
+    );
+    expect((forbidden as ApiError).status).toBe(403);
+
+    await deleteReview('1', review.id);
+    await expect(getReviews('1')).resolves.toMatchObject({ items: [], total: 0 });
+  });
+
+  it('pages, sorts and filters reviews on the server', async () => {
+    const first = await getReviews('7', { sort: 'lowest', limit: 1 });
+    expect(first.items.map((review) => review.rating)).toEqual([4]);
+    expect(first.total).toBe(2);
+
+    const second = await getReviews('7', { sort: 'lowest', limit: 1, cursor: first.nextCursor! });
+    expect(second.items.map((review) => review.rating)).toEqual([5]);
+    expect(second.nextCursor).toBeNull();
+
+    const fiveStar = await getReviews('7', { rating: 5 });
+    expect(fiveStar.items.map((review) => review.id)).toEqual(['review-1']);
+    await expect(getOwnReview('7', 'local-admin')).resolves.toMatchObject({ id: 'review-2' });
+    await expect(getOwnReview('1', 'local-admin')).resolves.toBeNull();
+  });
+
+  it('counts one helpful vote per reader', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await setHelpfulVote('7', 'review-2', true);
+    const voted = await setHelpfulVote('7', 'review-2', true);
+    expect(voted.helpfulCount).toBe(2);
+    await expect(getHelpfulVotes('local-reader', '7')).resolves.toEqual(['review-2']);
+
+    const own = await setHelpfulVote('7', 'review-1', true).catch((e: unknown) => e);
+    expect((own as ApiError).status).toBe(403);
+
+    await expect(setHelpfulVote('7', 'review-2', false)).resolves.toMatchObject({
+      helpfulCount: 1,
+    });
+    await expect(getHelpfulVotes('local-reader', '7')).resolves.toEqual([]);
+  });
+
+  it('queues reported reviews for admins', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await reportReview('7', 'review-2', 'Spoils the ending');
+    const again = await reportReview('7', 'review-2', 'Still spoils it').catch((e: unknown) => e);
+    expect((again as ApiError).code).toBe('CONFLICT');
+    expect(((await getReportedReviews().catch((e: unknown) => e)) as ApiError).status).toBe(403);
+
+    signInLocalUser('admin@library.local', 'Password123');
+    const queue = await getReportedReviews();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].review.id).toBe('review-2');
+    expect(queue[0].reports.map((report) => report.reason)).toEqual(['Spoils the ending']);
+  });
+
+  it('hides moderated reviews from everyone but admins and their author', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await reportReview('7', 'review-2', 'Off-topic');
+
+    signInLocalUser('admin@library.local', 'Password123');
+    const missingReason = await moderateReview('7', 'review-2', 'hide', ' ').catch(
+      (e: unknown) => e
+    );
+    expect((missingReason as ApiError).status).toBe(400);
+    const hidden = await moderateReview('7', 'review-2', 'hide', 'Off-topic');
+    expect(hidden).toMatchObject({ status: 'hidden', moderation: { reason: 'Off-topic' } });
+    await expect(getReportedReviews()).resolves.toEqual([]);
+    expect((await getReviews('7')).items.map((review) => review.id)).toContain('review-2');
+    await expect(getBook('7')).resolves.toMatchObject({ rating: 5, reviewCount: 1 });
+
+    signInLocalUser('reader@library.local', 'Password123');
+    expect((await getReviews('7')).items.map((review) => review.id)).toEqual(['review-1']);
+
+    signInLocalUser('admin@library.local', 'Password123');
+    await moderateReview('7', 'review-1', 'delete', 'Spam');
+    const recent = await getRecentReviews();
+    expect(recent.items.map((review) => review.id)).toEqual(['review-2', 'review-3']);
+  });
+
+  it('threads comments one level deep under a review', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    const reply = await createReviewComment('7', 'review-1', {
+      body: 'Thanks!',
+      parentId: 'comment-1',
+    });
+    const nested = await createReviewComment('7', 'review-1', {
+      body: 'Too deep',
+      parentId: reply.id,
+    }).catch((e: unknown) => e);
+    expect((nested as ApiError).status).toBe(400);
+
+    const thread = await getReviewComments('7', 'review-1');
+    expect(thread.map((comment) => [comment.userName, comment.parentId])).toEqual([
+      ['Library Admin', undefined],
+      ['Demo Reader', 'comment-1'],
+    ]);
+    expect((await getReviews('7')).items.find((r) => r.id === 'review-1')?.commentCount).toBe(2);
+
+    const forbidden = await deleteReviewComment('7', 'review-1', 'comment-1').catch(
+      (e: unknown) => e
+    );
+    expect((forbidden as ApiError).status).toBe(403);
+
+    signInLocalUser('admin@library.local', 'Password123');
+    await deleteReviewComment('7', 'review-1', 'comment-1');
+    await expect(getReviewComments('7', 'review-1')).resolves.toEqual([]);
+  });
+
+  it('moderates reported comments like reviews', async () => {
+    signInLocalUser('reader@library.local', 'Password123');
+    await reportReviewComment('7', 'review-1', 'comment-1', 'Rude');
+    await expect(getReportedReviews()).rejects.toMatchObject({ status: 403 });
+
+    signInLocalUser('admin@library.local', 'Password123');
+    await expect(getReportedReviews()).resolves.toEqual([]);
+    const [reported] = await getReportedComments();
+    expect(reported.comment.id).toBe('comment-1');
+    expect(reported.reports.map((report) => report.reason)).toEqual(['Rude']);
+
+    await moderateReviewComment('7', 'review-1', 'comment-1', 'hide', 'Rude');
+    await expect(getReportedComments()).resolves.toEqual([]);
+    expect((await getReviewComments('7', 'review-1'))[0].status).toBe('hidden');
+
+    signInLocalUser('reader@library.local', 'Password123');
+    await expect(getReviewComments('7', 'review-1')).resolves.toEqual([]);
+    expect((await getReviews('7')).items.find((r) => r.id === 'review-1')?.commentCount).toBe(0);
+  });
+
+  it('derives book ratings from reviews', async () => {
+    await expect(getBook('7')).resolves.toMatchObject({
+      rating: 4.5,
+      reviewCount: 2,
+      ratingDistribution: [0, 0, 0, 1, 1],
+    });
+
+    signInLocalUser('reader@library.local', 'Password123');
+    const review = await createReview({
+      bookId: '1',
+      userId: 'local-reader',
+      rating: 2,
+      comment: 'Not for me',
+    });
+    await expect(getBook('1')).resolves.toMatchObject({ rating: 2, reviewCount: 1 });
+
+    await updateReview('1', review.id, { rating: 3 });
+    await expect(getBook('1')).resolves.toMatchObject({
+      rating: 3,
+      ratingDistribution: [0, 0, 1, 0, 0],
+    });
+
+    await deleteReview('1', review.id);
+    await expect(getBook('1')).resolves.toMatchObject({ rating: 0, reviewCount: 0 });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createReadingList, createReview, getReviews, updateReadingList } from '@/services/api';
+import { request } from '@/services/apiClient';
+import {
+  clearOfflineData,
+  getOfflineSyncState,
+  loadResponse,
+  replayMutations,
+} from '@/services/offline';
+
+vi.mock('aws-amplify/auth', () => ({
+  fetchAuthSession: vi.fn(async () => ({
+    tokens: { idToken: { toString: () => 'test-token' } },
+  })),
+}));
+
+function setOnline(online: boolean) {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+}
+
+function failingFetch() {
+  const fetchMock = vi.fn(async () => {
+    throw new TypeError('Failed to fetch');
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const NEW_LIST = { userId: 'user-1', name: 'Holiday', description: '', bookIds: [] };
+
+describe('Offline mode', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await clearOfflineData();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('cached reads', () => {
+    it('serves the last successful GET when the network fails', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(JSON.stringify({ id: '1' })))
+      );
+      await request('GET', '/books/1');
+      await vi.waitFor(async () => expect(await loadResponse('/books/1')).toEqual({ id: '1' }));
+
+      failingFetch();
+      await expect(request('GET', '/books/1')).resolves.toEqual({ id: '1' });
+    });
+
+    it('still fails when nothing was cached', async () => {
+      failingFetch();
+      await expect(request('GET', '/books/2')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    });
+  });
+
+  describe('queued writes', () => {
+    it('queues a reading list created offline and returns it with a temporary id', async () => {
+      setOnline(false);
+      const fetchMock = failingFetch();
+
+      const list = await createReadingList(NEW_LIST);
+
+      expect(list.id).toMatch(/^offline-/);
+      expect(list.name).toBe('Holiday');
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(getOfflineSyncState().pending).toMatchObject([
+        { kind: 'createReadingList', method: 'POST', path: '/reading-lists', entityId: list.id },
+      ]);
+    });
+
+    it('queues a write whose request fails with a network error', async () => {
+      failingFetch();
+
+      const list = await createReadingList(NEW_LIST, { idempotencyKey: 'key-1' });
+
+      expect(list.id).toBe('offline-key-1');
+      expect(getOfflineSyncState().pending).toHaveLength(1);
+    });
+
+    it('shows a review posted offline in later reads of the cached reviews', async () => {
+      setOnline(false);
+      failingFetch();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const review = await createReview({
+        bookId: 'b1',
+        userId: 'user-1',
+        rating: 4,
+        comment: 'Good',
+      });
+      const { items } = await getReviews('b1');
+
+      expect(items.map((item) => item.id)).toEqual([review.id]);
+    });
+  });
+
+  describe('replay', () => {
+    it('sends queued writes in order and rewrites temporary ids', async () => {
+      setOnline(false);
+      failingFetch();
+      const list = await createReadingList(NEW_LIST);
+      await updateReadingList(list.id, { bookIds: ['b1'] });
+
+      setOnline(true);
+      const saved = { ...NEW_LIST, id: 'list-1', createdAt: '2026-01-01T00:00:00.000Z' };
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify(saved), { status: 201 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ ...saved, bookIds: ['b1'] })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await replayMutations();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][0]).toMatch(/\/reading-lists\/list-1$/);
+      expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: 'PUT' });
+      expect(getOfflineSyncState().pending).toEqual([]);
+      expect(getOfflineSyncState().lastSyncedAt).toBeGreaterThan(0);
+    });
+
+    it('keeps the queue when the server is still unreachable', async () => {
+      setOnline(false);
+      failingFetch();
+      await createReadingList(NEW_LIST);
+
+      setOnline(true);
+      await replayMutations();
+
+      expect(getOfflineSyncState().pending).toHaveLength(1);
+    });
+
+    it('moves writes the server rejects to the rejected list', async () => {
+      setOnline(false);
+      failingFetch();
+      await createReadingList(NEW_LIST);
+
+      setOnline(true);
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(
+          async () => new Response(JSON.stringify({ message: 'Invalid name' }), { status: 400 })
+        )
+      );
+      await replayMutations();
+
+      expect(getOfflineSyncState().pending).toEqual([]);
+      expect(getOfflineSyncState().rejected).toHaveLength(1);
+    });
+  });
+});
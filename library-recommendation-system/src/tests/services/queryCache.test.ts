@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  clearQueryCache,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  subscribeQuery,
+} from '@/services/queryCache';
+
+describe('Query cache', () => {
+  beforeEach(() => {
+    clearQueryCache();
+  });
+
+  it('deduplicates concurrent fetches for the same key', async () => {
+    const fetcher = vi.fn(async () => ['book']);
+
+    const [first, second] = await Promise.all([
+      fetchQuery('/books', fetcher),
+      fetchQuery('/books', fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it('serves fresh data without refetching', async () => {
+    const fetcher = vi.fn(async () => 'value');
+
+    await fetchQuery('/books/1', fetcher, { ttl: 60_000 });
+    await fetchQuery('/books/1', fetcher, { ttl: 60_000 });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches once the TTL has elapsed', async () => {
+    vi.useFakeTimers();
+    const fetcher = vi.fn(async () => 'value');
+
+    await fetchQuery('/books/1', fetcher, { ttl: 1000 });
+    vi.advanceTimersByTime(1500);
+    await fetchQuery('/books/1', fetcher, { ttl: 1000 });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('keeps stale data visible while revalidating', async () => {
+    let resolve: (value: string) => void = () => {};
+    await fetchQuery('/books', async () => 'old');
+    invalidateQueries('/books');
+
+    const pending = fetchQuery('/books', () => new Promise<string>((r) => (resolve = r)));
+    expect(getQueryState('/books')).toMatchObject({ data: 'old', isFetching: true });
+
+    resolve('new');
+    await pending;
+    expect(getQueryState('/books')).toMatchObject({ data: 'new', isFetching: false });
+  });
+
+  it('refetches subscribed keys under an invalidated prefix', async () => {
+    const listFetcher = vi.fn(async () => []);
+    const detailFetcher = vi.fn(async () => ({}));
+    await fetchQuery('/books', listFetcher);
+    await fetchQuery('/books/1', detailFetcher);
+    const unsubscribe = subscribeQuery('/books', () => {});
+
+    invalidateQueries('/books');
+
+    expect(listFetcher).toHaveBeenCalledTimes(2);
+    expect(detailFetcher).toHaveBeenCalledTimes(1);
+    expect(getQueryState('/books/1').updatedAt).toBe(0);
+    unsubscribe();
+  });
+
+  it('stores errors on the entry', async () => {
+    await expect(
+      fetchQuery('/books', async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(getQueryState('/books').error).toBeInstanceOf(Error);
+  });
+
+  it('aborts an in-flight fetch once the last subscriber leaves', async () => {
+    vi.useFakeTimers();
+    let received: AbortSignal | undefined;
+    const unsubscribe = subscribeQuery('/books', () => {});
+    const pending = fetchQuery(
+      '/books',
+      (signal) =>
+        new Promise<string>((_, reject) => {
+          received = signal;
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+
+    unsubscribe();
+    vi.advanceTimersByTime(0);
+
+    await expect(pending).rejects.toThrow('aborted');
+    expect(received?.aborted).toBe(true);
+    expect(getQueryState('/books').error).toBeUndefined();
+    expect(getQueryState('/books').isFetching).toBe(false);
+    vi.useRealTimers();
+  });
+});
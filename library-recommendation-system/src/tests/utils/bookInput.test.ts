@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeBookInput } from '@/utils/bookInput';
+
+describe('normalizeBookInput', () => {
+  it('trims lists and drops empty and duplicate entries', () => {
+    expect(
+      normalizeBookInput({ genres: ['Fiction ', ' fiction', '', 'Mystery'], tags: [' cozy'] })
+    ).toMatchObject({ genres: ['Fiction', 'Mystery'], tags: ['cozy'] });
+  });
+
+  it('rounds page counts and clamps them at 0', () => {
+    expect(normalizeBookInput({ pageCount: 320.6 }).pageCount).toBe(321);
+    expect(normalizeBookInput({ pageCount: -5 }).pageCount).toBe(0);
+    expect(normalizeBookInput({ pageCount: NaN }).pageCount).toBe(0);
+  });
+
+  it('drops a series position without a series', () => {
+    expect(normalizeBookInput({ seriesId: '', seriesPosition: 2 })).toMatchObject({
+      seriesId: undefined,
+      seriesPosition: undefined,
+    });
+    expect(normalizeBookInput({ seriesId: 's', seriesPosition: 1.5 }).seriesPosition).toBe(1.5);
+  });
+
+  it('keeps the default edition in step with the work and drops a lone edition', () => {
+    const edition = {
+      id: 'e1',
+      isbn: '1',
+      publisher: 'Ace',
+      publishedYear: 1965,
+      coverImage: '',
+      pageCount: 600,
+      language: 'English',
+    };
+    const normalized = normalizeBookInput({
+      isbn: '2',
+      pageCount: 688,
+      editions: [edition, { ...edition, id: 'e2', pageCount: -1 }],
+    });
+    expect(normalized.editions).toEqual([
+      { ...edition, isbn: '2', pageCount: 688 },
+      { ...edition, id: 'e2', pageCount: 0 },
+    ]);
+    expect(normalizeBookInput({ editions: [edition] }).editions).toEqual([]);
+  });
+});
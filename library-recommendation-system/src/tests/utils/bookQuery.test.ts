@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectBookFacets,
+  filterBooks,
+  parseBookQuery,
+  toBookSearchParams,
+} from '@/utils/bookQuery';
+import { Book } from '@/types';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: '1',
+  title: 'Title',
+  author: 'Author',
+  genres: ['Fiction'],
+  tags: [],
+  description: '',
+  coverImage: '',
+  rating: 4,
+  reviewCount: 1,
+  ratingDistribution: [0, 0, 0, 1, 0],
+  publishedYear: 2000,
+  isbn: '',
+  pageCount: 300,
+  language: 'English',
+  publisher: '',
+  editions: [],
+  ...overrides,
+});
+
+describe('Book query utilities', () => {
+  describe('toBookSearchParams', () => {
+    it('drops empty values and uses a stable key order', () => {
+      expect(toBookSearchParams({ limit: 12, query: '  ', genre: 'Mystery' })).toBe(
+        'genre=Mystery&limit=12'
+      );
+    });
+
+    it('round-trips through parseBookQuery', () => {
+      const query = { query: 'dune', minRating: 4.5, yearFrom: 1960, sort: 'rating' as const };
+      const parsed = parseBookQuery(new URLSearchParams(toBookSearchParams(query)));
+      expect(parsed).toMatchObject(query);
+    });
+
+    it('round-trips the tag, language, format and page filters', () => {
+      const query = { tag: 'cozy', language: 'English', format: 'ebook' as const, maxPages: 249 };
+      expect(parseBookQuery(new URLSearchParams(toBookSearchParams(query)))).toMatchObject(query);
+      expect(parseBookQuery(new URLSearchParams('format=scroll')).format).toBeUndefined();
+    });
+
+    it('round-trips the reading status filter and drops unknown statuses', () => {
+      const query = { readingStatus: 'reading' as const, userId: 'u1' };
+      expect(parseBookQuery(new URLSearchParams(toBookSearchParams(query)))).toMatchObject(query);
+      expect(
+        parseBookQuery(new URLSearchParams('readingStatus=skimmed')).readingStatus
+      ).toBeUndefined();
+    });
+
+    it('ignores unknown sort fields and malformed numbers', () => {
+      const parsed = parseBookQuery(new URLSearchParams('sort=price&minRating=abc'));
+      expect(parsed.sort).toBeUndefined();
+      expect(parsed.minRating).toBeUndefined();
+    });
+  });
+
+  describe('filterBooks', () => {
+    const books = [
+      book({ id: 'a', title: 'Beta', rating: 3.9, publishedYear: 1999, tags: ['Cozy'] }),
+      book({
+        id: 'b',
+        title: 'Alpha',
+        rating: 4.8,
+        publishedYear: 2021,
+        genres: ['Thriller', 'Mystery'],
+        pageCount: 520,
+        language: 'German',
+        format: 'ebook',
+      }),
+      book({ id: 'c', title: 'Gamma', rating: 4.2, publishedYear: 2015, pageCount: 0 }),
+    ];
+
+    it('applies rating and year range filters', () => {
+      const result = filterBooks(books, { minRating: 4, yearFrom: 2010, yearTo: 2019 });
+      expect(result.map((b) => b.id)).toEqual(['c']);
+    });
+
+    it('matches any genre or tag case-insensitively', () => {
+      expect(filterBooks(books, { genre: 'mystery' }).map((b) => b.id)).toEqual(['b']);
+      expect(filterBooks(books, { tag: 'cozy' }).map((b) => b.id)).toEqual(['a']);
+      expect(filterBooks(books, { query: 'thriller' }).map((b) => b.id)).toEqual(['b']);
+    });
+
+    it('filters by language, format and page range', () => {
+      expect(filterBooks(books, { language: 'german', format: 'ebook' }).map((b) => b.id)).toEqual([
+        'b',
+      ]);
+      expect(filterBooks(books, { minPages: 400 }).map((b) => b.id)).toEqual(['b']);
+      // Books with an unknown page count never match a page range
+      expect(filterBooks(books, { maxPages: 400 }).map((b) => b.id)).toEqual(['a']);
+    });
+
+    it('matches the ISBN, format and language of any edition', () => {
+      const edition = { isbn: '', publisher: '', publishedYear: 2000, coverImage: '' };
+      const work = book({
+        id: 'w',
+        format: 'paperback',
+        editions: [
+          { ...edition, id: 'w-1', format: 'paperback', pageCount: 300, language: 'English' },
+          {
+            ...edition,
+            id: 'w-2',
+            isbn: '978-0-00-000000-2',
+            format: 'audiobook',
+            pageCount: 0,
+            language: 'French',
+          },
+        ],
+      });
+      const catalog = [work, ...books];
+      expect(filterBooks(catalog, { format: 'audiobook' }).map((b) => b.id)).toEqual(['w']);
+      expect(filterBooks(catalog, { language: 'french' }).map((b) => b.id)).toEqual(['w']);
+      expect(filterBooks(catalog, { query: '9780000000002' }).map((b) => b.id)).toEqual(['w']);
+    });
+
+    it('lists a series in reading order, unpositioned books last', () => {
+      const series = [
+        book({ id: 'x', seriesId: 's', publishedYear: 2010 }),
+        book({ id: 'y', seriesId: 's', seriesPosition: 2 }),
+        book({ id: 'z', seriesId: 's', seriesPosition: 1 }),
+      ];
+      expect(
+        filterBooks([...series, ...books], { seriesId: 's', sort: 'series' }).map((b) => b.id)
+      ).toEqual(['z', 'y', 'x']);
+    });
+
+    it('sorts titles A-Z and ratings highest first', () => {
+      expect(filterBooks(books, {}).map((b) => b.title)).toEqual(['Alpha', 'Beta', 'Gamma']);
+      expect(filterBooks(books, { sort: 'rating' }).map((b) => b.id)).toEqual(['b', 'c', 'a']);
+    });
+  });
+
+  describe('collectBookFacets', () => {
+    it('lists distinct values sorted, and formats in catalog order', () => {
+      const facets = collectBookFacets([
+        book({ genres: ['Mystery', 'Fiction'], tags: ['cozy'], format: 'paperback' }),
+        book({ genres: ['fiction'], language: '', format: 'hardcover' }),
+      ]);
+      expect(facets).toEqual({
+        genres: ['Fiction', 'Mystery'],
+        tags: ['cozy'],
+        languages: ['English'],
+        formats: ['hardcover', 'paperback'],
+      });
+    });
+  });
+});
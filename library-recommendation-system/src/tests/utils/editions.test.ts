@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { listEditions, withEdition } from '@/utils/editions';
+import { Book, Edition } from '@/types';
+
+const book: Book = {
+  id: 'work',
+  title: 'Dune',
+  author: 'Frank Herbert',
+  genres: [],
+  tags: [],
+  description: '',
+  coverImage: 'paperback.jpg',
+  rating: 4.5,
+  reviewCount: 2,
+  ratingDistribution: [0, 0, 0, 1, 1],
+  publishedYear: 1965,
+  isbn: '111',
+  pageCount: 688,
+  language: 'English',
+  publisher: 'Ace',
+  format: 'paperback',
+  editions: [],
+};
+
+const audiobook: Edition = {
+  id: 'audio',
+  isbn: '222',
+  format: 'audiobook',
+  publisher: 'Macmillan Audio',
+  publishedYear: 2007,
+  coverImage: 'audio.jpg',
+  pageCount: 0,
+  language: 'English',
+};
+
+describe('Edition helpers', () => {
+  it('describes a single-edition work by its own fields', () => {
+    expect(listEditions(book)).toEqual([
+      {
+        id: 'work',
+        isbn: '111',
+        format: 'paperback',
+        publisher: 'Ace',
+        publishedYear: 1965,
+        coverImage: 'paperback.jpg',
+        pageCount: 688,
+        language: 'English',
+      },
+    ]);
+  });
+
+  it('shows an edition in place of the default, keeping the ratings of the work', () => {
+    const work = { ...book, editions: [...listEditions(book), audiobook] };
+    expect(withEdition(work, 'audio')).toMatchObject({
+      id: 'work',
+      isbn: '222',
+      format: 'audiobook',
+      coverImage: 'audio.jpg',
+      rating: 4.5,
+    });
+    expect(withEdition(work, 'missing')).toBe(work);
+    expect(withEdition(work, null)).toBe(work);
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { formatDate, formatRating, truncateText } from '@/utils/formatters';
+import {
+  formatBookFormat,
+  formatDate,
+  formatDuration,
+  formatPageCount,
+  formatRating,
+  formatReadingStatus,
+  formatReviewCount,
+  truncateText,
+} from '@/utils/formatters';
 
 describe('Formatter Utilities', () => {
   describe('formatDate', () => {
@@ -17,6 +26,14 @@ describe('Formatter Utilities', () => {
     });
   });
 
+  describe('formatReviewCount', () => {
+    it('pluralizes the review count', () => {
+      expect(formatReviewCount(0)).toBe('No reviews');
+      expect(formatReviewCount(1)).toBe('1 review');
+      expect(formatReviewCount(1250)).toBe('1,250 reviews');
+    });
+  });
+
   describe('truncateText', () => {
     it('returns original text if shorter than maxLength', () => {
       const text = 'Short text';
@@ -35,4 +52,45 @@ describe('Formatter Utilities', () => {
       expect(truncateText(text, 20)).toBe('Exactly twenty chars');
     });
   });
+
+  describe('formatDuration', () => {
+    it('formats seconds only for short durations', () => {
+      expect(formatDuration(12_000)).toBe('12s');
+    });
+
+    it('pads seconds once minutes are shown', () => {
+      expect(formatDuration(4 * 60_000 + 5_000)).toBe('4m 05s');
+    });
+
+    it('includes hours for long durations', () => {
+      expect(formatDuration(3_600_000 + 5 * 60_000 + 9_000)).toBe('1h 05m 09s');
+    });
+
+    it('rounds partial seconds up and clamps negatives', () => {
+      expect(formatDuration(1_200)).toBe('2s');
+      expect(formatDuration(-500)).toBe('0s');
+    });
+  });
+
+  describe('formatPageCount', () => {
+    it('pluralizes and groups digits, and hides unknown counts', () => {
+      expect(formatPageCount(1)).toBe('1 page');
+      expect(formatPageCount(1024)).toBe('1,024 pages');
+      expect(formatPageCount(0)).toBe('');
+    });
+  });
+
+  describe('formatBookFormat', () => {
+    it('labels each format', () => {
+      expect(formatBookFormat('ebook')).toBe('E-book');
+      expect(formatBookFormat('audiobook')).toBe('Audiobook');
+    });
+  });
+
+  describe('formatReadingStatus', () => {
+    it('labels each status', () => {
+      expect(formatReadingStatus('want-to-read')).toBe('Want to read');
+      expect(formatReadingStatus('abandoned')).toBe('Abandoned');
+    });
+  });
 });
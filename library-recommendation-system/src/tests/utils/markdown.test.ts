@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown, safeLinkUrl } from '@/utils/markdown';
+
+describe('parseInline', () => {
+  it('parses emphasis, strong text and spoilers', () => {
+    expect(parseInline('A **bold** and *quiet* ||twist||')).toEqual([
+      { type: 'text', text: 'A ' },
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'quiet' }] },
+      { type: 'text', text: ' ' },
+      { type: 'spoiler', children: [{ type: 'text', text: 'twist' }] },
+    ]);
+  });
+
+  it('leaves unmatched and word-internal delimiters as text', () => {
+    expect(parseInline('2 * 3 * 4 in snake_case_names, a || b')).toEqual([
+      { type: 'text', text: '2 * 3 * 4 in snake_case_names, a || b' },
+    ]);
+    expect(parseInline('\\*not italic\\*')).toEqual([{ type: 'text', text: '*not italic*' }]);
+  });
+
+  it('keeps safe links and drops unsafe targets', () => {
+    expect(parseInline('[site](https://example.com/a)')).toEqual([
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'site' }] },
+    ]);
+    expect(parseInline('[click](javascript:alert(1))')).not.toContainEqual(
+      expect.objectContaining({ type: 'link' })
+    );
+    expect(parseInline('[x](JaVaScRiPt:alert`1`)')).toEqual([{ type: 'text', text: 'x' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits paragraphs, lists and quotes', () => {
+    const blocks = parseMarkdown('First line\nsecond line\n\n- one\n- two\n\n3. three\n\n> quoted');
+
+    expect(blocks.map((block) => block.type)).toEqual(['paragraph', 'list', 'list', 'quote']);
+    expect(blocks[0]).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'text', text: 'First line' },
+        { type: 'break' },
+        { type: 'text', text: 'second line' },
+      ],
+    });
+    expect(blocks[1]).toMatchObject({
+      ordered: false,
+      start: 1,
+      items: [[{ text: 'one' }], [{ text: 'two' }]],
+    });
+    expect(blocks[2]).toMatchObject({ ordered: true, start: 3 });
+    expect(blocks[3]).toEqual({
+      type: 'quote',
+      children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted' }] }],
+    });
+  });
+});
+
+describe('safeLinkUrl', () => {
+  it('accepts only absolute http(s) and mailto URLs', () => {
+    expect(safeLinkUrl('https://example.com')).toBe('https://example.com/');
+    expect(safeLinkUrl('mailto:reader@example.com')).toBe('mailto:reader@example.com');
+    expect(safeLinkUrl('javascript:alert(1)')).toBeNull();
+    expect(safeLinkUrl(' data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(safeLinkUrl('/admin')).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { combineRatings, summarizeRatings } from '@/utils/ratings';
+
+describe('summarizeRatings', () => {
+  it('averages ratings and counts them per star', () => {
+    expect(summarizeRatings([5, 4, 5])).toEqual({
+      rating: 4.67,
+      reviewCount: 3,
+      ratingDistribution: [0, 0, 0, 1, 2],
+    });
+  });
+
+  it('returns zeros for a book without reviews', () => {
+    expect(summarizeRatings([])).toEqual({
+      rating: 0,
+      reviewCount: 0,
+      ratingDistribution: [0, 0, 0, 0, 0],
+    });
+  });
+});
+
+describe('combineRatings', () => {
+  it('weights each book by its review count', () => {
+    expect(
+      combineRatings([
+        { rating: 4, reviewCount: 1, ratingDistribution: [0, 0, 0, 1, 0] },
+        { rating: 5, reviewCount: 3, ratingDistribution: [0, 0, 0, 0, 3] },
+        { rating: 0, reviewCount: 0, ratingDistribution: [0, 0, 0, 0, 0] },
+      ])
+    ).toEqual({ rating: 4.75, reviewCount: 4, ratingDistribution: [0, 0, 0, 1, 3] });
+  });
+});
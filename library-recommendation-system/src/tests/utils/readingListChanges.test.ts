@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { applyReadingListChange, canMergeReadingListChange } from '@/utils/readingListChanges';
+
+describe('applyReadingListChange', () => {
+  const ids = ['a', 'b', 'c'];
+
+  it('appends added books once', () => {
+    expect(applyReadingListChange(ids, { type: 'add', bookId: 'd' })).toEqual(['a', 'b', 'c', 'd']);
+    expect(applyReadingListChange(ids, { type: 'add', bookId: 'a' })).toBe(ids);
+  });
+
+  it('removes every given book', () => {
+    expect(applyReadingListChange(ids, { type: 'remove', bookIds: ['a', 'c'] })).toEqual(['b']);
+    expect(applyReadingListChange(ids, { type: 'remove', bookIds: ['x'] })).toBe(ids);
+  });
+
+  it('moves a book to a clamped index', () => {
+    expect(applyReadingListChange(ids, { type: 'move', bookId: 'c', toIndex: 0 })).toEqual([
+      'c',
+      'a',
+      'b',
+    ]);
+    expect(applyReadingListChange(ids, { type: 'move', bookId: 'a', toIndex: 9 })).toEqual([
+      'b',
+      'c',
+      'a',
+    ]);
+    expect(applyReadingListChange(ids, { type: 'move', bookId: 'x', toIndex: 0 })).toBe(ids);
+  });
+});
+
+describe('canMergeReadingListChange', () => {
+  it('always merges adds and removes', () => {
+    expect(canMergeReadingListChange(['a'], ['b', 'a'], { type: 'add', bookId: 'c' })).toBe(true);
+    expect(canMergeReadingListChange(['a'], [], { type: 'remove', bookIds: ['a'] })).toBe(true);
+  });
+
+  it('merges a move only if the other side kept the order', () => {
+    const move = { type: 'move' as const, bookId: 'c', toIndex: 0 };
+    expect(canMergeReadingListChange(['a', 'b', 'c'], ['a', 'x', 'b', 'c'], move)).toBe(true);
+    expect(canMergeReadingListChange(['a', 'b', 'c'], ['b', 'a', 'c'], move)).toBe(false);
+  });
+
+  it('merges a replace only if the other side left the books alone', () => {
+    const replace = { type: 'replace' as const, bookIds: ['b'] };
+    expect(canMergeReadingListChange(['a', 'b'], ['a', 'b'], replace)).toBe(true);
+    expect(canMergeReadingListChange(['a', 'b'], ['a'], replace)).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { isDay, nextReadingStatus, toLocalDay } from '@/utils/readingStatus';
+import { BookReadingStatus } from '@/types';
+
+const reading: BookReadingStatus = {
+  bookId: '1',
+  userId: 'u1',
+  status: 'reading',
+  startedOn: '2024-05-01',
+  updatedAt: '2024-05-01T10:00:00.000Z',
+};
+
+describe('Reading status utilities', () => {
+  it('formats local days and accepts only real calendar days', () => {
+    expect(toLocalDay(new Date(2024, 0, 5))).toBe('2024-01-05');
+    expect(isDay('2024-02-29')).toBe(true);
+    expect(isDay('2023-02-29')).toBe(false);
+    expect(isDay('2024-5-1')).toBe(false);
+  });
+
+  it('stamps the start and finish dates as the reader moves along', () => {
+    expect(nextReadingStatus(undefined, 'reading', '2024-06-01')).toEqual({
+      status: 'reading',
+      startedOn: '2024-06-01',
+      finishedOn: undefined,
+    });
+    expect(nextReadingStatus(reading, 'finished', '2024-06-01')).toEqual({
+      status: 'finished',
+      startedOn: '2024-05-01',
+      finishedOn: '2024-06-01',
+    });
+    expect(nextReadingStatus(reading, 'want-to-read', '2024-06-01')).toEqual({
+      status: 'want-to-read',
+      startedOn: undefined,
+      finishedOn: undefined,
+    });
+  });
+});
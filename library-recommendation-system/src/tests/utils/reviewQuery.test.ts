@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { filterReviews, parseReviewQuery, toReviewSearchParams } from '@/utils/reviewQuery';
+import { Review } from '@/types';
+
+const review = (overrides: Partial<Review>): Review => ({
+  id: '1',
+  bookId: 'b1',
+  userId: 'u1',
+  rating: 4,
+  comment: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  helpfulCount: 0,
+  commentCount: 0,
+  status: 'published',
+  ...overrides,
+});
+
+describe('Review query utilities', () => {
+  it('round-trips queries through search parameters', () => {
+    const params = toReviewSearchParams({ rating: 5, sort: 'helpful', limit: 10, userId: '' });
+    expect(params).toBe('sort=helpful&rating=5&limit=10');
+    expect(parseReviewQuery(new URLSearchParams(params))).toEqual({
+      sort: 'helpful',
+      rating: 5,
+      limit: 10,
+    });
+  });
+
+  it('ignores unknown sorts and out-of-range star filters', () => {
+    expect(parseReviewQuery(new URLSearchParams('sort=random&rating=6'))).toEqual({});
+  });
+
+  describe('filterReviews', () => {
+    const reviews = [
+      review({ id: 'a', rating: 5, createdAt: '2024-01-01T00:00:00.000Z', helpfulCount: 1 }),
+      review({ id: 'b', rating: 2, createdAt: '2024-03-01T00:00:00.000Z', helpfulCount: 7 }),
+      review({ id: 'c', rating: 5, createdAt: '2024-02-01T00:00:00.000Z', userId: 'u2' }),
+    ];
+    const ids = (items: Review[]) => items.map((item) => item.id);
+
+    it('sorts by each field, breaking ties by newest', () => {
+      expect(ids(filterReviews(reviews, {}))).toEqual(['b', 'c', 'a']);
+      expect(ids(filterReviews(reviews, { sort: 'oldest' }))).toEqual(['a', 'c', 'b']);
+      expect(ids(filterReviews(reviews, { sort: 'highest' }))).toEqual(['c', 'a', 'b']);
+      expect(ids(filterReviews(reviews, { sort: 'lowest' }))).toEqual(['b', 'c', 'a']);
+      expect(ids(filterReviews(reviews, { sort: 'helpful' }))).toEqual(['b', 'a', 'c']);
+    });
+
+    it('filters by star rating and author', () => {
+      expect(ids(filterReviews(reviews, { rating: 5 }))).toEqual(['c', 'a']);
+      expect(ids(filterReviews(reviews, { userId: 'u2' }))).toEqual(['c']);
+    });
+  });
+});
@@ -2,16 +2,206 @@
  * Core type definitions for the Library Recommendation System
  */
 
+/**
+ * A work: the title readers review. Its top-level cover, year, ISBN, page
+ * count, language, publisher and format describe the default edition.
+ */
 export interface Book {
   id: string;
   title: string;
+  /** Author name as printed on the book */
   author: string;
-  genre: string;
+  /** Author entity the name resolves to; unset on books not yet linked */
+  authorId?: string;
+  /** Genres, main genre first */
+  genres: string[];
+  /** Free-form labels such as "book club pick" or "found family" */
+  tags: string[];
   description: string;
   coverImage: string;
+  /** Average review rating, 0 while the book has no reviews */
   rating: number;
+  reviewCount: number;
+  ratingDistribution: RatingDistribution;
   publishedYear: number;
   isbn: string;
+  /** 0 if unknown */
+  pageCount: number;
+  /** Language name, e.g. "English"; empty if unknown */
+  language: string;
+  publisher: string;
+  /** Undefined if unknown */
+  format?: BookFormat;
+  /** Series the book belongs to, if any */
+  seriesId?: string;
+  /** Place in the series, from 1; may be fractional for in-between novellas */
+  seriesPosition?: number;
+  /**
+   * Editions of the work, the default edition first; empty for a work with a
+   * single edition, which the top-level fields describe
+   */
+  editions: Edition[];
+}
+
+/**
+ * One edition of a work, with its own ISBN
+ */
+export interface Edition {
+  id: string;
+  isbn: string;
+  /** Undefined if unknown */
+  format?: BookFormat;
+  publisher: string;
+  publishedYear: number;
+  coverImage: string;
+  /** 0 if unknown */
+  pageCount: number;
+  /** Empty if unknown */
+  language: string;
+}
+
+/**
+ * Book fields that describe an edition rather than the work
+ */
+export type EditionFields = Omit<Edition, 'id'>;
+
+export type BookFormat = 'hardcover' | 'paperback' | 'ebook' | 'audiobook';
+
+/**
+ * Review counts per star rating; index 0 holds the 1-star count
+ */
+export type RatingDistribution = [number, number, number, number, number];
+
+/**
+ * Book fields derived from its reviews, maintained by the server
+ */
+export type RatingSummary = Pick<Book, 'rating' | 'reviewCount' | 'ratingDistribution'>;
+
+/**
+ * Book fields an admin can set when creating or editing a book
+ */
+export type BookInput = Omit<Book, 'id' | keyof RatingSummary>;
+
+/**
+ * An author; books link to it through `authorId`
+ */
+export interface Author {
+  id: string;
+  name: string;
+  bio: string;
+  /** Photo URL; empty if none */
+  photo: string;
+  /** Other names the author's books are printed under, e.g. "T. J. Reid" */
+  aliases: string[];
+}
+
+/**
+ * Author fields an admin can edit
+ */
+export type AuthorInput = Omit<Author, 'id'>;
+
+/**
+ * Request to merge the author names printed on books into one author
+ * (`POST /authors/merge`)
+ */
+export interface AuthorMergeInput {
+  /** Author names to merge, as printed on the books */
+  names: string[];
+  /** Name the merged author goes by; the other names become aliases */
+  name: string;
+}
+
+/**
+ * A run of books meant to be read in order, e.g. the Dune Chronicles
+ */
+export interface Series {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * Series fields an admin can set
+ */
+export type SeriesInput = Omit<Series, 'id'>;
+
+/**
+ * Fields the catalog can be sorted by. Title and author sort A–Z; rating and
+ * year sort highest/newest first; series sorts by position in the series.
+ */
+export type BookSortField = 'title' | 'author' | 'rating' | 'year' | 'series';
+
+/**
+ * Catalog filters shown in the search panel
+ */
+export interface BookFilters {
+  /** Free text matched against title, author, genres, tags and edition ISBNs */
+  query?: string;
+  /** Books with this among their genres */
+  genre?: string;
+  /** Books with this tag */
+  tag?: string;
+  /** Works with an edition in this language */
+  language?: string;
+  /** Works with an edition in this format */
+  format?: BookFormat;
+  minRating?: number;
+  yearFrom?: number;
+  yearTo?: number;
+  /** Page count range; books with an unknown page count never match */
+  minPages?: number;
+  maxPages?: number;
+  /** Books in this series */
+  seriesId?: string;
+  /** Books by this author */
+  authorId?: string;
+}
+
+/**
+ * Values present in the catalog, offered as search filter options
+ * (`GET /books/facets`)
+ */
+export interface BookFacets {
+  genres: string[];
+  tags: string[];
+  languages: string[];
+  formats: BookFormat[];
+}
+
+/**
+ * Parameters of a paginated catalog request (`GET /books`)
+ */
+export interface BookQuery extends BookFilters {
+  /** Books the reader in `userId` gave this status; needs their session */
+  readingStatus?: ReadingStatus;
+  /** The reader whose status `readingStatus` filters on */
+  userId?: string;
+  sort?: BookSortField;
+  /** Page size; the server may return fewer items */
+  limit?: number;
+  /** Opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
+}
+
+/**
+ * One page of a cursor-paginated list
+ */
+export interface Page<T> {
+  items: T[];
+  /** Number of items matching the filters across all pages */
+  total: number;
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Result of fetching several books by id
+ */
+export interface BookBatch {
+  /** Found books, in the order their ids were requested */
+  books: Book[];
+  /** Requested ids with no matching book (e.g. deleted from the catalog) */
+  missingIds: string[];
 }
 
 export interface User {
@@ -22,6 +212,27 @@ export interface User {
   createdAt: string;
 }
 
+/**
+ * Where a reader is with a book
+ */
+export type ReadingStatus = 'want-to-read' | 'reading' | 'finished' | 'abandoned';
+
+/**
+ * A reader's status for a book; at most one per reader and book
+ */
+export interface BookReadingStatus {
+  bookId: string;
+  userId: string;
+  status: ReadingStatus;
+  /** Day the reader started the book, as YYYY-MM-DD */
+  startedOn?: string;
+  /** Day the reader finished or gave up on the book, as YYYY-MM-DD */
+  finishedOn?: string;
+  updatedAt: string;
+}
+
+export type ReadingStatusInput = Pick<BookReadingStatus, 'status' | 'startedOn' | 'finishedOn'>;
+
 export interface ReadingList {
   id: string;
   userId: string;
@@ -40,6 +251,116 @@ export interface Review {
   rating: number;
   comment: string;
   createdAt: string;
+  /** Set once the review has been edited */
+  updatedAt?: string;
+  /** Number of readers who marked the review as helpful */
+  helpfulCount: number;
+  /** Number of published comments in the review's thread */
+  commentCount: number;
+  /** Hidden reviews are only shown to admins and their author */
+  status: ReviewStatus;
+  /** Last approve or hide decision by an admin */
+  moderation?: ReviewModeration;
+}
+
+export type ReviewStatus = 'published' | 'hidden';
+
+/**
+ * What an admin can do with a reported or recent review or comment
+ */
+export type ModerationAction = 'approve' | 'hide' | 'delete';
+
+export interface ReviewModeration {
+  action: Exclude<ModerationAction, 'delete'>;
+  reason: string;
+  moderatorId: string;
+  moderatedAt: string;
+}
+
+/**
+ * A reader's report of an abusive or off-topic review, or of a comment on it
+ */
+export interface ReviewReport {
+  id: string;
+  reviewId: string;
+  bookId: string;
+  /** Set when the report is about a comment on the review */
+  commentId?: string;
+  /** The reader who filed the report */
+  userId: string;
+  reason: string;
+  createdAt: string;
+  /** Set once an admin acted on the review; resolved reports leave the queue */
+  resolvedAt?: string;
+}
+
+/**
+ * Entry in the admin queue of reported reviews, with its open reports
+ */
+export interface ReportedReview {
+  review: Review;
+  reports: ReviewReport[];
+}
+
+/**
+ * A comment in the discussion under a review
+ *
+ * Threads have one level of nesting: top-level comments may have replies,
+ * replies may not.
+ */
+export interface ReviewComment {
+  id: string;
+  reviewId: string;
+  bookId: string;
+  /** Top-level comment this one replies to */
+  parentId?: string;
+  userId: string;
+  /** Author's current name, looked up from their User record by the server */
+  userName?: string;
+  body: string;
+  createdAt: string;
+  /** Hidden comments are only shown to admins and their author */
+  status: ReviewStatus;
+  /** Last approve or hide decision by an admin */
+  moderation?: ReviewModeration;
+}
+
+/**
+ * Fields a reader sends when writing a comment; `parentId` makes it a reply
+ */
+export type ReviewCommentInput = Pick<ReviewComment, 'body' | 'parentId'>;
+
+/**
+ * Entry in the admin queue of reported comments, with its open reports
+ */
+export interface ReportedComment {
+  comment: ReviewComment;
+  reports: ReviewReport[];
+}
+
+/**
+ * Fields a reader sends when writing a review
+ */
+export type ReviewInput = Pick<Review, 'bookId' | 'userId' | 'userName' | 'rating' | 'comment'>;
+
+/**
+ * Orders a book's reviews can be listed in
+ */
+export type ReviewSortField = 'newest' | 'oldest' | 'highest' | 'lowest' | 'helpful';
+
+/**
+ * Parameters of a paginated review request (`GET /books/{id}/reviews`)
+ */
+export interface ReviewQuery {
+  sort?: ReviewSortField;
+  /** Only reviews with this many stars (1–5) */
+  rating?: number;
+  /** Only reviews written by this user, e.g. to find the caller's own review */
+  userId?: string;
+  /** Page size; the server may return fewer items */
+  limit?: number;
+  /** Opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
 }
 
 export interface Recommendation {
@@ -54,3 +375,109 @@ export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
 }
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Machine-readable error codes carried by ApiError
+ */
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VALIDATION_FAILED'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'ABORTED'
+  | 'UNKNOWN';
+
+/**
+ * Transport-level request handed to a BackendAdapter
+ */
+export interface ApiRequest {
+  method: HttpMethod;
+  /** Path relative to the API root, including any query string */
+  path: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+/**
+ * Transport-level response returned by a BackendAdapter
+ */
+export interface ApiResponse {
+  status: number;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * Backend implementation behind `services/api.ts`
+ *
+ * `http` talks to API Gateway; `local` serves everything from browser storage.
+ */
+export interface BackendAdapter {
+  name: 'http' | 'local';
+  send(request: ApiRequest): Promise<ApiResponse>;
+}
+
+/**
+ * Per-call options accepted by the functions in `services/api.ts`
+ */
+export interface ApiCallOptions {
+  /** Cancels the call; the promise then rejects with an ApiError coded ABORTED */
+  signal?: AbortSignal;
+  /**
+   * Makes a create call safe to retry automatically. Generate one key per user
+   * action and reuse it if the same action is replayed.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Options for writes that must not overwrite someone else's change
+ */
+export interface ConditionalWriteOptions extends ApiCallOptions {
+  /**
+   * `updatedAt` of the copy the write is based on. The server answers 409
+   * (ApiError code CONFLICT) if the record has changed since.
+   */
+  ifMatch?: string;
+}
+
+/**
+ * Write made while offline, waiting to be replayed against the API
+ */
+export interface PendingMutation {
+  id: string;
+  kind:
+    | 'createReadingList'
+    | 'updateReadingList'
+    | 'addBookToList'
+    | 'removeBookFromList'
+    | 'createReview';
+  method: HttpMethod;
+  path: string;
+  body: unknown;
+  /** Id of the record the write creates or changes (temporary for creates) */
+  entityId: string;
+  idempotencyKey?: string;
+  queuedAt: string;
+}
+
+/**
+ * Progress of replaying offline writes
+ */
+export interface OfflineSyncState {
+  pending: PendingMutation[];
+  /** Writes the server refused on replay; they are not retried */
+  rejected: PendingMutation[];
+  /** Epoch ms of the last replay that emptied the queue, 0 if none yet */
+  lastSyncedAt: number;
+}
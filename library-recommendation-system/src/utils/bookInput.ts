@@ -0,0 +1,67 @@
+import { BookInput, Edition, EditionFields } from '@/types';
+import { editionFields } from './editions';
+
+/**
+ * Cleans up book fields typed into the admin form, shared by the form and the
+ * local backend
+ */
+
+/**
+ * Trims each entry and drops empty ones and duplicates that differ only in case
+ */
+function cleanList(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map((value) => value.trim())
+    .filter((value) => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function clampPageCount(pageCount: number): number {
+  return Number.isFinite(pageCount) ? Math.max(0, Math.round(pageCount)) : 0;
+}
+
+/**
+ * The default edition takes the work's own edition fields, which the form
+ * edits; a single edition is described by the work alone
+ */
+function syncEditions(input: Partial<BookInput>, editions: Edition[]): Edition[] {
+  if (editions.length < 2) return [];
+  const [first, ...others] = editions.map((edition) => ({
+    ...edition,
+    pageCount: clampPageCount(edition.pageCount),
+  }));
+  return [{ ...first, ...editionFields({ ...first, ...input } as EditionFields) }, ...others];
+}
+
+/**
+ * Normalizes the genre and tag lists of a book and clamps its page count;
+ * fields that are not set stay unset, except that a series position without
+ * a series is dropped. The default edition is kept in step with the work.
+ *
+ * @example
+ * normalizeBookInput({ genres: ['Fiction', ' fiction', ''] }); // { genres: ['Fiction'] }
+ */
+export function normalizeBookInput<T extends Partial<BookInput>>(input: T): T {
+  const position = input.seriesPosition;
+  const normalized: T = {
+    ...input,
+    ...(input.genres && { genres: cleanList(input.genres) }),
+    ...(input.tags && { tags: cleanList(input.tags) }),
+    ...(input.pageCount !== undefined && {
+      pageCount: clampPageCount(input.pageCount),
+    }),
+    seriesId: input.seriesId || undefined,
+    seriesPosition:
+      input.seriesId && position !== undefined && Number.isFinite(position) && position > 0
+        ? position
+        : undefined,
+  };
+  return normalized.editions
+    ? { ...normalized, editions: syncEditions(normalized, normalized.editions) }
+    : normalized;
+}
@@ -0,0 +1,206 @@
+import { Book, BookFacets, BookFormat, BookQuery, BookSortField, ReadingStatus } from '@/types';
+import { listEditions } from './editions';
+
+/**
+ * Catalog query helpers shared by the API layer and the local backend
+ */
+
+const SORT_FIELDS: BookSortField[] = ['title', 'author', 'rating', 'year', 'series'];
+
+/**
+ * Formats in the order the search panel lists them
+ */
+export const BOOK_FORMATS: BookFormat[] = ['hardcover', 'paperback', 'ebook', 'audiobook'];
+
+/**
+ * Reading statuses in the order a reader moves through them
+ */
+export const READING_STATUSES: ReadingStatus[] = [
+  'want-to-read',
+  'reading',
+  'finished',
+  'abandoned',
+];
+
+/**
+ * Serialises a catalog query into `GET /books` search parameters
+ *
+ * Empty values are dropped and keys are emitted in a fixed order, so equal
+ * queries always produce the same string (it doubles as a cache key).
+ *
+ * @example
+ * toBookSearchParams({ genre: 'Mystery', limit: 12 }); // 'genre=Mystery&limit=12'
+ */
+export function toBookSearchParams(query: BookQuery): string {
+  const params = new URLSearchParams();
+  const entries: Array<[string, string | number | undefined]> = [
+    ['query', query.query?.trim()],
+    ['genre', query.genre],
+    ['tag', query.tag],
+    ['language', query.language],
+    ['format', query.format],
+    ['minRating', query.minRating],
+    ['yearFrom', query.yearFrom],
+    ['yearTo', query.yearTo],
+    ['minPages', query.minPages],
+    ['maxPages', query.maxPages],
+    ['seriesId', query.seriesId],
+    ['authorId', query.authorId],
+    ['readingStatus', query.readingStatus],
+    ['userId', query.userId],
+    ['sort', query.sort],
+    ['limit', query.limit],
+    ['cursor', query.cursor],
+  ];
+  entries.forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  return params.toString();
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Reads a catalog query back from search parameters, ignoring invalid values
+ */
+export function parseBookQuery(params: URLSearchParams): BookQuery {
+  const sort = params.get('sort') as BookSortField | null;
+  const format = params.get('format') as BookFormat | null;
+  const readingStatus = params.get('readingStatus') as ReadingStatus | null;
+  return {
+    query: params.get('query') || undefined,
+    genre: params.get('genre') || undefined,
+    tag: params.get('tag') || undefined,
+    language: params.get('language') || undefined,
+    format: format && BOOK_FORMATS.includes(format) ? format : undefined,
+    minRating: parseNumber(params.get('minRating')),
+    yearFrom: parseNumber(params.get('yearFrom')),
+    yearTo: parseNumber(params.get('yearTo')),
+    minPages: parseNumber(params.get('minPages')),
+    maxPages: parseNumber(params.get('maxPages')),
+    seriesId: params.get('seriesId') || undefined,
+    authorId: params.get('authorId') || undefined,
+    readingStatus:
+      readingStatus && READING_STATUSES.includes(readingStatus) ? readingStatus : undefined,
+    userId: params.get('userId') || undefined,
+    sort: sort && SORT_FIELDS.includes(sort) ? sort : undefined,
+    limit: parseNumber(params.get('limit')),
+    cursor: params.get('cursor') || undefined,
+  };
+}
+
+/** ISBNs are compared without hyphens or spaces */
+function normalizeIsbn(isbn: string): string {
+  return isbn.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function includesIgnoringCase(values: string[], value: string): boolean {
+  return values.some((item) => item.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * True if a book matches every filter in the query; a work matches the
+ * format, language and ISBN of any of its editions
+ */
+export function matchesBookQuery(book: Book, query: BookQuery): boolean {
+  const text = query.query?.trim().toLowerCase();
+  const editions = listEditions(book);
+  if (
+    text &&
+    ![book.title, book.author, ...book.genres, ...book.tags].some((field) =>
+      field.toLowerCase().includes(text)
+    ) &&
+    !editions.some((edition) => edition.isbn && normalizeIsbn(edition.isbn) === normalizeIsbn(text))
+  ) {
+    return false;
+  }
+  if (query.genre && !includesIgnoringCase(book.genres, query.genre)) return false;
+  if (query.tag && !includesIgnoringCase(book.tags, query.tag)) return false;
+  if (
+    query.language &&
+    !includesIgnoringCase(
+      editions.map((edition) => edition.language),
+      query.language
+    )
+  ) {
+    return false;
+  }
+  if (query.format && !editions.some((edition) => edition.format === query.format)) return false;
+  if (query.minRating !== undefined && book.rating < query.minRating) return false;
+  if (query.yearFrom !== undefined && book.publishedYear < query.yearFrom) return false;
+  if (query.yearTo !== undefined && book.publishedYear > query.yearTo) return false;
+  if (query.minPages !== undefined || query.maxPages !== undefined) {
+    if (!book.pageCount) return false;
+    if (query.minPages !== undefined && book.pageCount < query.minPages) return false;
+    if (query.maxPages !== undefined && book.pageCount > query.maxPages) return false;
+  }
+  if (query.seriesId && book.seriesId !== query.seriesId) return false;
+  if (query.authorId && book.authorId !== query.authorId) return false;
+  return true;
+}
+
+/**
+ * Orders books by a sort field, breaking ties by id so pages are stable
+ */
+export function compareBooks(a: Book, b: Book, sort: BookSortField = 'title'): number {
+  let result: number;
+  switch (sort) {
+    case 'author':
+      result = a.author.localeCompare(b.author);
+      break;
+    case 'rating':
+      result = b.rating - a.rating;
+      break;
+    case 'year':
+      result = b.publishedYear - a.publishedYear;
+      break;
+    case 'series':
+      // Books without a position go last, oldest first
+      result =
+        (a.seriesPosition ?? Infinity) - (b.seriesPosition ?? Infinity) ||
+        a.publishedYear - b.publishedYear;
+      break;
+    default:
+      result = a.title.localeCompare(b.title);
+  }
+  return result || a.id.localeCompare(b.id);
+}
+
+/**
+ * Filters and sorts a list of books in memory
+ */
+export function filterBooks(books: Book[], query: BookQuery): Book[] {
+  return books
+    .filter((book) => matchesBookQuery(book, query))
+    .sort((a, b) => compareBooks(a, b, query.sort));
+}
+
+function distinctSorted(values: string[]): string[] {
+  const byKey = new Map<string, string>();
+  values.forEach((value) => {
+    const key = value.trim().toLowerCase();
+    if (key && !byKey.has(key)) byKey.set(key, value.trim());
+  });
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Collects the genres, tags, languages and formats used across a catalog
+ *
+ * Values that differ only in case are listed once, spelled as first seen.
+ */
+export function collectBookFacets(books: Book[]): BookFacets {
+  const editions = books.flatMap(listEditions);
+  return {
+    genres: distinctSorted(books.flatMap((book) => book.genres)),
+    tags: distinctSorted(books.flatMap((book) => book.tags)),
+    languages: distinctSorted(editions.map((edition) => edition.language)),
+    formats: BOOK_FORMATS.filter((format) => editions.some((edition) => edition.format === format)),
+  };
+}
@@ -0,0 +1,43 @@
+import { Book, Edition, EditionFields } from '@/types';
+
+/**
+ * Helpers for the editions of a work
+ *
+ * A work with one edition has no `editions` and describes that edition with
+ * its own fields, as every book did before editions existed.
+ */
+
+/**
+ * Picks the edition fields of a work or an edition
+ */
+export function editionFields(source: EditionFields): EditionFields {
+  return {
+    isbn: source.isbn,
+    format: source.format,
+    publisher: source.publisher,
+    publishedYear: source.publishedYear,
+    coverImage: source.coverImage,
+    pageCount: source.pageCount,
+    language: source.language,
+  };
+}
+
+/**
+ * Every edition of a work, the default first; a single-edition work yields
+ * one edition with the work's id
+ *
+ * @example
+ * listEditions(book).map((edition) => edition.format); // ['paperback', 'ebook']
+ */
+export function listEditions(book: Book): Edition[] {
+  return book.editions.length > 0 ? book.editions : [{ id: book.id, ...editionFields(book) }];
+}
+
+/**
+ * The work with an edition's fields in place of the default edition's, for
+ * showing that edition; unknown ids give the work unchanged
+ */
+export function withEdition(book: Book, editionId: string | null | undefined): Book {
+  const edition = book.editions.find((item) => item.id === editionId);
+  return edition ? { ...book, ...editionFields(edition) } : book;
+}
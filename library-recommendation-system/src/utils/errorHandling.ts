@@ -1,3 +1,7 @@
+import { isNetworkError } from '@/services/apiClient';
+import { isOnline } from '@/services/offline';
+import { showToast } from './toasts';
+
 /**
  * Error handling utilities
  */
@@ -13,6 +17,12 @@
  *        toast.error(message);
  */
 export function handleApiError(error: unknown): void {
+  // The offline banner already tells the user; an alert per request would be noise
+  if (isNetworkError(error) && !isOnline()) {
+    console.warn('Request failed while offline:', error);
+    return;
+  }
+
   let message = 'An unexpected error occurred';
 
   if (error instanceof Error) {
@@ -35,3 +45,19 @@ export function showSuccess(message: string): void {
   alert(`Success: ${message}`);
   console.log('Success:', message);
 }
+
+/**
+ * Reports a failed background save with a toast instead of an alert
+ *
+ * @param action - What failed, completing "Could not ...", e.g. "remove the book"
+ * @param retry - Offered as a "Retry" action when given
+ */
+export function showErrorToast(action: string, error: unknown, retry?: () => void): void {
+  const reason = error instanceof Error ? ` ${error.message}` : '';
+  showToast({
+    tone: 'error',
+    message: `Could not ${action}.${reason}`,
+    action: retry && { label: 'Retry', onClick: retry },
+  });
+  console.error('API Error:', error);
+}
@@ -1,3 +1,5 @@
+import { BookFormat, ReadingStatus } from '@/types';
+
 /**
  * Utility functions for formatting data
  */
@@ -25,6 +27,62 @@ export function formatRating(rating: number): string {
   return rating.toFixed(1);
 }
 
+/**
+ * Formats a review count for display next to a rating
+ * @param count - Number of reviews
+ * @returns Count with a pluralized label (e.g., "1 review", "12 reviews", "No reviews")
+ */
+export function formatReviewCount(count: number): string {
+  if (count === 0) {
+    return 'No reviews';
+  }
+  return `${count.toLocaleString('en-US')} ${count === 1 ? 'review' : 'reviews'}`;
+}
+
+/**
+ * Formats a page count for display
+ * @param count - Number of pages, 0 if unknown
+ * @returns Count with a pluralized label (e.g., "1 page", "1,024 pages"), or "" if unknown
+ */
+export function formatPageCount(count: number): string {
+  if (count <= 0) {
+    return '';
+  }
+  return `${count.toLocaleString('en-US')} ${count === 1 ? 'page' : 'pages'}`;
+}
+
+const BOOK_FORMAT_LABELS: Record<BookFormat, string> = {
+  hardcover: 'Hardcover',
+  paperback: 'Paperback',
+  ebook: 'E-book',
+  audiobook: 'Audiobook',
+};
+
+/**
+ * Formats a book format for display
+ * @param format - Book format, or undefined if unknown
+ * @returns Label (e.g., "E-book"), or "" if unknown
+ */
+export function formatBookFormat(format: BookFormat | undefined): string {
+  return format ? BOOK_FORMAT_LABELS[format] : '';
+}
+
+const READING_STATUS_LABELS: Record<ReadingStatus, string> = {
+  'want-to-read': 'Want to read',
+  reading: 'Reading',
+  finished: 'Finished',
+  abandoned: 'Abandoned',
+};
+
+/**
+ * Formats a reading status for display
+ * @param status - Reading status
+ * @returns Label (e.g., "Want to read")
+ */
+export function formatReadingStatus(status: ReadingStatus): string {
+  return READING_STATUS_LABELS[status];
+}
+
 /**
  * Truncates text to a specified length and adds ellipsis
  * @param text - Text to truncate
@@ -37,3 +95,24 @@ export function truncateText(text: string, maxLength: number): string {
   }
   return text.slice(0, maxLength).trim() + '...';
 }
+
+/**
+ * Formats a duration as hours, minutes and seconds
+ * @param ms - Duration in milliseconds
+ * @returns Formatted duration (e.g., "1h 05m 09s", "4m 30s", "12s")
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${pad(seconds)}s`;
+  }
+  return `${seconds}s`;
+}
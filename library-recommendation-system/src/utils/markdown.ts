@@ -0,0 +1,208 @@
+/**
+ * Markdown subset for review text
+ *
+ * Reviews support emphasis, lists, block quotes, links and `||spoilers||`.
+ * Text is parsed into a small tree that `ReviewContent` renders as React
+ * elements, so raw HTML in a review is always shown as text and never reaches
+ * the DOM as markup. Anything outside the subset (headings, images, code)
+ * stays plain text.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'spoiler'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownBlock[] };
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+const ESCAPABLE = new Set(['\\', '*', '_', '|', '[', ']', '(', ')', '>', '-', '+', '#', '.']);
+const UNORDERED_ITEM = /^\s{0,3}[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s{0,3}(\d{1,9})[.)]\s+(.*)$/;
+const QUOTE_LINE = /^\s{0,3}>\s?(.*)$/;
+const LINK = /^\[([^\]\n]+)\]\(([^()\s]+)\)/;
+
+/**
+ * Returns the URL if a review may link to it, otherwise null
+ *
+ * Only absolute http(s) and mailto URLs pass, which rules out `javascript:`,
+ * `data:` and relative links however they are encoded.
+ *
+ * @example
+ * safeLinkUrl('https://example.com'); // 'https://example.com/'
+ * safeLinkUrl('javascript:alert(1)'); // null
+ */
+export function safeLinkUrl(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function isWordCharacter(character: string | undefined): boolean {
+  return character !== undefined && /[\p{L}\p{N}]/u.test(character);
+}
+
+/**
+ * Finds the delimiter that closes a span opened at `start`, or -1
+ *
+ * Emphasis cannot be empty or start or end with whitespace, so `2 * 3 * 4`
+ * and `snake_case_names` stay text. Spoilers may be padded: `|| Rosebud ||`.
+ */
+function findClosing(text: string, delimiter: string, start: number): number {
+  const contentStart = start + delimiter.length;
+  const isPaddingAllowed = delimiter === '||';
+  if (!isPaddingAllowed && /\s/.test(text.charAt(contentStart))) return -1;
+  let close = text.indexOf(delimiter, contentStart + 1);
+  while (close !== -1) {
+    const isSingleOfDouble = delimiter.length === 1 && text.charAt(close + 1) === delimiter;
+    if (
+      (isPaddingAllowed || !/\s/.test(text.charAt(close - 1))) &&
+      !isSingleOfDouble &&
+      !(delimiter === '_' && isWordCharacter(text.charAt(close + 1)))
+    ) {
+      return close;
+    }
+    close = text.indexOf(delimiter, close + (isSingleOfDouble ? 2 : 1));
+  }
+  return -1;
+}
+
+/**
+ * Parses inline Markdown: emphasis, links, spoilers and line breaks
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const span = (
+    type: 'strong' | 'emphasis' | 'spoiler',
+    delimiter: string,
+    start: number
+  ): number => {
+    const close = findClosing(text, delimiter, start);
+    if (close === -1) return -1;
+    flush();
+    nodes.push({ type, children: parseInline(text.slice(start + delimiter.length, close)) });
+    return close + delimiter.length;
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const character = text[index];
+    const pair = text.slice(index, index + 2);
+    let next = -1;
+
+    if (character === '\\' && ESCAPABLE.has(text.charAt(index + 1))) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+    if (character === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      index += 1;
+      continue;
+    }
+
+    if (pair === '||') {
+      next = span('spoiler', '||', index);
+    } else if (pair === '**' || pair === '__') {
+      next = span('strong', pair, index);
+    } else if (character === '*' || (character === '_' && !isWordCharacter(text[index - 1]))) {
+      next = span('emphasis', character, index);
+    } else if (character === '[') {
+      const match = LINK.exec(text.slice(index));
+      if (match) {
+        const href = safeLinkUrl(match[2]);
+        flush();
+        nodes.push(
+          href
+            ? { type: 'link', href, children: parseInline(match[1]) }
+            : { type: 'text', text: match[1] }
+        );
+        next = index + match[0].length;
+      }
+    }
+
+    if (next === -1) {
+      // An unmatched delimiter pair is text; skip both characters so the
+      // second one does not open a span of its own
+      const length = pair === '||' || pair === '**' || pair === '__' ? 2 : 1;
+      buffer += text.slice(index, index + length);
+      index += length;
+    } else {
+      index = next;
+    }
+  }
+  flush();
+  return nodes;
+}
+
+/**
+ * Parses review text into blocks
+ *
+ * Blank lines separate paragraphs; single newlines inside a paragraph are kept
+ * as line breaks, matching how the text looked in the review form.
+ *
+ * @example
+ * parseMarkdown('Loved it.\n\n- **pacing**\n- ||the ending||');
+ * // [{ type: 'paragraph', ... }, { type: 'list', ordered: false, ... }]
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index += 1;
+    } else if (QUOTE_LINE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE_LINE.test(lines[index])) {
+        quoted.push(QUOTE_LINE.exec(lines[index])![1]);
+        index += 1;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+    } else if (UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line)) {
+      const pattern = UNORDERED_ITEM.test(line) ? UNORDERED_ITEM : ORDERED_ITEM;
+      const ordered = pattern === ORDERED_ITEM;
+      const items: MarkdownInline[][] = [];
+      const start = ordered ? Number(ORDERED_ITEM.exec(line)![1]) : 1;
+      while (index < lines.length && pattern.test(lines[index])) {
+        const match = pattern.exec(lines[index])!;
+        items.push(parseInline(ordered ? match[2] : match[1]));
+        index += 1;
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+    } else {
+      const paragraph: string[] = [];
+      while (
+        index < lines.length &&
+        lines[index].trim() !== '' &&
+        !QUOTE_LINE.test(lines[index]) &&
+        !UNORDERED_ITEM.test(lines[index]) &&
+        !ORDERED_ITEM.test(lines[index])
+      ) {
+        paragraph.push(lines[index].trim());
+        index += 1;
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+  }
+  return blocks;
+}
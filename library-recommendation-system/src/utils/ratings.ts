@@ -0,0 +1,55 @@
+import { Book, RatingDistribution, RatingSummary } from '@/types';
+
+/**
+ * Rating aggregates stored on each book
+ *
+ * The server recomputes these whenever a review is created, edited or
+ * deleted; the client only reads them.
+ */
+
+/**
+ * Summarizes a book's review ratings
+ *
+ * @param ratings - Star ratings from 1 to 5, one per review
+ * @returns Average rounded to two decimals (0 without reviews), count and per-star counts
+ *
+ * @example
+ * summarizeRatings([5, 4, 5]); // { rating: 4.67, reviewCount: 3, ratingDistribution: [0, 0, 0, 1, 2] }
+ */
+export function summarizeRatings(ratings: number[]): RatingSummary {
+  const ratingDistribution: RatingDistribution = [0, 0, 0, 0, 0];
+  ratings.forEach((rating) => {
+    const stars = Math.min(Math.max(Math.round(rating), 1), 5);
+    ratingDistribution[stars - 1] += 1;
+  });
+  const total = ratings.reduce((sum, rating) => sum + rating, 0);
+  return {
+    rating: ratings.length === 0 ? 0 : Math.round((total / ratings.length) * 100) / 100,
+    reviewCount: ratings.length,
+    ratingDistribution,
+  };
+}
+
+/**
+ * Combines the rating aggregates of several books, e.g. an author's, as if
+ * all their reviews belonged to one book
+ *
+ * @example
+ * combineRatings([{ rating: 4, reviewCount: 1, ... }, { rating: 5, reviewCount: 3, ... }]);
+ * // { rating: 4.75, reviewCount: 4, ... }
+ */
+export function combineRatings(books: Pick<Book, keyof RatingSummary>[]): RatingSummary {
+  const ratingDistribution: RatingDistribution = [0, 0, 0, 0, 0];
+  let reviewCount = 0;
+  let total = 0;
+  books.forEach((book) => {
+    book.ratingDistribution.forEach((count, index) => (ratingDistribution[index] += count));
+    reviewCount += book.reviewCount;
+    total += book.rating * book.reviewCount;
+  });
+  return {
+    rating: reviewCount === 0 ? 0 : Math.round((total / reviewCount) * 100) / 100,
+    reviewCount,
+    ratingDistribution,
+  };
+}
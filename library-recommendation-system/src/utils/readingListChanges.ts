@@ -0,0 +1,90 @@
+/**
+ * Edits to the books of a reading list, applied locally before the server
+ * confirms them (see useReadingListMutations)
+ */
+
+export type ReadingListChange =
+  | { type: 'add'; bookId: string }
+  | { type: 'remove'; bookIds: string[] }
+  | { type: 'move'; bookId: string; toIndex: number }
+  /** Overwrites the whole list, e.g. to keep the user's version after a conflict */
+  | { type: 'replace'; bookIds: string[] };
+
+/**
+ * Returns the book ids after a change, or the same array if nothing changes
+ *
+ * Adding a book already on the list and removing or moving one that is not
+ * are no-ops, so a change can be replayed on a newer copy of the list.
+ *
+ * @example
+ * applyReadingListChange(['a', 'b', 'c'], { type: 'move', bookId: 'c', toIndex: 0 }); // ['c', 'a', 'b']
+ */
+export function applyReadingListChange(bookIds: string[], change: ReadingListChange): string[] {
+  switch (change.type) {
+    case 'add':
+      return bookIds.includes(change.bookId) ? bookIds : [...bookIds, change.bookId];
+    case 'remove': {
+      const next = bookIds.filter((bookId) => !change.bookIds.includes(bookId));
+      return next.length === bookIds.length ? bookIds : next;
+    }
+    case 'move': {
+      const from = bookIds.indexOf(change.bookId);
+      const to = Math.max(0, Math.min(change.toIndex, bookIds.length - 1));
+      if (from === -1 || from === to) return bookIds;
+      const next = bookIds.filter((bookId) => bookId !== change.bookId);
+      next.splice(to, 0, change.bookId);
+      return next;
+    }
+    case 'replace':
+      return sameOrder(bookIds, change.bookIds) ? bookIds : change.bookIds;
+  }
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((bookId, index) => bookId === b[index]);
+}
+
+/**
+ * Whether a change made on `base` can be replayed on `latest`, a newer copy
+ * written by someone else, without losing either side's intent
+ *
+ * Adds and removes always merge. A move only merges if the other side kept
+ * the relative order of the books both copies share, and a full replace only
+ * if the other side did not touch the books at all.
+ */
+export function canMergeReadingListChange(
+  base: string[],
+  latest: string[],
+  change: ReadingListChange
+): boolean {
+  switch (change.type) {
+    case 'add':
+    case 'remove':
+      return true;
+    case 'move': {
+      const shared = new Set(base.filter((bookId) => latest.includes(bookId)));
+      return sameOrder(
+        base.filter((bookId) => shared.has(bookId)),
+        latest.filter((bookId) => shared.has(bookId))
+      );
+    }
+    case 'replace':
+      return sameOrder(base, latest);
+  }
+}
+
+/**
+ * Short description of a change for error messages, e.g. "remove the book"
+ */
+export function describeReadingListChange(change: ReadingListChange): string {
+  switch (change.type) {
+    case 'add':
+      return 'add the book to the list';
+    case 'remove':
+      return change.bookIds.length === 1 ? 'remove the book' : 'remove the books';
+    case 'move':
+      return 'reorder the list';
+    case 'replace':
+      return 'save the list';
+  }
+}
@@ -0,0 +1,54 @@
+import { BookReadingStatus, ReadingStatus, ReadingStatusInput } from '@/types';
+
+/**
+ * Reading status helpers shared by the status controls and the local backend
+ */
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The reader's local calendar day as YYYY-MM-DD
+ */
+export function toLocalDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * True for a real calendar day written as YYYY-MM-DD
+ *
+ * @example
+ * isDay('2024-02-29'); // true
+ * isDay('2023-02-29'); // false
+ */
+export function isDay(value: string): boolean {
+  if (!DAY.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * The input for moving a book to a new status, filling in the dates a reader
+ * would expect: starting a book stamps today as the start unless it already
+ * has one, finishing or abandoning it stamps today as the end, and wanting to
+ * read it clears both.
+ *
+ * @example
+ * nextReadingStatus(undefined, 'reading', '2024-06-01');
+ * // { status: 'reading', startedOn: '2024-06-01', finishedOn: undefined }
+ */
+export function nextReadingStatus(
+  current: BookReadingStatus | undefined,
+  status: ReadingStatus,
+  today: string
+): ReadingStatusInput {
+  switch (status) {
+    case 'want-to-read':
+      return { status, startedOn: undefined, finishedOn: undefined };
+    case 'reading':
+      return { status, startedOn: current?.startedOn ?? today, finishedOn: undefined };
+    case 'finished':
+    case 'abandoned':
+      return { status, startedOn: current?.startedOn, finishedOn: today };
+  }
+}
@@ -0,0 +1,91 @@
+import { Review, ReviewQuery, ReviewSortField } from '@/types';
+
+/**
+ * Review query helpers shared by the API layer and the local backend
+ */
+
+const SORT_FIELDS: ReviewSortField[] = ['newest', 'oldest', 'highest', 'lowest', 'helpful'];
+
+/**
+ * Review listing BookDetail opens with: newest first, ten per page. Requests
+ * fill missing query fields from it, so equal listings share one cache key.
+ */
+export const DEFAULT_REVIEW_QUERY: ReviewQuery = { sort: 'newest', limit: 10 };
+
+/**
+ * Serialises a review query into `GET /books/{id}/reviews` search parameters
+ *
+ * Like `toBookSearchParams`, empty values are dropped and keys keep a fixed
+ * order so the string doubles as a cache key.
+ *
+ * @example
+ * toReviewSearchParams({ sort: 'highest', rating: 5 }); // 'sort=highest&rating=5'
+ */
+export function toReviewSearchParams(query: ReviewQuery): string {
+  const params = new URLSearchParams();
+  const entries: Array<[string, string | number | undefined]> = [
+    ['sort', query.sort],
+    ['rating', query.rating],
+    ['userId', query.userId],
+    ['limit', query.limit],
+    ['cursor', query.cursor],
+  ];
+  entries.forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  return params.toString();
+}
+
+/**
+ * Reads a review query back from search parameters, ignoring invalid values
+ */
+export function parseReviewQuery(params: URLSearchParams): ReviewQuery {
+  const sort = params.get('sort') as ReviewSortField | null;
+  const rating = Number(params.get('rating'));
+  const limit = Number(params.get('limit'));
+  return {
+    sort: sort && SORT_FIELDS.includes(sort) ? sort : undefined,
+    rating: Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : undefined,
+    userId: params.get('userId') || undefined,
+    limit: params.get('limit') && Number.isFinite(limit) ? limit : undefined,
+    cursor: params.get('cursor') || undefined,
+  };
+}
+
+/**
+ * Orders reviews by a sort field, breaking ties by date and then id so pages
+ * are stable
+ */
+export function compareReviews(a: Review, b: Review, sort: ReviewSortField = 'newest'): number {
+  const newestFirst = b.createdAt.localeCompare(a.createdAt);
+  let result: number;
+  switch (sort) {
+    case 'oldest':
+      result = -newestFirst;
+      break;
+    case 'highest':
+      result = b.rating - a.rating || newestFirst;
+      break;
+    case 'lowest':
+      result = a.rating - b.rating || newestFirst;
+      break;
+    case 'helpful':
+      result = b.helpfulCount - a.helpfulCount || newestFirst;
+      break;
+    default:
+      result = newestFirst;
+  }
+  return result || a.id.localeCompare(b.id);
+}
+
+/**
+ * Filters and sorts a list of reviews in memory
+ */
+export function filterReviews(reviews: Review[], query: ReviewQuery): Review[] {
+  return reviews
+    .filter((review) => query.rating === undefined || Math.round(review.rating) === query.rating)
+    .filter((review) => query.userId === undefined || review.userId === query.userId)
+    .sort((a, b) => compareReviews(a, b, query.sort));
+}
@@ -0,0 +1,67 @@
+/**
+ * Non-blocking notifications, rendered by <Toaster /> in App.tsx
+ *
+ * Unlike the alerts in `errorHandling.ts`, toasts do not interrupt the user
+ * and can carry an action such as "Retry".
+ */
+
+export type ToastTone = 'success' | 'error';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  tone: ToastTone;
+  message: string;
+  action?: ToastAction;
+}
+
+/** How long a toast stays up; toasts with an action stay twice as long */
+export const TOAST_DURATION_MS = 5000;
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+function setToasts(next: Toast[]): void {
+  toasts = next;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Returns the visible toasts, oldest first
+ */
+export function getToasts(): Toast[] {
+  return toasts;
+}
+
+/**
+ * Subscribes to toasts being shown or dismissed
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToasts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Shows a toast and returns its id
+ *
+ * @example
+ * showToast({ tone: 'error', message: 'Could not save', action: { label: 'Retry', onClick: save } });
+ */
+export function showToast(toast: Omit<Toast, 'id'>): number {
+  const id = nextId++;
+  setToasts([...toasts, { ...toast, id }]);
+  return id;
+}
+
+export function dismissToast(id: number): void {
+  setToasts(toasts.filter((toast) => toast.id !== id));
+}